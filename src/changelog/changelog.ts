@@ -0,0 +1,245 @@
+import path from "node:path";
+import { type Result, err, ok } from "neverthrow";
+
+import type { HermesConfig } from "../config";
+import { DocumentationGenerator, type GeneratorError } from "../generator";
+import {
+	type SymbolTable,
+	buildSymbolTable,
+	formatSymbolHref,
+} from "../markdown";
+import type { DocItem } from "../parser/traversal";
+import {
+	type ApiChange,
+	type ApiDiff,
+	type ChangeCategory,
+	describeKind,
+	diffApi,
+} from "../report";
+import { type GitError, getRepositoryRoot, withWorktree } from "./git";
+
+/**
+ * Error types that can occur while generating a changelog
+ */
+export type ChangelogError =
+	| GitError
+	| { type: "generator_error"; ref: string; details: GeneratorError };
+
+/**
+ * Options for generating a changelog
+ */
+export interface ChangelogOptions {
+	/**
+	 * Revision to compare from, e.g. the tag of the last release
+	 */
+	from: string;
+	/**
+	 * Revision to compare to
+	 */
+	to: string;
+	/**
+	 * Directory inside the repository that the configuration is relative to
+	 */
+	cwd: string;
+	/**
+	 * Path of the file the changelog is written to, which links are made
+	 * relative to
+	 */
+	outputPath: string;
+	/**
+	 * Directory of the generated documentation that symbols link into
+	 */
+	docsDir: string;
+}
+
+/**
+ * Options for formatting a changelog
+ */
+export interface ChangelogFormatOptions {
+	from: string;
+	to: string;
+	/**
+	 * Documented symbols of the new revision; symbols are not linked when unset
+	 */
+	symbols?: SymbolTable;
+	outputPath: string;
+}
+
+/**
+ * The public API of a revision and where its symbols are documented
+ */
+interface RevisionApi {
+	items: DocItem[];
+	symbols: SymbolTable;
+}
+
+// Changelog sections in the order they are listed
+const SECTIONS: [ChangeCategory, string][] = [
+	["added", "Added"],
+	["removed", "Removed"],
+	["deprecated", "Deprecated"],
+	["changed", "Changed"],
+];
+
+/**
+ * Generate the API changes section of a changelog by extracting the public
+ * API of two revisions of the local repository and comparing them
+ */
+export async function generateChangelog(
+	config: HermesConfig,
+	patterns: string[],
+	options: ChangelogOptions,
+): Promise<Result<string, ChangelogError>> {
+	const rootResult = await getRepositoryRoot(options.cwd);
+	if (rootResult.isErr()) {
+		return err(rootResult.error);
+	}
+
+	const repoRoot = rootResult.value;
+	const fromResult = await extractRevision(
+		repoRoot,
+		options.from,
+		config,
+		patterns,
+		options,
+	);
+	if (fromResult.isErr()) {
+		return err(fromResult.error);
+	}
+
+	const toResult = await extractRevision(
+		repoRoot,
+		options.to,
+		config,
+		patterns,
+		options,
+	);
+	if (toResult.isErr()) {
+		return err(toResult.error);
+	}
+
+	return ok(
+		formatChangelog(diffApi(fromResult.value.items, toResult.value.items), {
+			from: options.from,
+			to: options.to,
+			symbols: toResult.value.symbols,
+			outputPath: options.outputPath,
+		}),
+	);
+}
+
+/**
+ * Format API changes as a Markdown changelog section listing the added,
+ * removed, deprecated and changed symbols
+ *
+ * Documentation-only changes are left out, and breaking changes are marked.
+ */
+export function formatChangelog(
+	diff: ApiDiff,
+	options: ChangelogFormatOptions,
+): string {
+	const changes = diff.changes.filter((change) => change.impact !== "patch");
+
+	let markdown = "## API changes\n\n";
+	markdown += `Changes from \`${options.from}\` to \`${options.to}\`.`;
+
+	if (changes.length === 0) {
+		return `${markdown} No API changes.\n`;
+	}
+
+	markdown += ` Recommended version bump: **${diff.bump}**.\n`;
+
+	for (const [category, heading] of SECTIONS) {
+		const entries = changes.filter((change) => change.category === category);
+		if (entries.length === 0) {
+			continue;
+		}
+
+		markdown += `\n### ${heading}\n\n`;
+		for (const change of entries) {
+			markdown += `- ${formatEntry(change, options)}\n`;
+		}
+	}
+
+	return markdown;
+}
+
+/**
+ * Extract the public API of a revision from a temporary worktree
+ */
+async function extractRevision(
+	repoRoot: string,
+	ref: string,
+	config: HermesConfig,
+	patterns: string[],
+	options: ChangelogOptions,
+): Promise<Result<RevisionApi, ChangelogError>> {
+	const result = await withWorktree(repoRoot, ref, async (worktreeDir) => {
+		// Resolve the configuration against the checked out revision as it is
+		// against the working tree
+		const cwd = path.join(worktreeDir, path.relative(repoRoot, options.cwd));
+		const revisionConfig: HermesConfig = {
+			...config,
+			rootDir: config.rootDir && path.resolve(cwd, config.rootDir),
+		};
+
+		const generator = new DocumentationGenerator(revisionConfig);
+		const itemsResult = await generator.extract(
+			patterns.map((pattern) => resolvePattern(pattern, cwd)),
+			{ exportedOnly: true, cwd },
+		);
+
+		return itemsResult.map((items) => ({
+			items,
+			symbols: buildSymbolTable(
+				generator.getOutputFiles(items, {
+					outputDir: path.resolve(options.docsDir),
+				}),
+			),
+		}));
+	});
+
+	if (result.isErr()) {
+		return err(result.error);
+	}
+
+	return result.value.mapErr((details) => ({
+		type: "generator_error" as const,
+		ref,
+		details,
+	}));
+}
+
+/**
+ * Format a changelog entry, linking the symbol to its documentation
+ */
+function formatEntry(
+	change: ApiChange,
+	options: ChangelogFormatOptions,
+): string {
+	// Removed symbols are no longer documented
+	const target =
+		change.category !== "removed"
+			? options.symbols?.names.get(change.symbol)
+			: undefined;
+	const label = `\`${change.symbol}\``;
+	const symbol = target
+		? `[${label}](${formatSymbolHref(target, { outputPath: path.resolve(options.outputPath) })})`
+		: label;
+	const breaking = change.impact === "major" ? " **(breaking)**" : "";
+
+	if (change.category === "changed") {
+		return `${symbol}: ${change.message}${breaking}`;
+	}
+
+	return `${symbol} (${describeKind(change.kind)})${breaking}`;
+}
+
+/**
+ * Resolve a glob pattern against a directory, keeping negations
+ */
+function resolvePattern(pattern: string, cwd: string): string {
+	return pattern.startsWith("!")
+		? `!${path.resolve(cwd, pattern.slice(1))}`
+		: path.resolve(cwd, pattern);
+}
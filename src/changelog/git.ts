@@ -0,0 +1,128 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { type Result, err, ok } from "neverthrow";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Error types that can occur while running git
+ */
+export type GitError =
+	| { type: "git_error"; command: string; details: string }
+	| { type: "unknown_revision"; ref: string };
+
+/**
+ * Get the root directory of the git repository containing a directory
+ */
+export async function getRepositoryRoot(
+	cwd: string,
+): Promise<Result<string, GitError>> {
+	return runGit(["rev-parse", "--show-toplevel"], cwd);
+}
+
+/**
+ * Check out a revision of the repository into a temporary worktree, run the
+ * callback on it, and remove the worktree again
+ *
+ * The repository's `node_modules` is linked into the worktree, so that types
+ * from dependencies resolve as they do in the working tree.
+ */
+export async function withWorktree<T>(
+	repoRoot: string,
+	ref: string,
+	callback: (worktreeDir: string) => Promise<T>,
+): Promise<Result<T, GitError>> {
+	const commitResult = await runGit(
+		["rev-parse", "--verify", "--quiet", `${ref}^{commit}`],
+		repoRoot,
+	);
+	if (commitResult.isErr()) {
+		return err({ type: "unknown_revision", ref });
+	}
+
+	const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "hermes-worktree-"));
+	const worktreeDir = path.join(tempDir, "tree");
+
+	// Hooks of the repository must not run for our checkouts
+	const addResult = await runGit(
+		[
+			"-c",
+			`core.hooksPath=${os.devNull}`,
+			"worktree",
+			"add",
+			"--detach",
+			worktreeDir,
+			commitResult.value,
+		],
+		repoRoot,
+	);
+	if (addResult.isErr()) {
+		await fs.rm(tempDir, { recursive: true, force: true });
+		return err(addResult.error);
+	}
+
+	const modulesLink = path.join(worktreeDir, "node_modules");
+	const isLinked = await linkNodeModules(repoRoot, modulesLink);
+
+	try {
+		return ok(await callback(worktreeDir));
+	} finally {
+		// Remove the link first so that nothing follows it into the repository
+		if (isLinked) {
+			await fs.unlink(modulesLink);
+		}
+
+		const removeResult = await runGit(
+			["worktree", "remove", "--force", worktreeDir],
+			repoRoot,
+		);
+		await fs.rm(tempDir, { recursive: true, force: true });
+		if (removeResult.isErr()) {
+			await runGit(["worktree", "prune"], repoRoot);
+		}
+	}
+}
+
+/**
+ * Link the repository's `node_modules` into a worktree that has none
+ */
+async function linkNodeModules(
+	repoRoot: string,
+	linkPath: string,
+): Promise<boolean> {
+	const target = path.join(repoRoot, "node_modules");
+
+	try {
+		await fs.access(target);
+		await fs.symlink(target, linkPath, "junction");
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Run a git command and return its trimmed output
+ */
+async function runGit(
+	args: string[],
+	cwd: string,
+): Promise<Result<string, GitError>> {
+	try {
+		const { stdout } = await execFileAsync("git", args, { cwd });
+		return ok(stdout.trim());
+	} catch (error) {
+		const details =
+			(error as { stderr?: string }).stderr?.trim() ||
+			(error instanceof Error ? error.message : String(error));
+
+		return err({
+			type: "git_error",
+			command: `git ${args.join(" ")}`,
+			details,
+		});
+	}
+}
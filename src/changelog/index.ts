@@ -0,0 +1,2 @@
+export * from "./changelog";
+export * from "./git";
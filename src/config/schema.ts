@@ -1,5 +1,8 @@
 import { z } from "zod";
 
+// Severity of a lint rule; "off" disables the rule
+const LintSeveritySchema = z.enum(["off", "warn", "error"]);
+
 /**
  * Schema for the Hermes configuration file
  */
@@ -8,6 +11,30 @@ export const ConfigSchema = z.object({
 	outDir: z.string().default("./docs"),
 	include: z.array(z.string()).default(["src/**/*.ts"]),
 	exclude: z.array(z.string()).default(["**/*.test.ts", "**/*.spec.ts"]),
+	// Entry files or package.json paths; when set, only the public API
+	// reachable from them is documented instead of every included file
+	entryPoints: z.array(z.string()).optional(),
+
+	// Output layout: "flat" writes one file per source file name, "tree"
+	// mirrors the source directories relative to rootDir and "symbol" writes
+	// one page per top-level item
+	layout: z.enum(["flat", "tree", "symbol"]).default("flat"),
+	// Root of the source tree; defaults to the common directory of all
+	// documented files
+	rootDir: z.string().optional(),
+	// Output format: Markdown files, a single JSON file or a static HTML site
+	format: z.enum(["markdown", "json", "html"]).default("markdown"),
+	// Static site generator to write configuration files for alongside the
+	// Markdown output, e.g. a Docsify sidebar; none when unset
+	target: z.enum(["docsify", "docusaurus", "mkdocs", "vitepress"]).optional(),
+	// Directory the site generator reads pages from, such as the Docusaurus
+	// docs directory or the VitePress source directory; defaults to outDir
+	siteRoot: z.string().optional(),
+	// API report checked by `hermes api-check`
+	apiReport: z.string().default("./api-report.api.md"),
+	// Directory caching the doc items of source files between runs of
+	// `hermes generate`; caching is off when unset
+	cacheDir: z.string().optional(),
 
 	// Documentation options
 	title: z.string().default("API Documentation"),
@@ -20,6 +47,44 @@ export const ConfigSchema = z.object({
 			linkReferences: z.boolean().default(true),
 			includeTypes: z.boolean().default(true),
 			includeExamples: z.boolean().default(true),
+			// List members inherited from base classes and interfaces
+			includeInherited: z.boolean().default(false),
+			visibility: z
+				.array(z.enum(["public", "protected", "private", "#private"]))
+				.default(["public", "protected"]),
+		})
+		.default({}),
+
+	// Minimum documentation coverage percentages checked by `hermes coverage`;
+	// unset thresholds are not checked
+	coverage: z
+		.object({
+			thresholds: z
+				.object({
+					total: z.number().min(0).max(100).optional(),
+					symbols: z.number().min(0).max(100).optional(),
+					members: z.number().min(0).max(100).optional(),
+					parameters: z.number().min(0).max(100).optional(),
+					returns: z.number().min(0).max(100).optional(),
+				})
+				.default({}),
+		})
+		.default({}),
+
+	// Severity of each JSDoc rule checked by `hermes lint`
+	lint: z
+		.object({
+			rules: z
+				.object({
+					"param-names": LintSeveritySchema.default("error"),
+					"require-param": LintSeveritySchema.default("warn"),
+					"require-description": LintSeveritySchema.default("warn"),
+					"require-returns": LintSeveritySchema.default("warn"),
+					"throws-type": LintSeveritySchema.default("error"),
+					"no-empty-description": LintSeveritySchema.default("warn"),
+					"deprecated-reason": LintSeveritySchema.default("warn"),
+				})
+				.default({}),
 		})
 		.default({}),
 
@@ -47,12 +112,31 @@ export const defaultConfig: HermesConfig = {
 	outDir: "./docs",
 	include: ["src/**/*.ts"],
 	exclude: ["**/*.test.ts", "**/*.spec.ts"],
+	layout: "flat",
+	format: "markdown",
+	apiReport: "./api-report.api.md",
 	title: "API Documentation",
 	markdownOptions: {
 		tocDepth: 3,
 		linkReferences: true,
 		includeTypes: true,
 		includeExamples: true,
+		includeInherited: false,
+		visibility: ["public", "protected"],
+	},
+	coverage: {
+		thresholds: {},
+	},
+	lint: {
+		rules: {
+			"param-names": "error",
+			"require-param": "warn",
+			"require-description": "warn",
+			"require-returns": "warn",
+			"throws-type": "error",
+			"no-empty-description": "warn",
+			"deprecated-reason": "warn",
+		},
 	},
 	ai: {
 		enabled: true,
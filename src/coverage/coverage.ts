@@ -0,0 +1,347 @@
+import path from "node:path";
+
+import type { HermesConfig } from "../config";
+import { filterItemsByVisibility } from "../markdown/formatters";
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type EnumDoc,
+	type FunctionDoc,
+	type InterfaceDoc,
+	type JSDocInfo,
+	type MemberVisibility,
+	type MethodDoc,
+	type NamespaceDoc,
+	type ParameterDoc,
+	type VariableDoc,
+	getQualifiedName,
+} from "../parser/traversal";
+
+/**
+ * What a description is expected for
+ */
+export type CoverageCategory = "symbols" | "members" | "parameters" | "returns";
+
+/**
+ * Coverage categories in the order they are reported
+ */
+export const COVERAGE_CATEGORIES: CoverageCategory[] = [
+	"symbols",
+	"members",
+	"parameters",
+	"returns",
+];
+
+/**
+ * Number of documented descriptions out of all expected ones
+ */
+export interface CoverageCount {
+	documented: number;
+	total: number;
+}
+
+/**
+ * A symbol, member, parameter or return value without a description
+ */
+export interface UndocumentedItem {
+	category: CoverageCategory;
+	/**
+	 * Qualified name of the declaration, e.g. `Parser.parse`
+	 */
+	name: string;
+	/**
+	 * Kind of the declaration the description is missing from
+	 */
+	kind: DocItemKind;
+	/**
+	 * Name of the undocumented parameter
+	 */
+	parameter?: string;
+	/**
+	 * Location with the file path relative to the root directory
+	 */
+	location: DocItem["location"];
+}
+
+/**
+ * Documentation coverage of a set of doc items
+ *
+ * Files and kinds count every description expected there, so the row of
+ * the `method` kind includes the parameters and return values of methods.
+ */
+export interface CoverageReport {
+	total: CoverageCount;
+	categories: Record<CoverageCategory, CoverageCount>;
+	kinds: Record<string, CoverageCount>;
+	files: Record<string, CoverageCount>;
+	undocumented: UndocumentedItem[];
+}
+
+/**
+ * Options for computing documentation coverage
+ */
+export interface CoverageOptions {
+	/**
+	 * Root of the source tree that file paths are made relative to
+	 */
+	rootDir: string;
+	/**
+	 * Member visibilities that are documented; all members count when unset
+	 */
+	visibility?: MemberVisibility[];
+}
+
+/**
+ * Minimum coverage percentages by category
+ */
+export type CoverageThresholds = HermesConfig["coverage"]["thresholds"];
+
+/**
+ * A coverage percentage below its configured minimum
+ */
+export interface CoverageFailure {
+	category: CoverageCategory | "total";
+	percentage: number;
+	minimum: number;
+}
+
+/**
+ * A description that is expected for a declaration
+ */
+interface CoverageCheck extends UndocumentedItem {
+	isDocumented: boolean;
+}
+
+// Return types that need no `@returns` description
+const VOID_TYPES = new Set(["void", "Promise<void>", "never", "undefined"]);
+
+/**
+ * Compute which symbols, members, parameters and return values of the doc
+ * items have descriptions
+ *
+ * Constructors are not expected to have descriptions of their own, but
+ * their parameters are. Inherited members are counted where they are
+ * declared.
+ */
+export function computeCoverage(
+	items: DocItem[],
+	options: CoverageOptions,
+): CoverageReport {
+	const checks: CoverageCheck[] = [];
+
+	for (const item of filterItemsByVisibility(items, options.visibility)) {
+		collectChecks(item, checks);
+	}
+
+	const report: CoverageReport = {
+		total: { documented: 0, total: 0 },
+		categories: {
+			symbols: { documented: 0, total: 0 },
+			members: { documented: 0, total: 0 },
+			parameters: { documented: 0, total: 0 },
+			returns: { documented: 0, total: 0 },
+		},
+		kinds: {},
+		files: {},
+		undocumented: [],
+	};
+
+	for (const { isDocumented, ...check } of checks) {
+		const filePath = path
+			.relative(options.rootDir, check.location.filePath)
+			.split(path.sep)
+			.join("/");
+
+		report.kinds[check.kind] ??= { documented: 0, total: 0 };
+		report.files[filePath] ??= { documented: 0, total: 0 };
+
+		for (const count of [
+			report.total,
+			report.categories[check.category],
+			report.kinds[check.kind],
+			report.files[filePath],
+		]) {
+			count.total++;
+			if (isDocumented) {
+				count.documented++;
+			}
+		}
+
+		if (!isDocumented) {
+			report.undocumented.push({
+				...check,
+				location: { ...check.location, filePath },
+			});
+		}
+	}
+
+	report.kinds = sortRecord(report.kinds);
+	report.files = sortRecord(report.files);
+	report.undocumented.sort(
+		(a, b) =>
+			a.location.filePath.localeCompare(b.location.filePath) ||
+			a.location.line - b.location.line,
+	);
+
+	return report;
+}
+
+/**
+ * Get the percentage of documented descriptions, rounded to one decimal;
+ * nothing to document counts as fully documented
+ */
+export function getCoveragePercentage(count: CoverageCount): number {
+	if (count.total === 0) {
+		return 100;
+	}
+
+	return Math.round((count.documented / count.total) * 1000) / 10;
+}
+
+/**
+ * Find the coverage percentages that are below their thresholds
+ */
+export function checkCoverageThresholds(
+	report: CoverageReport,
+	thresholds: CoverageThresholds,
+): CoverageFailure[] {
+	const failures: CoverageFailure[] = [];
+
+	for (const category of ["total", ...COVERAGE_CATEGORIES] as const) {
+		const minimum = thresholds[category];
+		if (minimum === undefined) {
+			continue;
+		}
+
+		const count =
+			category === "total" ? report.total : report.categories[category];
+		const percentage = getCoveragePercentage(count);
+		if (percentage < minimum) {
+			failures.push({ category, percentage, minimum });
+		}
+	}
+
+	return failures;
+}
+
+/**
+ * Collect the descriptions expected for an item, its members and
+ * parameters
+ */
+function collectChecks(item: DocItem, checks: CoverageCheck[]): void {
+	const name = getQualifiedName(item);
+
+	checks.push(createCheck("symbols", item, name, item.description));
+
+	switch (item.kind) {
+		case DocItemKind.Function:
+			collectCallableChecks(item as FunctionDoc, name, checks);
+			break;
+		case DocItemKind.Variable:
+			if ((item as VariableDoc).isCallable) {
+				collectCallableChecks(item as VariableDoc, name, checks);
+			}
+			break;
+		case DocItemKind.Class:
+		case DocItemKind.Interface: {
+			const container = item as ClassDoc | InterfaceDoc;
+
+			for (const ctor of "constructors" in container
+				? container.constructors
+				: []) {
+				collectCallableChecks(ctor, name, checks, false);
+			}
+
+			for (const member of [...container.properties, ...container.methods]) {
+				const memberName = `${name}.${member.name}`;
+
+				checks.push(
+					createCheck("members", member, memberName, member.description),
+				);
+				if (member.kind === DocItemKind.Method) {
+					collectCallableChecks(member as MethodDoc, memberName, checks);
+				}
+			}
+			break;
+		}
+		case DocItemKind.Enum:
+			for (const member of (item as EnumDoc).members) {
+				checks.push(
+					createCheck(
+						"members",
+						item,
+						`${name}.${member.name}`,
+						member.description,
+					),
+				);
+			}
+			break;
+		case DocItemKind.Namespace:
+			for (const member of (item as NamespaceDoc).members) {
+				collectChecks(member, checks);
+			}
+			break;
+	}
+}
+
+/**
+ * Collect the parameter and return value descriptions expected for each
+ * signature callers see: the overloads, or the implementation when there
+ * are none
+ */
+function collectCallableChecks(
+	item: FunctionDoc | MethodDoc | VariableDoc,
+	name: string,
+	checks: CoverageCheck[],
+	hasReturnValue = true,
+): void {
+	const callables: {
+		parameters?: ParameterDoc[];
+		returnType?: string;
+		jsDoc?: JSDocInfo;
+	}[] =
+		"signatures" in item && item.signatures && item.signatures.length > 0
+			? item.signatures
+			: [item];
+
+	for (const callable of callables) {
+		for (const parameter of callable.parameters ?? []) {
+			checks.push({
+				...createCheck("parameters", item, name, parameter.description),
+				parameter: parameter.name,
+			});
+		}
+
+		if (hasReturnValue && !VOID_TYPES.has(callable.returnType ?? "void")) {
+			checks.push(createCheck("returns", item, name, callable.jsDoc?.returns));
+		}
+	}
+}
+
+/**
+ * Create the check for a description of a declaration
+ */
+function createCheck(
+	category: CoverageCategory,
+	item: DocItem,
+	name: string,
+	description: string | undefined,
+): CoverageCheck {
+	return {
+		category,
+		name,
+		kind: item.kind,
+		location: item.location,
+		isDocumented: !!description?.trim(),
+	};
+}
+
+/**
+ * Sort the entries of a record by key
+ */
+function sortRecord<T>(record: Record<string, T>): Record<string, T> {
+	return Object.fromEntries(
+		Object.entries(record).sort(([a], [b]) => a.localeCompare(b)),
+	);
+}
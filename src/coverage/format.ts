@@ -0,0 +1,168 @@
+import { DocItemKind } from "../parser/traversal";
+import { describeKind } from "../report";
+import {
+	COVERAGE_CATEGORIES,
+	type CoverageCount,
+	type CoverageFailure,
+	type CoverageReport,
+	type UndocumentedItem,
+	getCoveragePercentage,
+} from "./coverage";
+
+/**
+ * Format the coverage report as plain text tables by category, kind and
+ * file, followed by the undocumented items and threshold failures
+ */
+export function formatCoverageTable(
+	report: CoverageReport,
+	failures: CoverageFailure[] = [],
+): string {
+	let text = `Documentation coverage: ${formatPercentage(report.total)} (${report.total.documented}/${report.total.total})\n\n`;
+
+	text += formatTable(
+		"Category",
+		COVERAGE_CATEGORIES.map((category) => [
+			capitalize(category),
+			report.categories[category],
+		]),
+	);
+	text += `\n${formatTable(
+		"Kind",
+		Object.entries(report.kinds).map(([kind, count]) => [
+			describeKind(kind as DocItemKind),
+			count,
+		]),
+	)}`;
+	text += `\n${formatTable("File", Object.entries(report.files))}`;
+
+	if (report.undocumented.length > 0) {
+		text += "\nMissing descriptions:\n";
+		for (const item of report.undocumented) {
+			text += `  ${item.location.filePath}:${item.location.line}: ${describeUndocumented(item)}\n`;
+		}
+	}
+
+	if (failures.length > 0) {
+		text += "\n";
+		for (const failure of failures) {
+			text += `${formatCoverageFailure(failure)}\n`;
+		}
+	}
+
+	return text;
+}
+
+/**
+ * Format a Markdown summary of the coverage with a badge, e.g. for a README
+ * or a pull request comment
+ */
+export function formatCoverageMarkdown(report: CoverageReport): string {
+	const percentage = getCoveragePercentage(report.total);
+
+	let markdown = `![Documentation coverage: ${percentage}%](https://img.shields.io/badge/docs%20coverage-${percentage}%25-${getBadgeColor(percentage)})\n\n`;
+
+	markdown += "| Category | Documented | Total | Coverage |\n";
+	markdown += "| --- | ---: | ---: | ---: |\n";
+
+	for (const category of COVERAGE_CATEGORIES) {
+		const count = report.categories[category];
+		markdown += `| ${capitalize(category)} | ${count.documented} | ${count.total} | ${formatPercentage(count)} |\n`;
+	}
+
+	markdown += `| **Total** | ${report.total.documented} | ${report.total.total} | **${formatPercentage(report.total)}** |\n`;
+
+	return markdown;
+}
+
+/**
+ * Describe a coverage percentage below its threshold
+ */
+export function formatCoverageFailure(failure: CoverageFailure): string {
+	return `Coverage of ${failure.category} is ${failure.percentage}%, below the threshold of ${failure.minimum}%`;
+}
+
+/**
+ * Describe what an undocumented item lacks a description for
+ */
+function describeUndocumented(item: UndocumentedItem): string {
+	switch (item.category) {
+		case "parameters":
+			return `parameter \`${item.parameter}\` of \`${item.name}\``;
+		case "returns":
+			return `return value of \`${item.name}\``;
+		default: {
+			// Enum members are counted as members of their enum
+			const kind =
+				item.category === "members" && item.kind === DocItemKind.Enum
+					? "enum member"
+					: describeKind(item.kind);
+			return `${kind} \`${item.name}\``;
+		}
+	}
+}
+
+/**
+ * Format rows of counts as a table with aligned columns
+ */
+function formatTable(heading: string, rows: [string, CoverageCount][]): string {
+	const table = [
+		[heading, "Documented", "Total", "Coverage"],
+		...rows.map(([label, count]) => [
+			label,
+			String(count.documented),
+			String(count.total),
+			formatPercentage(count),
+		]),
+	];
+	const widths = table[0].map((_, column) =>
+		Math.max(...table.map((row) => row[column].length)),
+	);
+
+	return table
+		.map(
+			(row) =>
+				`${row
+					.map((cell, column) =>
+						// Numbers are right-aligned
+						column === 0
+							? cell.padEnd(widths[column])
+							: cell.padStart(widths[column]),
+					)
+					.join("  ")
+					.trimEnd()}\n`,
+		)
+		.join("");
+}
+
+/**
+ * Format a coverage percentage with one decimal
+ */
+function formatPercentage(count: CoverageCount): string {
+	return `${getCoveragePercentage(count).toFixed(1)}%`;
+}
+
+/**
+ * Pick a badge color from red to green by coverage percentage
+ */
+function getBadgeColor(percentage: number): string {
+	if (percentage >= 90) {
+		return "brightgreen";
+	}
+	if (percentage >= 75) {
+		return "green";
+	}
+	if (percentage >= 60) {
+		return "yellow";
+	}
+	if (percentage >= 40) {
+		return "orange";
+	}
+	return "red";
+}
+
+/**
+ * Capitalize the first letter of a word
+ */
+function capitalize(word: string): string {
+	return `${word[0].toUpperCase()}${word.slice(1)}`;
+}
@@ -0,0 +1,136 @@
+import path from "node:path";
+import { type SourceFile, ts } from "ts-morph";
+
+import type { ExampleSnippet } from "./collect";
+
+/**
+ * A problem found while checking or running an example
+ */
+export type ExampleProblem = {
+	type: "type_error" | "runtime_error" | "assertion_failed";
+	example: ExampleSnippet;
+	message: string;
+	location: ExampleSnippet["location"];
+};
+
+// Diagnostics of `noUnusedLocals` about the injected import
+const UNUSED_DIAGNOSTIC_CODES = new Set([6133, 6192, 6196]);
+
+// Top-level `await` is allowed because examples run in an async function
+const TOP_LEVEL_AWAIT_DIAGNOSTIC_CODE = 1378;
+
+/**
+ * An example prepared to be compiled next to the module it documents
+ */
+export interface PreparedExample {
+	/**
+	 * Path of the example file, in the directory of the documented module
+	 */
+	filePath: string;
+	/**
+	 * Example code preceded by a line importing the documented module
+	 */
+	code: string;
+}
+
+/**
+ * Type-check an example in the context of the module it documents
+ *
+ * Everything the module exports is imported into the example, unless the
+ * example declares or imports a name of its own. Type errors are reported at
+ * their line in the JSDoc comment.
+ */
+export function checkExample(
+	sourceFile: SourceFile,
+	example: ExampleSnippet,
+): ExampleProblem[] {
+	const project = sourceFile.getProject();
+	const prepared = prepareExample(sourceFile, example);
+	const exampleFile = project.createSourceFile(
+		prepared.filePath,
+		prepared.code,
+		{ overwrite: true },
+	);
+
+	try {
+		const diagnostics = exampleFile
+			.getPreEmitDiagnostics()
+			.filter(
+				(diagnostic) =>
+					diagnostic.getCode() !== TOP_LEVEL_AWAIT_DIAGNOSTIC_CODE &&
+					!(
+						diagnostic.getLineNumber() === 1 &&
+						UNUSED_DIAGNOSTIC_CODES.has(diagnostic.getCode())
+					),
+			);
+
+		return diagnostics.map((diagnostic) => {
+			// The first line of the example file is the injected import
+			const line = (diagnostic.getLineNumber() ?? 1) - 2;
+
+			return {
+				type: "type_error",
+				example,
+				message: ts.flattenDiagnosticMessageText(
+					diagnostic.compilerObject.messageText,
+					"\n",
+				),
+				location: {
+					...example.location,
+					line: example.location.line + Math.max(line, 0),
+				},
+			};
+		});
+	} finally {
+		project.removeSourceFile(exampleFile);
+	}
+}
+
+/**
+ * Prepare an example to be compiled next to the module it documents, with
+ * an import of the module's exports on its first line
+ */
+export function prepareExample(
+	sourceFile: SourceFile,
+	example: ExampleSnippet,
+): PreparedExample {
+	const project = sourceFile.getProject();
+	const directory = path.dirname(sourceFile.getFilePath());
+	const moduleName = path.basename(
+		sourceFile.getFilePath(),
+		path.extname(sourceFile.getFilePath()),
+	);
+	const filePath = path.join(
+		directory,
+		`__${moduleName}.example-${example.name.replace(/[^\w$]/g, "_")}-${example.index}.ts`,
+	);
+
+	// Names the example declares itself must not be imported
+	const scratchFile = project.createSourceFile(filePath, example.code, {
+		overwrite: true,
+	});
+	const declaredNames = new Set(
+		[...scratchFile.getLocals()].map((symbol) => symbol.getName()),
+	);
+	project.removeSourceFile(scratchFile);
+
+	const importedNames = [...sourceFile.getExportedDeclarations().keys()].filter(
+		(name) => name !== "default" && !declaredNames.has(name),
+	);
+
+	// Node16 resolution requires the extension of the emitted file
+	const moduleResolution = project.getCompilerOptions().moduleResolution;
+	const extension =
+		moduleResolution === ts.ModuleResolutionKind.Node16 ||
+		moduleResolution === ts.ModuleResolutionKind.NodeNext
+			? ".js"
+			: "";
+
+	// A file with an import is a module, so examples do not share names
+	const importLine =
+		importedNames.length > 0
+			? `import { ${importedNames.join(", ")} } from "./${moduleName}${extension}";`
+			: "export {};";
+
+	return { filePath, code: `${importLine}\n${example.code}\n` };
+}
@@ -0,0 +1,135 @@
+import type { SourceFile } from "ts-morph";
+
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type InterfaceDoc,
+	type NamespaceDoc,
+	extractDocumentation,
+	getQualifiedName,
+} from "../parser/traversal";
+
+/**
+ * An `@example` code block of a documented declaration
+ */
+export interface ExampleSnippet {
+	/**
+	 * Qualified name of the documented declaration, e.g. `Parser.parse`
+	 */
+	name: string;
+	/**
+	 * Position of the example among the declaration's examples, from 1
+	 */
+	index: number;
+	code: string;
+	/**
+	 * Location of the first line of code in the JSDoc comment
+	 */
+	location: DocItem["location"];
+}
+
+// Example languages that are checked; examples without a fence have none
+const CHECKED_LANGUAGES = new Set([
+	undefined,
+	"ts",
+	"typescript",
+	"js",
+	"javascript",
+]);
+
+/**
+ * Collect the TypeScript and JavaScript examples of the declarations in a
+ * source file and their members
+ */
+export function collectExamples(sourceFile: SourceFile): ExampleSnippet[] {
+	const lines = sourceFile.getFullText().split(/\r?\n/);
+	const snippets: ExampleSnippet[] = [];
+
+	const collect = (item: DocItem, name: string) => {
+		for (const [position, example] of (item.jsDoc?.examples ?? []).entries()) {
+			if (!CHECKED_LANGUAGES.has(example.language) || !example.code.trim()) {
+				continue;
+			}
+
+			snippets.push({
+				name,
+				index: position + 1,
+				code: example.code,
+				location: {
+					filePath: item.location.filePath,
+					line: findCodeLine(lines, item.location.line, example.code, position),
+				},
+			});
+		}
+
+		if (
+			item.kind === DocItemKind.Class ||
+			item.kind === DocItemKind.Interface
+		) {
+			const container = item as ClassDoc | InterfaceDoc;
+			for (const member of [
+				...("constructors" in container ? container.constructors : []),
+				...container.properties,
+				...container.methods,
+			]) {
+				collect(member, `${name}.${member.name}`);
+			}
+		}
+
+		if (item.kind === DocItemKind.Namespace) {
+			for (const member of (item as NamespaceDoc).members) {
+				collect(member, getQualifiedName(member));
+			}
+		}
+	};
+
+	for (const item of extractDocumentation(sourceFile)) {
+		collect(item, getQualifiedName(item));
+	}
+
+	return snippets;
+}
+
+/**
+ * Find the line of the JSDoc comment above a declaration where the code of
+ * its n-th example starts, falling back to the declaration line
+ */
+function findCodeLine(
+	lines: string[],
+	declarationLine: number,
+	code: string,
+	position: number,
+): number {
+	// Find the start of the comment closest to the declaration
+	let start = declarationLine - 2;
+	while (start >= 0 && !lines[start].includes("/**")) {
+		start--;
+	}
+	if (start < 0) {
+		return declarationLine;
+	}
+
+	const exampleLines: number[] = [];
+	for (let index = start; index < declarationLine - 1; index++) {
+		if (lines[index].includes("@example")) {
+			exampleLines.push(index);
+		}
+	}
+
+	const codeLines = code.split("\n");
+	const firstIndex = codeLines.findIndex((line) => line.trim());
+	const exampleLine = exampleLines[position];
+	if (exampleLine === undefined || firstIndex === -1) {
+		return declarationLine;
+	}
+
+	for (let index = exampleLine; index < declarationLine - 1; index++) {
+		const content = lines[index].replace(/^\s*\*\s?/, "").trim();
+		if (content === codeLines[firstIndex].trim()) {
+			return index + 1 - firstIndex;
+		}
+	}
+
+	return declarationLine;
+}
@@ -0,0 +1,71 @@
+import path from "node:path";
+
+import type { ExampleProblem } from "./check";
+import type { ExampleResults } from "./run";
+
+/**
+ * Options for formatting example results
+ */
+export interface ExampleFormatOptions {
+	/**
+	 * Directory that file paths are made relative to
+	 */
+	baseDir: string;
+}
+
+// Labels of the problem types in the console output
+const PROBLEM_LABELS: Record<ExampleProblem["type"], string> = {
+	type_error: "type error",
+	runtime_error: "runtime error",
+	assertion_failed: "assertion failed",
+};
+
+/**
+ * Format example problems for the console, one per line with its location
+ * and example, followed by a summary
+ */
+export function formatExampleResults(
+	results: ExampleResults,
+	options: ExampleFormatOptions,
+): string {
+	if (results.examples === 0) {
+		return "No examples found.\n";
+	}
+
+	if (results.problems.length === 0) {
+		return `${pluralize(results.examples, "example")} passed.\n`;
+	}
+
+	let text = "";
+
+	for (const problem of results.problems) {
+		const { filePath, line } = problem.location;
+		const relativePath = path
+			.relative(options.baseDir, filePath)
+			.split(path.sep)
+			.join("/");
+		const [message, ...details] = problem.message.split("\n");
+
+		text += `${relativePath}:${line}: ${PROBLEM_LABELS[problem.type]}: ${message} (example ${problem.example.index} of \`${problem.example.name}\`)\n`;
+		for (const detail of details) {
+			text += `  ${detail}\n`;
+		}
+	}
+
+	const failed = new Set(
+		results.problems.map(
+			({ example }) =>
+				`${example.location.filePath}:${example.name}#${example.index}`,
+		),
+	).size;
+	text += `\n${pluralize(results.problems.length, "problem")} in ${failed} of ${pluralize(results.examples, "example")}\n`;
+
+	return text;
+}
+
+/**
+ * Format a count with the singular or plural form of a noun
+ */
+function pluralize(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
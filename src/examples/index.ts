@@ -0,0 +1,4 @@
+export * from "./check";
+export * from "./collect";
+export * from "./format";
+export * from "./run";
@@ -0,0 +1,319 @@
+import fs from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { inspect } from "node:util";
+import vm from "node:vm";
+import { type SourceFile, ts } from "ts-morph";
+
+import { type ExampleProblem, checkExample, prepareExample } from "./check";
+import { type ExampleSnippet, collectExamples } from "./collect";
+
+/**
+ * Options for running examples
+ */
+export interface RunExampleOptions {
+	/**
+	 * Time an example may run before it fails, in milliseconds
+	 */
+	timeout: number;
+}
+
+// Matches `expression // => expected` and `const name = expression // => expected`
+const EXPECTATION_REGEX =
+	/^(\s*)(?:(const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*)?(.+?);?\s*\/\/\s*=>\s*(.*)$/;
+
+// Name of the assertion function made available to examples
+const EXPECT_FUNCTION = "__hermesExpect";
+
+// Compiler options for running examples and the modules they import
+const RUN_COMPILER_OPTIONS: ts.CompilerOptions = {
+	module: ts.ModuleKind.CommonJS,
+	target: ts.ScriptTarget.ES2020,
+	esModuleInterop: true,
+};
+
+/**
+ * Options for testing the examples of source files
+ */
+export interface TestExamplesOptions extends RunExampleOptions {
+	/**
+	 * Whether to run the examples after type-checking them
+	 */
+	run: boolean;
+}
+
+/**
+ * Results of testing the examples of source files
+ */
+export interface ExampleResults {
+	/**
+	 * Number of examples that were tested
+	 */
+	examples: number;
+	problems: ExampleProblem[];
+}
+
+/**
+ * Type-check the examples of source files and optionally run them
+ *
+ * Examples with type errors are not run.
+ */
+export async function testExamples(
+	sourceFiles: SourceFile[],
+	options: TestExamplesOptions,
+): Promise<ExampleResults> {
+	const results: ExampleResults = { examples: 0, problems: [] };
+
+	for (const sourceFile of sourceFiles) {
+		for (const example of collectExamples(sourceFile)) {
+			results.examples++;
+
+			const typeErrors = checkExample(sourceFile, example);
+			results.problems.push(...typeErrors);
+
+			if (options.run && typeErrors.length === 0) {
+				results.problems.push(
+					...(await runExample(sourceFile, example, options)),
+				);
+			}
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Run an example in a Node sandbox, checking the values of expressions
+ * followed by `// => expected` comments
+ *
+ * The documented module and the TypeScript modules it imports are compiled
+ * on the fly; other modules are loaded with Node's `require`. The sandbox
+ * separates the example's globals but is not a security boundary, and
+ * console output of examples is discarded.
+ */
+export async function runExample(
+	sourceFile: SourceFile,
+	example: ExampleSnippet,
+	options: RunExampleOptions,
+): Promise<ExampleProblem[]> {
+	const problems: ExampleProblem[] = [];
+	const prepared = prepareExample(sourceFile, example);
+
+	const expect = (actual: unknown, expected: string, line: number) => {
+		if (!matchesExpected(actual, expected)) {
+			problems.push({
+				type: "assertion_failed",
+				example,
+				message: `Expected ${expected} but got ${formatValue(actual)}`,
+				location: { ...example.location, line: example.location.line + line },
+			});
+		}
+	};
+
+	// The first line of the prepared code is the injected import
+	const [importLine, ...codeLines] = prepared.code.split("\n");
+	const code = [importLine, ...codeLines.map(addExpectation)].join("\n");
+
+	const context = createSandbox();
+	const module = { exports: {} };
+	context.__hermesExample = {
+		exports: module.exports,
+		require: createModuleRequire(prepared.filePath, context, new Map()),
+		module,
+		filename: prepared.filePath,
+		dirname: path.dirname(prepared.filePath),
+		expect,
+	};
+
+	let timer: NodeJS.Timeout | undefined;
+
+	try {
+		// Examples run in an async function so that they can use `await`
+		const completion = vm.runInContext(
+			`(async (exports, require, module, __filename, __dirname, ${EXPECT_FUNCTION}) => {\n${transpile(code, prepared.filePath)}\n})(...Object.values(__hermesExample))`,
+			context,
+			{ filename: prepared.filePath, timeout: options.timeout },
+		) as Promise<void>;
+
+		await Promise.race([
+			completion,
+			new Promise((_, reject) => {
+				timer = setTimeout(
+					() => reject(new Error(`Timed out after ${options.timeout} ms`)),
+					options.timeout,
+				);
+			}),
+		]);
+	} catch (error) {
+		problems.push({
+			type: "runtime_error",
+			example,
+			message: (error as { message?: string })?.message ?? String(error),
+			location: example.location,
+		});
+	} finally {
+		clearTimeout(timer);
+	}
+
+	return problems;
+}
+
+/**
+ * Turn a line ending in a `// => expected` comment into an assertion,
+ * keeping the line count so that line numbers still match
+ */
+function addExpectation(line: string, index: number): string {
+	const match = line.match(EXPECTATION_REGEX);
+	if (!match) {
+		return line;
+	}
+
+	const [, indent, keyword, name, expression, expected] = match;
+	const assertion = (value: string) =>
+		`${EXPECT_FUNCTION}(${value}, ${JSON.stringify(expected.trim())}, ${index});`;
+
+	if (keyword) {
+		return `${indent}${keyword} ${name} = ${expression}; ${assertion(name)}`;
+	}
+
+	return `${indent}${assertion(`(${expression})`)}`;
+}
+
+/**
+ * Create the global scope of an example
+ */
+function createSandbox(): vm.Context {
+	const silentConsole = Object.fromEntries(
+		Object.keys(console).map((method) => [method, () => {}]),
+	);
+
+	return vm.createContext({
+		console: silentConsole,
+		process,
+		Buffer,
+		URL,
+		URLSearchParams,
+		TextEncoder,
+		TextDecoder,
+		setTimeout,
+		clearTimeout,
+		setInterval,
+		clearInterval,
+		setImmediate,
+		clearImmediate,
+		queueMicrotask,
+	});
+}
+
+/**
+ * Create the `require` function of a module running in the sandbox, which
+ * compiles TypeScript modules and loads everything else with Node
+ */
+function createModuleRequire(
+	fromFile: string,
+	context: vm.Context,
+	cache: Map<string, { exports: unknown }>,
+): (specifier: string) => unknown {
+	const nodeRequire = createRequire(fromFile);
+
+	return (specifier: string) => {
+		if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+			const sourcePath = resolveSourceModule(
+				path.resolve(path.dirname(fromFile), specifier),
+			);
+			if (sourcePath) {
+				return loadSourceModule(sourcePath, context, cache);
+			}
+		}
+
+		return nodeRequire(specifier);
+	};
+}
+
+/**
+ * Compile and evaluate a TypeScript module in the sandbox, once per example
+ */
+function loadSourceModule(
+	filePath: string,
+	context: vm.Context,
+	cache: Map<string, { exports: unknown }>,
+): unknown {
+	const cached = cache.get(filePath);
+	if (cached) {
+		return cached.exports;
+	}
+
+	const module = { exports: {} };
+	cache.set(filePath, module);
+
+	const factory = vm.runInContext(
+		`(function (exports, require, module, __filename, __dirname) {\n${transpile(fs.readFileSync(filePath, "utf8"), filePath)}\n})`,
+		context,
+		{ filename: filePath },
+	);
+	factory(
+		module.exports,
+		createModuleRequire(filePath, context, cache),
+		module,
+		filePath,
+		path.dirname(filePath),
+	);
+
+	return module.exports;
+}
+
+/**
+ * Find the TypeScript file a relative import refers to, including imports
+ * written with the `.js` extension of the emitted file
+ */
+function resolveSourceModule(basePath: string): string | undefined {
+	const withoutExtension = basePath.replace(/\.(js|mjs|cjs)$/, "");
+	const candidates = [
+		`${withoutExtension}.ts`,
+		`${withoutExtension}.tsx`,
+		path.join(basePath, "index.ts"),
+		path.join(basePath, "index.tsx"),
+	];
+
+	return candidates.find((candidate) => fs.existsSync(candidate));
+}
+
+/**
+ * Compile TypeScript to CommonJS without type checking
+ */
+function transpile(code: string, fileName: string): string {
+	return ts.transpileModule(code, {
+		compilerOptions: RUN_COMPILER_OPTIONS,
+		fileName,
+	}).outputText;
+}
+
+/**
+ * Whether a value matches the expected value of a `// =>` comment, as
+ * printed by Node or as JSON, ignoring whitespace and quote style
+ */
+function matchesExpected(actual: unknown, expected: string): boolean {
+	const normalize = (text: string) =>
+		text.replace(/\s+/g, "").replace(/'/g, '"');
+	const candidates = [formatValue(actual), String(actual)];
+
+	try {
+		const json = JSON.stringify(actual);
+		if (json !== undefined) {
+			candidates.push(json);
+		}
+	} catch {
+		// Circular values are only compared as printed by Node
+	}
+
+	return candidates.some(
+		(candidate) => normalize(candidate) === normalize(expected),
+	);
+}
+
+/**
+ * Print a value as Node would, on one line
+ */
+function formatValue(value: unknown): string {
+	return inspect(value, { depth: null, breakLength: Number.POSITIVE_INFINITY });
+}
@@ -0,0 +1,225 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { type Result, err, ok } from "neverthrow";
+import { ts } from "ts-morph";
+
+import type { DocItem } from "../parser/traversal";
+
+// We need to use require here because of how package.json is loaded
+const { version } = require("../../package.json");
+
+// Bumped when the format of cache entries changes
+const CACHE_FORMAT_VERSION = 2;
+
+// Directory of the cache entries inside the cache directory
+const ITEMS_DIRECTORY = "items";
+
+/**
+ * Error types that can occur while writing the cache
+ */
+export type CacheError = {
+	type: "cache_error";
+	path: string;
+	details: string;
+};
+
+/**
+ * Cache of the doc items extracted from source files
+ *
+ * Entries are keyed by a hash of the source file and every local file it
+ * imports, directly or not, so that a file is extracted again when a type
+ * it uses changes. Each entry is stored as a JSON file named after its key.
+ */
+export class ExtractionCache {
+	private cacheDir: string;
+	private mode: string;
+	private usedKeys = new Set<string>();
+
+	/**
+	 * @param cacheDir - Directory the cache entries are stored in
+	 * @param mode - How items were extracted, e.g. `exported`, since items
+	 * extracted in other ways cannot be reused
+	 */
+	constructor(cacheDir: string, mode: string) {
+		this.cacheDir = cacheDir;
+		this.mode = mode;
+	}
+
+	/**
+	 * Get the cache key of a source file from the hash of its contents and
+	 * dependencies
+	 */
+	public getKey(filePath: string, dependencyHash: string): string {
+		return hash(
+			JSON.stringify([
+				CACHE_FORMAT_VERSION,
+				version,
+				this.mode,
+				filePath,
+				dependencyHash,
+			]),
+		);
+	}
+
+	/**
+	 * Read the items cached under a key; entries that are missing or cannot
+	 * be read are treated as cache misses
+	 */
+	public async get(key: string): Promise<DocItem[] | undefined> {
+		try {
+			const content = await fs.promises.readFile(
+				this.getEntryPath(key),
+				"utf8",
+			);
+			const items = JSON.parse(content);
+			if (!Array.isArray(items)) {
+				return undefined;
+			}
+
+			this.usedKeys.add(key);
+			return items;
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Cache the items extracted from a source file
+	 */
+	public async set(
+		key: string,
+		items: DocItem[],
+	): Promise<Result<void, CacheError>> {
+		const entryPath = this.getEntryPath(key);
+
+		try {
+			await fs.promises.mkdir(path.dirname(entryPath), { recursive: true });
+			await fs.promises.writeFile(entryPath, JSON.stringify(items), "utf8");
+			this.usedKeys.add(key);
+			return ok(undefined);
+		} catch (error) {
+			return err({
+				type: "cache_error",
+				path: entryPath,
+				details: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	/**
+	 * Remove the entries that were not read or written since the cache was
+	 * created, such as those of deleted or changed files
+	 */
+	public async prune(): Promise<Result<void, CacheError>> {
+		const itemsDir = path.join(this.cacheDir, ITEMS_DIRECTORY);
+
+		try {
+			const entries = await fs.promises
+				.readdir(itemsDir)
+				.catch((): string[] => []);
+
+			for (const entry of entries) {
+				if (!this.usedKeys.has(path.basename(entry, ".json"))) {
+					await fs.promises.rm(path.join(itemsDir, entry), { force: true });
+				}
+			}
+
+			return ok(undefined);
+		} catch (error) {
+			return err({
+				type: "cache_error",
+				path: itemsDir,
+				details: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	/**
+	 * Get the path of the file a cache entry is stored in
+	 */
+	private getEntryPath(key: string): string {
+		return path.join(this.cacheDir, ITEMS_DIRECTORY, `${key}.json`);
+	}
+}
+
+/**
+ * Hash each source file together with the local files it imports, directly
+ * or not, without parsing them
+ *
+ * Imports are found with the TypeScript preprocessor and resolved like the
+ * parser resolves them; imports of packages are not followed.
+ */
+export function getDependencyHashes(filePaths: string[]): Map<string, string> {
+	const compilerOptions: ts.CompilerOptions = {
+		moduleResolution: ts.ModuleResolutionKind.Node10,
+	};
+	const resolutionCache = ts.createModuleResolutionCache(
+		process.cwd(),
+		(fileName) => fileName,
+		compilerOptions,
+	);
+	const contentHashes = new Map<string, string>();
+	const imports = new Map<string, string[]>();
+
+	// Hash a file and find the local files it imports, once per file
+	const visit = (filePath: string): string[] => {
+		const cached = imports.get(filePath);
+		if (cached) {
+			return cached;
+		}
+
+		const content = ts.sys.readFile(filePath) ?? "";
+		contentHashes.set(filePath, hash(content));
+
+		const dependencies: string[] = [];
+		imports.set(filePath, dependencies);
+
+		for (const { fileName } of ts.preProcessFile(content, true, true)
+			.importedFiles) {
+			const { resolvedModule } = ts.resolveModuleName(
+				fileName,
+				filePath,
+				compilerOptions,
+				ts.sys,
+				resolutionCache,
+			);
+			if (resolvedModule && !resolvedModule.isExternalLibraryImport) {
+				dependencies.push(path.resolve(resolvedModule.resolvedFileName));
+			}
+		}
+
+		return dependencies;
+	};
+
+	const dependencyHashes = new Map<string, string>();
+
+	for (const filePath of filePaths) {
+		// Collect every file reachable from the source file
+		const reachable = new Set([path.resolve(filePath)]);
+		for (const current of reachable) {
+			for (const dependency of visit(current)) {
+				reachable.add(dependency);
+			}
+		}
+
+		dependencyHashes.set(
+			filePath,
+			hash(
+				[...reachable]
+					.sort()
+					.map((current) => `${current}:${contentHashes.get(current)}`)
+					.join("\n"),
+			),
+		);
+	}
+
+	return dependencyHashes;
+}
+
+/**
+ * Hash text with SHA-256
+ */
+function hash(text: string): string {
+	return createHash("sha256").update(text).digest("hex");
+}
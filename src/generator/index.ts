@@ -1,22 +1,100 @@
+import fs from "node:fs";
 import path from "node:path";
 import { type Result, err, ok } from "neverthrow";
 import type { SourceFile } from "ts-morph";
 
 import type { HermesConfig } from "../config";
-import { formatMarkdown, generateFilePath, writeFile } from "../markdown";
+import {
+	SEARCH_INDEX_NAME,
+	SEARCH_SCRIPT,
+	SEARCH_SCRIPT_NAME,
+	getSearchEntries,
+	highlightCode,
+	markdownToHtml,
+	renderHtmlPage,
+} from "../html";
+import { JSON_OUTPUT_NAME, serializeDocumentation } from "../json";
+import {
+	buildSymbolTable,
+	formatMarkdown,
+	formatSymbolPage,
+	generateFilePath,
+	resolveItemLinks,
+	writeFile,
+} from "../markdown";
+import {
+	filterItemsByVisibility,
+	formatTableOfContents,
+	getKindHeading,
+	getTableOfContents,
+	sortItems,
+} from "../markdown/formatters";
 import { type ParserError, TypeScriptParser } from "../parser";
+import { resolveEntryPoints } from "../parser/entry-points";
 import type { MarkdownOptions } from "../parser/models";
 import {
 	type DocItem,
+	type DocItemKind,
+	extractExportedDocumentation,
 	extractDocumentation as extractFromSourceFile,
 } from "../parser/traversal";
+import {
+	type SiteContext,
+	type SiteFile,
+	getSiteNavigation,
+	getSitePages,
+	getSiteTarget,
+	updateSiteFile,
+} from "../targets";
+import { type CacheError, ExtractionCache, getDependencyHashes } from "./cache";
+import {
+	INDEX_NAME,
+	getKindDirectory,
+	getRootDirectory,
+	groupItemsByOutputName,
+	groupItemsBySymbol,
+} from "./layout";
 
 /**
  * Error types that can occur during document generation
  */
 export type GeneratorError =
 	| { type: "parser_error"; details: ParserError }
-	| { type: "output_error"; path: string; details: string };
+	| { type: "output_error"; path: string; details: string }
+	| CacheError;
+
+/**
+ * Problems that do not stop documentation from being generated
+ */
+export type GeneratorWarning =
+	| {
+			type: "unresolved_link";
+			target: string;
+			location: DocItem["location"];
+	  }
+	| { type: "edited_site_file"; path: string };
+
+/**
+ * Counts of the work done by a generation run
+ */
+export interface GenerationSummary {
+	/**
+	 * Source files whose doc items were read from the cache
+	 */
+	reused: number;
+	/**
+	 * Source files whose doc items were extracted
+	 */
+	extracted: number;
+	/**
+	 * Output files written because their content changed
+	 */
+	regenerated: number;
+	/**
+	 * Output files left as they were because their content did not change
+	 */
+	untouched: number;
+}
 
 /**
  * Options for the documentation generator
@@ -24,6 +102,31 @@ export type GeneratorError =
 export interface GeneratorOptions {
 	outputDir: string;
 	markdownOptions: MarkdownOptions;
+	onWarning: (warning: GeneratorWarning) => void;
+	onSummary: (summary: GenerationSummary) => void;
+	/**
+	 * Source files whose doc items changed; when set, only the pages
+	 * documenting them and the index pages are rendered
+	 */
+	changedSourceFiles: Set<string>;
+}
+
+/**
+ * Doc items extracted by a generation run, with the number of source files
+ * they were read from the cache for
+ */
+interface ExtractedItems {
+	items: DocItem[];
+	reused: number;
+	extracted: number;
+}
+
+/**
+ * An output file and whether its content changed
+ */
+interface OutputFile {
+	filePath: string;
+	changed: boolean;
 }
 
 /**
@@ -33,20 +136,71 @@ export class DocumentationGenerator {
 	private parser: TypeScriptParser;
 	private config: HermesConfig;
 
-	constructor(config: HermesConfig) {
+	/**
+	 * @param config - Hermes configuration
+	 * @param parser - Parser to add the source files to, such as one that
+	 * already holds them
+	 */
+	constructor(config: HermesConfig, parser = new TypeScriptParser()) {
 		this.config = config;
-		this.parser = new TypeScriptParser();
+		this.parser = parser;
 	}
 
 	/**
 	 * Generate documentation for TypeScript files matching the patterns
+	 *
+	 * With a `cacheDir` configured, source files that did not change since
+	 * the last run are not parsed again. Output files are only written when
+	 * their content changed; all of them are returned.
 	 */
 	public async generate(
 		patterns: string[],
 		options: Partial<GeneratorOptions> = {},
 	): Promise<Result<string[], GeneratorError>> {
-		// Add source files to the parser
-		const filesResult = await this.parser.addSourceFiles(patterns);
+		const itemsResult = this.config.cacheDir
+			? await this.extractIncremental(patterns, this.config.cacheDir)
+			: (await this.extract(patterns)).map((items) => ({
+					items,
+					reused: 0,
+					extracted: 0,
+				}));
+		if (itemsResult.isErr()) {
+			return err(itemsResult.error);
+		}
+
+		const { items: allDocItems, reused, extracted } = itemsResult.value;
+		const renderOptions = {
+			...options,
+			onSummary: (summary: GenerationSummary) =>
+				options.onSummary?.({ ...summary, reused, extracted }),
+		};
+
+		return this.render(allDocItems, renderOptions);
+	}
+
+	/**
+	 * Extract doc items from TypeScript files matching the patterns, or from
+	 * the public API of the configured entry points
+	 *
+	 * With `exportedOnly`, only the symbols each matched file exports are
+	 * extracted, as when every file were an entry point. Entry points are
+	 * resolved relative to `cwd`.
+	 */
+	public async extract(
+		patterns: string[],
+		{
+			exportedOnly = false,
+			cwd = process.cwd(),
+		}: { exportedOnly?: boolean; cwd?: string } = {},
+	): Promise<Result<DocItem[], GeneratorError>> {
+		const entryPoints = this.config.entryPoints ?? [];
+		const isPublicApiMode = entryPoints.length > 0;
+
+		// Add source files to the parser, starting from the entry points if
+		// configured so that only the public API surface is documented
+		const filesResult = isPublicApiMode
+			? this.parser.addEntryPoints(entryPoints, cwd)
+			: await this.parser.addSourceFiles(patterns);
 
 		if (filesResult.isErr()) {
 			return err({
@@ -60,73 +214,517 @@ export class DocumentationGenerator {
 		// Extract documentation from all source files
 		const allDocItems: DocItem[] = [];
 
-		for (const sourceFile of sourceFiles) {
-			const docs = extractDocumentation(sourceFile);
-			allDocItems.push(...docs);
+		if (isPublicApiMode || exportedOnly) {
+			allDocItems.push(...extractPublicApi(sourceFiles));
+		} else {
+			for (const sourceFile of sourceFiles) {
+				const docs = extractDocumentation(sourceFile);
+				allDocItems.push(...docs);
+			}
 		}
 
-		// Generate markdown for each source file
+		return ok(allDocItems);
+	}
+
+	/**
+	 * Extract doc items like `extract`, reading the items of source files
+	 * whose contents and local imports did not change from the cache
+	 */
+	private async extractIncremental(
+		patterns: string[],
+		cacheDir: string,
+	): Promise<Result<ExtractedItems, GeneratorError>> {
+		const entryPoints = this.config.entryPoints ?? [];
+		const isPublicApiMode = entryPoints.length > 0;
+
+		const pathsResult = isPublicApiMode
+			? resolveEntryPoints(entryPoints, process.cwd())
+			: this.parser.findSourceFiles(patterns);
+
+		if (pathsResult.isErr()) {
+			return err({ type: "parser_error", details: pathsResult.error });
+		}
+
+		const filePaths = pathsResult.value;
+		const cache = new ExtractionCache(
+			cacheDir,
+			isPublicApiMode ? "exported" : "all",
+		);
+		const dependencyHashes = getDependencyHashes(filePaths);
+		const fileItems = new Map<string, DocItem[]>();
+		const changedFiles: { filePath: string; key: string }[] = [];
+
+		for (const filePath of filePaths) {
+			const key = cache.getKey(filePath, dependencyHashes.get(filePath) ?? "");
+			const items = await cache.get(key);
+
+			if (items) {
+				fileItems.set(filePath, items);
+			} else {
+				changedFiles.push({ filePath, key });
+			}
+		}
+
+		// Only the changed files are parsed
+		const filesResult = this.parser.addSourceFilePaths(
+			changedFiles.map(({ filePath }) => filePath),
+			isPublicApiMode,
+		);
+
+		if (filesResult.isErr()) {
+			return err({ type: "parser_error", details: filesResult.error });
+		}
+
+		for (const [index, sourceFile] of filesResult.value.entries()) {
+			const { filePath, key } = changedFiles[index];
+			const items = isPublicApiMode
+				? extractExportedDocumentation(sourceFile)
+				: extractDocumentation(sourceFile);
+
+			const setResult = await cache.set(key, items);
+			if (setResult.isErr()) {
+				return err(setResult.error);
+			}
+
+			fileItems.set(filePath, items);
+		}
+
+		const pruneResult = await cache.prune();
+		if (pruneResult.isErr()) {
+			return err(pruneResult.error);
+		}
+
+		const items = filePaths.flatMap(
+			(filePath) => fileItems.get(filePath) ?? [],
+		);
+
+		return ok({
+			items: isPublicApiMode ? uniqueItems(items) : items,
+			reused: filePaths.length - changedFiles.length,
+			extracted: changedFiles.length,
+		});
+	}
+
+	/**
+	 * Render the doc items in the configured output format
+	 */
+	public async render(
+		allDocItems: DocItem[],
+		options: Partial<GeneratorOptions> = {},
+	): Promise<Result<string[], GeneratorError>> {
+		switch (this.config.format) {
+			case "json":
+				return this.renderJson(allDocItems, options);
+			case "html":
+				return this.renderHtml(allDocItems, options);
+			default:
+				return this.renderMarkdown(allDocItems, options);
+		}
+	}
+
+	/**
+	 * Render Markdown documentation for doc items, such as those extracted
+	 * from source files or loaded from a JSON export
+	 */
+	public async renderMarkdown(
+		allDocItems: DocItem[],
+		options: Partial<GeneratorOptions> = {},
+	): Promise<Result<string[], GeneratorError>> {
 		const outputDir = options.outputDir || this.config.outDir;
-		const markdownOptions: MarkdownOptions = {
+		const { outputGroups, pages } = this.formatPages(allDocItems, options);
+		const outputFiles: OutputFile[] = [];
+
+		// The site generator the docs are built with may adapt the pages
+		const target = this.config.target && getSiteTarget(this.config.target);
+		const siteContext =
+			target && this.getSiteContext(allDocItems, outputGroups, options);
+		const sitePages = siteContext
+			? getSitePages(getSiteNavigation(siteContext))
+			: new Map();
+
+		for (const [outputPath, markdown] of pages) {
+			const sitePage = sitePages.get(getRelativeHref(outputDir, outputPath));
+			const content =
+				target?.formatPage && siteContext && sitePage
+					? target.formatPage(markdown, sitePage, siteContext)
+					: markdown;
+
+			const writeResult = await this.writeOutput(outputPath, content);
+			if (writeResult.isErr()) {
+				return err(writeResult.error);
+			}
+
+			outputFiles.push(writeResult.value);
+		}
+
+		// Write the configuration of the site generator
+		if (target && siteContext) {
+			const siteResult = await this.writeSiteFiles(
+				target.getFiles(siteContext),
+				options,
+			);
+			if (siteResult.isErr()) {
+				return err(siteResult.error);
+			}
+
+			outputFiles.push(...siteResult.value);
+		}
+
+		return ok(reportOutputFiles(outputFiles, options));
+	}
+
+	/**
+	 * Render a static HTML site for doc items, with a sidebar listing every
+	 * item and a search index that the pages query without a server
+	 */
+	public async renderHtml(
+		allDocItems: DocItem[],
+		options: Partial<GeneratorOptions> = {},
+	): Promise<Result<string[], GeneratorError>> {
+		const outputDir = options.outputDir || this.config.outDir;
+		const { outputGroups, pages } = this.formatPages(allDocItems, options);
+
+		// Links in the sidebar and the search index are relative to the root
+		const pageHrefs = new Map<string, DocItem[]>();
+		const itemHrefs = new Map<DocItem, string>();
+		for (const [outputPath, items] of outputGroups) {
+			const pageHref = encodeURI(getRelativeHref(outputDir, outputPath));
+			pageHrefs.set(pageHref, items);
+			for (const item of items) {
+				itemHrefs.set(item, pageHref);
+			}
+		}
+
+		const { tocDepth } = {
 			...this.config.markdownOptions,
 			...options.markdownOptions,
 		};
+		const sidebar = getTableOfContents(
+			sortItems([...itemHrefs.keys()]),
+			tocDepth,
+			(item) => itemHrefs.get(item) ?? "",
+		);
+
+		const files = new Map<string, string>();
 
-		// Group doc items by file for separate output files
-		const fileGroups = new Map<string, DocItem[]>();
+		for (const [outputPath, markdown] of pages) {
+			const pagePath = getRelativeHref(outputDir, outputPath);
+			const rootHref = "../".repeat(pagePath.split("/").length - 1);
+			const title = pagePath.replace(/\.html$/, "");
+
+			files.set(
+				outputPath,
+				renderHtmlPage({
+					title: title === INDEX_NAME ? this.config.title : title,
+					siteTitle: this.config.title,
+					homeHref: `${rootHref}${INDEX_NAME}.html`,
+					content: markdownToHtml(markdown, { highlight: highlightCode }),
+					sidebar,
+					rootHref,
+					search: {
+						indexHref: `${rootHref}${SEARCH_INDEX_NAME}`,
+						scriptHref: `${rootHref}${SEARCH_SCRIPT_NAME}`,
+					},
+				}),
+			);
+		}
 
-		for (const item of allDocItems) {
-			const filePath = item.location.filePath;
-			const fileName = path.basename(filePath, path.extname(filePath));
+		files.set(
+			path.join(outputDir, SEARCH_INDEX_NAME),
+			`${JSON.stringify(getSearchEntries(pageHrefs))}\n`,
+		);
+		files.set(path.join(outputDir, SEARCH_SCRIPT_NAME), SEARCH_SCRIPT);
 
-			if (!fileGroups.has(fileName)) {
-				fileGroups.set(fileName, []);
+		const outputFiles: OutputFile[] = [];
+
+		for (const [outputPath, content] of files) {
+			const writeResult = await this.writeOutput(outputPath, content);
+			if (writeResult.isErr()) {
+				return err(writeResult.error);
 			}
 
-			fileGroups.get(fileName)?.push(item);
+			outputFiles.push(writeResult.value);
 		}
 
-		// Generate output files
-		const writtenFiles: string[] = [];
+		return ok(reportOutputFiles(outputFiles, options));
+	}
+
+	/**
+	 * Write the doc items to a single JSON file
+	 */
+	public async renderJson(
+		items: DocItem[],
+		options: Partial<GeneratorOptions> = {},
+	): Promise<Result<string[], GeneratorError>> {
+		const outputPath = path.join(
+			options.outputDir || this.config.outDir,
+			JSON_OUTPUT_NAME,
+		);
+		const documentation = serializeDocumentation(items, {
+			title: this.config.title,
+			description: this.config.description,
+			rootDir: getRootDirectory(items, this.config),
+			outputPath: path.resolve(outputPath),
+		});
+
+		const writeResult = await this.writeOutput(
+			outputPath,
+			`${JSON.stringify(documentation, null, 2)}\n`,
+		);
+
+		return writeResult.map((outputFile) =>
+			reportOutputFiles([outputFile], options),
+		);
+	}
+
+	/**
+	 * Group doc items by the path of the Markdown file that documents them,
+	 * without writing anything
+	 */
+	public getOutputFiles(
+		allDocItems: DocItem[],
+		options: Partial<
+			Pick<GeneratorOptions, "outputDir" | "markdownOptions">
+		> = {},
+	): Map<string, DocItem[]> {
+		return this.getOutputGroups(
+			this.groupItems(allDocItems),
+			options.outputDir || this.config.outDir,
+			{ ...this.config.markdownOptions, ...options.markdownOptions },
+		);
+	}
+
+	/**
+	 * Group doc items by output file, or give each its own page
+	 */
+	private groupItems(allDocItems: DocItem[]): Map<string, DocItem[]> {
+		return this.config.layout === "symbol"
+			? groupItemsBySymbol(allDocItems)
+			: groupItemsByOutputName(allDocItems, this.config);
+	}
+
+	/**
+	 * Key the file groups by output path, leaving out members hidden by
+	 * visibility so that nothing links to them
+	 */
+	private getOutputGroups(
+		fileGroups: Map<string, DocItem[]>,
+		outputDir: string,
+		markdownOptions: MarkdownOptions,
+	): Map<string, DocItem[]> {
+		const outputGroups = new Map<string, DocItem[]>();
 
 		for (const [fileName, items] of fileGroups.entries()) {
-			const markdown = formatMarkdown(items, markdownOptions);
-			const outputPath = generateFilePath(outputDir, fileName);
+			outputGroups.set(
+				generateFilePath(outputDir, fileName, this.getPageExtension()),
+				filterItemsByVisibility(items, markdownOptions.visibility),
+			);
+		}
+
+		return outputGroups;
+	}
 
-			const writeResult = await writeFile(outputPath, markdown, {
-				overwrite: true,
+	/**
+	 * Format the Markdown of every output file and index page, keyed by
+	 * output path, along with the doc items of each output file
+	 */
+	private formatPages(
+		allDocItems: DocItem[],
+		options: Partial<GeneratorOptions>,
+	): { outputGroups: Map<string, DocItem[]>; pages: Map<string, string> } {
+		const outputDir = options.outputDir || this.config.outDir;
+		const markdownOptions: MarkdownOptions = {
+			...this.config.markdownOptions,
+			...options.markdownOptions,
+		};
+
+		const isSymbolLayout = this.config.layout === "symbol";
+		const fileGroups = this.groupItems(allDocItems);
+		const outputGroups = this.getOutputGroups(
+			fileGroups,
+			outputDir,
+			markdownOptions,
+		);
+
+		// Resolve {@link} and @see references across all output files
+		const symbols = markdownOptions.linkReferences
+			? buildSymbolTable(outputGroups)
+			: undefined;
+
+		const pages = new Map<string, string>();
+
+		for (const [outputPath, items] of outputGroups.entries()) {
+			const { changedSourceFiles } = options;
+			if (
+				changedSourceFiles &&
+				!items.some((item) => changedSourceFiles.has(item.location.filePath))
+			) {
+				continue;
+			}
+
+			const linkedItems = resolveItemLinks(items, {
+				symbols,
+				outputPath,
+				onUnresolved: (link) =>
+					options.onWarning?.({ type: "unresolved_link", ...link }),
 			});
+			const pageOptions = { ...markdownOptions, outputPath };
+			pages.set(
+				outputPath,
+				isSymbolLayout
+					? formatSymbolPage(linkedItems[0], pageOptions)
+					: formatMarkdown(linkedItems, pageOptions),
+			);
+		}
+
+		// Generate an index page for each kind of item
+		const indexFiles = new Map<string, string>();
+
+		if (isSymbolLayout) {
+			for (const [kind, kindPages] of groupPagesByKind(fileGroups)) {
+				indexFiles.set(
+					getKindDirectory(kind),
+					this.generateKindIndex(kind, kindPages),
+				);
+			}
+		}
+
+		// Generate an index file
+		indexFiles.set(
+			INDEX_NAME,
+			isSymbolLayout
+				? this.generateSymbolIndex(fileGroups, markdownOptions)
+				: this.generateIndexItems(fileGroups),
+		);
 
+		for (const [fileName, markdown] of indexFiles) {
+			pages.set(
+				generateFilePath(outputDir, fileName, this.getPageExtension()),
+				markdown,
+			);
+		}
+
+		return { outputGroups, pages };
+	}
+
+	/**
+	 * Get the modules and pages of the documented items for a site target
+	 */
+	private getSiteContext(
+		allDocItems: DocItem[],
+		outputGroups: Map<string, DocItem[]>,
+		options: Partial<GeneratorOptions>,
+	): SiteContext {
+		const outputDir = options.outputDir || this.config.outDir;
+
+		// Modules are named like the files of the flat or tree layout, even
+		// when each item has its own page
+		const moduleNames = new Map<string, string>();
+		for (const [moduleName, items] of groupItemsByOutputName(allDocItems, {
+			...this.config,
+			layout: this.config.layout === "tree" ? "tree" : "flat",
+		})) {
+			for (const item of items) {
+				moduleNames.set(item.location.filePath, moduleName);
+			}
+		}
+
+		const modules = new Map<string, DocItem[]>();
+		const pagePaths = new Map<DocItem, string>();
+
+		for (const [outputPath, items] of outputGroups) {
+			for (const item of items) {
+				const moduleName = moduleNames.get(item.location.filePath) ?? "";
+				if (!modules.has(moduleName)) {
+					modules.set(moduleName, []);
+				}
+				modules.get(moduleName)?.push(item);
+				pagePaths.set(item, getRelativeHref(outputDir, outputPath));
+			}
+		}
+
+		return {
+			config: this.config,
+			outputDir: path.resolve(outputDir),
+			siteRoot: path.resolve(this.config.siteRoot ?? outputDir),
+			modules,
+			pagePaths,
+		};
+	}
+
+	/**
+	 * Write the files of a site target, leaving scaffolded files and edited
+	 * generated files as they are, and updating generated sections in place
+	 */
+	private async writeSiteFiles(
+		siteFiles: SiteFile[],
+		options: Partial<GeneratorOptions>,
+	): Promise<Result<OutputFile[], GeneratorError>> {
+		const outputDir = options.outputDir || this.config.outDir;
+		const outputFiles: OutputFile[] = [];
+
+		for (const siteFile of siteFiles) {
+			const outputPath = path.join(outputDir, siteFile.fileName);
+			const previousContent = await fs.promises
+				.readFile(outputPath, "utf8")
+				.catch(() => undefined);
+
+			const { content, edited } = updateSiteFile(siteFile, previousContent);
+			if (edited) {
+				options.onWarning?.({ type: "edited_site_file", path: outputPath });
+			}
+			if (content === undefined) {
+				outputFiles.push({ filePath: outputPath, changed: false });
+				continue;
+			}
+
+			const writeResult = await this.writeOutput(outputPath, content);
 			if (writeResult.isErr()) {
-				return err({
-					type: "output_error",
-					path: outputPath,
-					details: JSON.stringify(writeResult.error),
-				});
+				return err(writeResult.error);
 			}
 
-			writtenFiles.push(writeResult.value);
+			outputFiles.push(writeResult.value);
 		}
 
-		// Generate an index file
-		const indexItems = this.generateIndexItems(fileGroups);
-		const indexPath = generateFilePath(outputDir, "index");
+		return ok(outputFiles);
+	}
+
+	/**
+	 * Get the extension of the pages, which links between pages end with
+	 */
+	private getPageExtension(): string {
+		return this.config.format === "html" ? ".html" : ".md";
+	}
+
+	/**
+	 * Write an output file, overwriting any previous version unless it has
+	 * the same content
+	 */
+	private async writeOutput(
+		outputPath: string,
+		content: string,
+	): Promise<Result<OutputFile, GeneratorError>> {
+		// Leaving unchanged files alone keeps their modification times
+		const previousContent = await fs.promises
+			.readFile(outputPath, "utf8")
+			.catch(() => undefined);
+		if (previousContent === content) {
+			return ok({ filePath: outputPath, changed: false });
+		}
 
-		const indexResult = await writeFile(indexPath, indexItems, {
+		const writeResult = await writeFile(outputPath, content, {
 			overwrite: true,
 		});
 
-		if (indexResult.isErr()) {
+		if (writeResult.isErr()) {
 			return err({
 				type: "output_error",
-				path: indexPath,
-				details: JSON.stringify(indexResult.error),
+				path: outputPath,
+				details: JSON.stringify(writeResult.error),
 			});
 		}
 
-		writtenFiles.push(indexResult.value);
-
-		return ok(writtenFiles);
+		return ok({ filePath: writeResult.value, changed: true });
 	}
 
 	/**
@@ -142,16 +740,147 @@ export class DocumentationGenerator {
 		markdown += "## Documentation Files\n\n";
 
 		for (const [fileName, items] of fileGroups.entries()) {
-			markdown += `- [${fileName}](${fileName}.md) (${items.length} items)\n`;
+			markdown += `- [${fileName}](${encodeURI(fileName)}${this.getPageExtension()}) (${items.length} items)\n`;
+		}
+
+		return markdown;
+	}
+
+	/**
+	 * Generate the index of the symbol layout, linking to the kind index
+	 * pages and to every symbol page through the table of contents
+	 */
+	private generateSymbolIndex(
+		fileGroups: Map<string, DocItem[]>,
+		markdownOptions: MarkdownOptions,
+	): string {
+		let markdown = `# ${this.config.title}\n\n`;
+
+		if (this.config.description) {
+			markdown += `${this.config.description}\n\n`;
+		}
+
+		markdown += "## Contents\n\n";
+
+		for (const [kind, pages] of groupPagesByKind(fileGroups)) {
+			markdown += `- [${getKindHeading(kind)}](${getKindDirectory(kind)}${this.getPageExtension()}) (${pages.length} items)\n`;
+		}
+
+		// Pages hold a single item each, filtered as when they were written
+		const pagePaths = new Map<DocItem, string>();
+		for (const [fileName, items] of fileGroups) {
+			const [item] = filterItemsByVisibility(items, markdownOptions.visibility);
+			pagePaths.set(item, `${encodeURI(fileName)}${this.getPageExtension()}`);
+		}
+
+		markdown += `\n${formatTableOfContents(
+			sortItems([...pagePaths.keys()]),
+			markdownOptions.tocDepth,
+			(item) => pagePaths.get(item) ?? "",
+		)}`;
+
+		return markdown;
+	}
+
+	/**
+	 * Generate the index page listing the items of one kind
+	 */
+	private generateKindIndex(
+		kind: DocItemKind,
+		pages: [string, DocItem][],
+	): string {
+		let markdown = `# ${getKindHeading(kind)}\n\n`;
+
+		for (const [fileName, item] of pages) {
+			// Only the first line of the description is used as a summary
+			const summary = item.description?.split("\n")[0];
+			markdown += `- [${item.name}](${encodeURI(fileName)}${this.getPageExtension()})`;
+			markdown += summary ? ` - ${summary}\n` : "\n";
 		}
 
 		return markdown;
 	}
 }
 
+/**
+ * Get the link to an output file from the root of the output directory
+ */
+function getRelativeHref(outputDir: string, outputPath: string): string {
+	return path.relative(outputDir, outputPath).split(path.sep).join("/");
+}
+
+/**
+ * Report how many output files were written and return all their paths
+ */
+function reportOutputFiles(
+	outputFiles: OutputFile[],
+	options: Partial<GeneratorOptions>,
+): string[] {
+	const regenerated = outputFiles.filter(({ changed }) => changed).length;
+
+	options.onSummary?.({
+		reused: 0,
+		extracted: 0,
+		regenerated,
+		untouched: outputFiles.length - regenerated,
+	});
+
+	return outputFiles.map(({ filePath }) => filePath);
+}
+
+/**
+ * Group the pages of the symbol layout by the kind of their item, in the
+ * order items are rendered in
+ */
+function groupPagesByKind(
+	fileGroups: Map<string, DocItem[]>,
+): Map<DocItemKind, [string, DocItem][]> {
+	const fileNames = new Map<DocItem, string>();
+	for (const [fileName, [item]] of fileGroups) {
+		fileNames.set(item, fileName);
+	}
+
+	const kindGroups = new Map<DocItemKind, [string, DocItem][]>();
+
+	for (const item of sortItems([...fileNames.keys()])) {
+		if (!kindGroups.has(item.kind)) {
+			kindGroups.set(item.kind, []);
+		}
+		kindGroups.get(item.kind)?.push([fileNames.get(item) ?? "", item]);
+	}
+
+	return kindGroups;
+}
+
 /**
  * Extract documentation from a source file
  */
 function extractDocumentation(sourceFile: SourceFile): DocItem[] {
 	return extractFromSourceFile(sourceFile);
 }
+
+/**
+ * Extract documentation for the symbols exported from the entry points,
+ * documenting symbols exported by several entry points only once
+ */
+function extractPublicApi(entryFiles: SourceFile[]): DocItem[] {
+	return uniqueItems(entryFiles.flatMap(extractExportedDocumentation));
+}
+
+/**
+ * Drop the items that document the same declaration under the same name as
+ * an earlier item
+ */
+function uniqueItems(items: DocItem[]): DocItem[] {
+	const seen = new Set<string>();
+
+	return items.filter((item) => {
+		const key = `${item.location.filePath}:${item.location.line}:${item.name}`;
+		if (seen.has(key)) {
+			return false;
+		}
+
+		seen.add(key);
+		return true;
+	});
+}
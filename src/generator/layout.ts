@@ -0,0 +1,122 @@
+import path from "node:path";
+
+import type { HermesConfig } from "../config";
+import { getKindHeading, getSlug } from "../markdown/formatters";
+import type { DocItem, DocItemKind } from "../parser/traversal";
+
+// Name of the generated index file, which documentation files must not use
+export const INDEX_NAME = "index";
+
+/**
+ * Group doc items by the name of the output file they are written to,
+ * relative to the output directory and without extension
+ *
+ * The flat layout names files after the source file name, merging files
+ * with the same name; the tree layout mirrors the source directories below
+ * the root directory. Files that would overwrite the generated index get a
+ * `-module` suffix.
+ */
+export function groupItemsByOutputName(
+	items: DocItem[],
+	config: HermesConfig,
+): Map<string, DocItem[]> {
+	const isTreeLayout = config.layout === "tree";
+	const rootDir = getRootDirectory(items, config);
+
+	const groups = new Map<string, DocItem[]>();
+
+	for (const item of items) {
+		const filePath = item.location.filePath;
+		const relativePath = path.relative(rootDir, filePath);
+
+		// Files outside the root cannot be mirrored and fall back to their name
+		const isMirrored =
+			isTreeLayout &&
+			!relativePath.startsWith("..") &&
+			!path.isAbsolute(relativePath);
+		let outputName = isMirrored
+			? relativePath
+					.slice(0, -path.extname(relativePath).length || undefined)
+					.split(path.sep)
+					.join("/")
+			: path.basename(filePath, path.extname(filePath));
+
+		if (outputName === INDEX_NAME) {
+			outputName = `${INDEX_NAME}-module`;
+		}
+
+		if (!groups.has(outputName)) {
+			groups.set(outputName, []);
+		}
+
+		groups.get(outputName)?.push(item);
+	}
+
+	return groups;
+}
+
+/**
+ * Get the root of the documented source tree: the configured root directory,
+ * or else the deepest directory containing all documented files
+ */
+export function getRootDirectory(
+	items: DocItem[],
+	config: HermesConfig,
+): string {
+	return config.rootDir
+		? path.resolve(config.rootDir)
+		: getCommonDirectory(items.map((item) => item.location.filePath));
+}
+
+/**
+ * Get the deepest directory containing all of the given files
+ */
+function getCommonDirectory(filePaths: string[]): string {
+	if (filePaths.length === 0) {
+		return process.cwd();
+	}
+
+	let common = path.dirname(path.resolve(filePaths[0]));
+
+	for (const filePath of filePaths) {
+		const resolved = path.resolve(filePath);
+		while (
+			common !== path.dirname(common) &&
+			!resolved.startsWith(`${common}${path.sep}`)
+		) {
+			common = path.dirname(common);
+		}
+	}
+
+	return common;
+}
+
+/**
+ * Get the directory the pages of a kind of item are written to in the
+ * symbol layout, e.g. `classes` or `type-aliases`
+ */
+export function getKindDirectory(kind: DocItemKind): string {
+	return getSlug(getKindHeading(kind));
+}
+
+/**
+ * Give each item its own output file in a directory for its kind,
+ * e.g. `classes/TypeScriptParser`
+ * Items of the same kind and name get a numeric suffix
+ */
+export function groupItemsBySymbol(items: DocItem[]): Map<string, DocItem[]> {
+	const groups = new Map<string, DocItem[]>();
+
+	for (const item of items) {
+		const baseName = `${getKindDirectory(item.kind)}/${item.name}`;
+		let outputName = baseName;
+
+		for (let suffix = 2; groups.has(outputName); suffix++) {
+			outputName = `${baseName}-${suffix}`;
+		}
+
+		groups.set(outputName, [item]);
+	}
+
+	return groups;
+}
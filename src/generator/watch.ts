@@ -0,0 +1,565 @@
+import fs from "node:fs";
+import path from "node:path";
+import { type Result, err, ok } from "neverthrow";
+import type { SourceFile } from "ts-morph";
+
+import type { HermesConfig } from "../config";
+import { buildSymbolTable } from "../markdown";
+import { TypeScriptParser } from "../parser";
+import { resolveEntryPoints } from "../parser/entry-points";
+import { type DocItem, extractDocumentation } from "../parser/traversal";
+import {
+	DocumentationGenerator,
+	type GenerationSummary,
+	type GeneratorError,
+	type GeneratorOptions,
+} from "./index";
+
+/**
+ * Problems reported while watching, in addition to generator errors
+ */
+export type WatchError =
+	| GeneratorError
+	| { type: "syntax_error"; filePath: string; line: number; message: string }
+	| { type: "extraction_error"; filePath: string; details: string }
+	| { type: "watch_error"; details: string };
+
+/**
+ * Documentation regenerated after source files changed
+ */
+export interface WatchUpdate {
+	changedFiles: string[];
+	summary: GenerationSummary;
+}
+
+/**
+ * Options for watching source files
+ */
+export interface WatchOptions
+	extends Partial<
+		Pick<
+			GeneratorOptions,
+			"outputDir" | "markdownOptions" | "onWarning" | "onSummary"
+		>
+	> {
+	/**
+	 * Called after the documentation was regenerated for changed files
+	 */
+	onUpdate?: (update: WatchUpdate) => void;
+	/**
+	 * Called for problems that do not stop the watcher
+	 */
+	onError?: (error: WatchError) => void;
+	/**
+	 * Time to wait for further changes before regenerating, in milliseconds
+	 */
+	debounce?: number;
+}
+
+// Time to wait for further changes when saving several files at once
+const DEFAULT_DEBOUNCE = 100;
+
+// Characters that start the glob part of a pattern
+const GLOB_CHARACTERS_REGEX = /[*?[\]{}]/;
+
+/**
+ * Regenerates documentation when source files change
+ *
+ * The parsed source files are kept between updates, so that only changed
+ * files and the files that import them are read and extracted again, and
+ * only the output files documenting them and the index pages are rendered.
+ * When the set of documented symbols changes, every output file is rendered
+ * so that links stay correct. A file with syntax errors keeps its previous
+ * documentation until it is fixed.
+ */
+export class DocumentationWatcher {
+	private config: HermesConfig;
+	private patterns: string[];
+	private options: WatchOptions;
+	private parser = new TypeScriptParser();
+	private generator: DocumentationGenerator;
+	private fileItems = new Map<string, DocItem[]>();
+	private publicApiItems?: DocItem[];
+	private outputFiles = new Map<string, DocItem[]>();
+	private symbols = "";
+	private watchers: fs.FSWatcher[] = [];
+	private watchedDirectories = new Set<string>();
+	private pendingPaths = new Set<string>();
+	private timer?: NodeJS.Timeout;
+	private updates: Promise<void> = Promise.resolve();
+
+	constructor(
+		config: HermesConfig,
+		patterns: string[],
+		options: WatchOptions = {},
+	) {
+		this.config = config;
+		this.patterns = patterns;
+		this.options = options;
+		this.generator = new DocumentationGenerator(config, this.parser);
+	}
+
+	/**
+	 * Generate the documentation and start watching the source files
+	 */
+	public async start(): Promise<Result<string[], GeneratorError>> {
+		const result = await this.update([]);
+		if (result.isErr()) {
+			return result;
+		}
+
+		for (const directory of this.getWatchedDirectories()) {
+			this.watchDirectory(directory, true);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Stop watching the source files
+	 */
+	public close(): void {
+		clearTimeout(this.timer);
+		for (const watcher of this.watchers) {
+			watcher.close();
+		}
+		this.watchers = [];
+		this.watchedDirectories.clear();
+	}
+
+	/**
+	 * Get the doc items of each Markdown file rendered by the last update
+	 */
+	public getOutputFiles(): Map<string, DocItem[]> {
+		return this.outputFiles;
+	}
+
+	/**
+	 * Regenerate the documentation after files changed, returning the output
+	 * files that were rendered
+	 *
+	 * Problems with single files are reported through `onError` and do not
+	 * fail the update.
+	 */
+	public async update(
+		changedPaths: string[],
+	): Promise<Result<string[], GeneratorError>> {
+		const isPublicApiMode = (this.config.entryPoints ?? []).length > 0;
+		const filesResult = isPublicApiMode
+			? resolveEntryPoints(this.config.entryPoints ?? [], process.cwd())
+			: this.parser.findSourceFiles(this.patterns);
+
+		if (filesResult.isErr()) {
+			return err({ type: "parser_error", details: filesResult.error });
+		}
+
+		const documentedFiles = filesResult.value.map((filePath) =>
+			path.resolve(filePath),
+		);
+		const documented = new Set(documentedFiles);
+
+		// Only files that are documented or imported by documented files matter
+		const changed = changedPaths
+			.map((filePath) => path.resolve(filePath))
+			.filter(
+				(filePath) =>
+					documented.has(filePath) ||
+					this.fileItems.has(filePath) ||
+					this.parser.getSourceFile(filePath).isOk(),
+			);
+		const removed = [...this.fileItems.keys()].filter(
+			(filePath) => !documented.has(filePath),
+		);
+		const added = isPublicApiMode
+			? []
+			: documentedFiles.filter((filePath) => !this.fileItems.has(filePath));
+
+		if (
+			changed.length === 0 &&
+			removed.length === 0 &&
+			added.length === 0 &&
+			(!isPublicApiMode || this.publicApiItems)
+		) {
+			return ok([]);
+		}
+
+		// Files importing a changed file are extracted again, since their
+		// inferred types and inherited members may have changed
+		const affected = new Set([...changed, ...removed, ...added]);
+		this.addImporters(affected);
+
+		for (const filePath of new Set([...changed, ...removed])) {
+			const refreshResult = this.parser.refreshSourceFile(filePath);
+			if (refreshResult.isErr()) {
+				this.options.onError?.({
+					type: "extraction_error",
+					filePath,
+					details: refreshResult.error.type,
+				});
+			}
+		}
+		this.addImporters(affected);
+
+		for (const filePath of removed) {
+			this.fileItems.delete(filePath);
+		}
+
+		let extracted = 0;
+
+		if (isPublicApiMode) {
+			// Exports may come from any file, so every entry point is extracted
+			if (this.hasValidSyntax(affected)) {
+				const itemsResult = await this.generator.extract(this.patterns);
+				if (itemsResult.isErr()) {
+					return err(itemsResult.error);
+				}
+
+				this.publicApiItems = itemsResult.value;
+				extracted = documentedFiles.length;
+			}
+		} else {
+			for (const filePath of documentedFiles) {
+				if (!affected.has(filePath) && this.fileItems.has(filePath)) {
+					continue;
+				}
+
+				const items = this.extractFile(filePath);
+				if (items) {
+					this.fileItems.set(filePath, items);
+					extracted++;
+				}
+			}
+		}
+
+		const items = isPublicApiMode
+			? (this.publicApiItems ?? [])
+			: documentedFiles.flatMap(
+					(filePath) => this.fileItems.get(filePath) ?? [],
+				);
+
+		return this.render(items, affected, extracted, changed);
+	}
+
+	/**
+	 * Render the output files documenting the affected files and the index
+	 * pages, and remove the output files of deleted source files
+	 */
+	private async render(
+		items: DocItem[],
+		affected: Set<string>,
+		extracted: number,
+		changed: string[],
+	): Promise<Result<string[], GeneratorError>> {
+		let summary: GenerationSummary | undefined;
+		const renderOptions = {
+			...this.options,
+			onSummary: (renderSummary: GenerationSummary) => {
+				summary = { ...renderSummary, extracted };
+				this.options.onSummary?.(summary);
+			},
+		};
+
+		if (this.config.format === "json") {
+			const result = await this.generator.renderJson(items, renderOptions);
+			this.reportUpdate(changed, summary);
+			return result;
+		}
+
+		// Links to other files only change when the documented symbols do
+		const outputFiles = this.generator.getOutputFiles(items, this.options);
+		const symbols = JSON.stringify([
+			...buildSymbolTable(outputFiles).names.entries(),
+		]);
+		const changedSourceFiles = symbols === this.symbols ? affected : undefined;
+		this.symbols = symbols;
+
+		const result = await this.generator.render(items, {
+			...renderOptions,
+			changedSourceFiles,
+		});
+		if (result.isErr()) {
+			return result;
+		}
+
+		for (const outputPath of this.outputFiles.keys()) {
+			if (!outputFiles.has(outputPath)) {
+				await fs.promises.rm(outputPath, { force: true });
+			}
+		}
+		this.outputFiles = outputFiles;
+
+		this.reportUpdate(changed, summary);
+		return result;
+	}
+
+	/**
+	 * Report an update caused by changed files
+	 */
+	private reportUpdate(changed: string[], summary?: GenerationSummary): void {
+		if (changed.length > 0 && summary) {
+			this.options.onUpdate?.({ changedFiles: changed, summary });
+		}
+	}
+
+	/**
+	 * Extract the doc items of a source file, reporting syntax and extraction
+	 * errors instead of failing
+	 */
+	private extractFile(filePath: string): DocItem[] | undefined {
+		const fileResult = this.parser.getSourceFile(filePath);
+		const sourceFile = fileResult.isOk()
+			? fileResult.value
+			: this.parser.refreshSourceFile(filePath).unwrapOr(undefined);
+
+		if (!sourceFile || !this.hasValidSyntax(new Set([filePath]))) {
+			return undefined;
+		}
+
+		try {
+			return extractDocumentation(sourceFile);
+		} catch (error) {
+			this.options.onError?.({
+				type: "extraction_error",
+				filePath,
+				details: error instanceof Error ? error.message : String(error),
+			});
+			return undefined;
+		}
+	}
+
+	/**
+	 * Check the syntax of source files, reporting the first error of each
+	 */
+	private hasValidSyntax(filePaths: Set<string>): boolean {
+		let isValid = true;
+
+		for (const filePath of filePaths) {
+			const fileResult = this.parser.getSourceFile(filePath);
+			if (fileResult.isErr()) {
+				continue;
+			}
+
+			const sourceFile = fileResult.value;
+			const [diagnostic] = sourceFile
+				.getProject()
+				.getProgram()
+				.getSyntacticDiagnostics(sourceFile);
+
+			if (diagnostic) {
+				isValid = false;
+				this.options.onError?.({
+					type: "syntax_error",
+					filePath,
+					line: diagnostic.getLineNumber() ?? 1,
+					message: diagnostic.getMessageText().toString(),
+				});
+			}
+		}
+
+		return isValid;
+	}
+
+	/**
+	 * Add the files that import the given files, directly or not
+	 */
+	private addImporters(filePaths: Set<string>): void {
+		const visit = (sourceFile: SourceFile) => {
+			for (const importer of sourceFile.getReferencingSourceFiles()) {
+				if (!filePaths.has(importer.getFilePath())) {
+					filePaths.add(importer.getFilePath());
+					visit(importer);
+				}
+			}
+		};
+
+		for (const filePath of [...filePaths]) {
+			const fileResult = this.parser.getSourceFile(filePath);
+			if (fileResult.isOk()) {
+				visit(fileResult.value);
+			}
+		}
+	}
+
+	/**
+	 * Queue a changed file, regenerating once no further changes arrive
+	 */
+	private schedule(filePath: string): void {
+		this.pendingPaths.add(filePath);
+		clearTimeout(this.timer);
+
+		this.timer = setTimeout(() => {
+			const changedPaths = [...this.pendingPaths];
+			this.pendingPaths.clear();
+
+			// Updates run one after another
+			this.updates = this.updates.then(async () => {
+				try {
+					const result = await this.update(changedPaths);
+					if (result.isErr()) {
+						this.options.onError?.(result.error);
+					}
+				} catch (error) {
+					this.options.onError?.({
+						type: "watch_error",
+						details: error instanceof Error ? error.message : String(error),
+					});
+				}
+			});
+		}, this.options.debounce ?? DEFAULT_DEBOUNCE);
+	}
+
+	/**
+	 * Watch a directory and the directories inside it
+	 *
+	 * Platforms without recursive watching, such as Linux before Node 20,
+	 * get one watcher per directory instead, and directories created later
+	 * are watched when they appear.
+	 */
+	private watchDirectory(directory: string, recursive: boolean): void {
+		if (this.watchedDirectories.has(directory)) {
+			return;
+		}
+
+		let watcher: fs.FSWatcher;
+		try {
+			watcher = fs.watch(directory, { recursive }, (_, fileName) => {
+				if (!fileName) {
+					return;
+				}
+
+				const filePath = path.join(directory, fileName.toString());
+				if (!recursive && isWatchableDirectory(filePath)) {
+					this.watchDirectory(filePath, false);
+				}
+				this.schedule(filePath);
+			});
+		} catch (error) {
+			if (
+				recursive &&
+				(error as NodeJS.ErrnoException).code ===
+					"ERR_FEATURE_UNAVAILABLE_ON_PLATFORM"
+			) {
+				this.watchDirectory(directory, false);
+			} else {
+				this.options.onError?.({
+					type: "watch_error",
+					details: error instanceof Error ? error.message : String(error),
+				});
+			}
+			return;
+		}
+
+		watcher.on("error", (error) =>
+			this.options.onError?.({ type: "watch_error", details: error.message }),
+		);
+		this.watchers.push(watcher);
+		this.watchedDirectories.add(directory);
+
+		if (!recursive) {
+			for (const subdirectory of getSubdirectories(directory)) {
+				this.watchDirectory(subdirectory, false);
+			}
+		}
+	}
+
+	/**
+	 * Get the directories to watch: the static part of the include patterns,
+	 * or the directories of the parsed files in public API mode
+	 */
+	private getWatchedDirectories(): string[] {
+		const directories =
+			(this.config.entryPoints ?? []).length > 0
+				? this.parser
+						.getSourceFiles()
+						.map((sourceFile) => sourceFile.getDirectoryPath())
+						.filter(
+							(directory) => !directory.split("/").includes("node_modules"),
+						)
+				: this.patterns
+						.filter((pattern) => !pattern.startsWith("!"))
+						.map(getPatternDirectory);
+
+		const existing = [...new Set(directories)]
+			.map((directory) => path.resolve(directory))
+			.filter((directory) => fs.existsSync(directory));
+
+		// Directories inside watched directories are already watched
+		return existing.filter(
+			(directory) =>
+				!existing.some(
+					(parent) =>
+						parent !== directory &&
+						directory.startsWith(`${parent}${path.sep}`),
+				),
+		);
+	}
+}
+
+/**
+ * Format a problem reported while watching for the console
+ */
+export function formatWatchError(error: WatchError): string {
+	switch (error.type) {
+		case "syntax_error":
+			return `${error.filePath}:${error.line}: ${error.message}`;
+		case "extraction_error":
+			return `Error extracting documentation from ${error.filePath}: ${error.details}`;
+		case "watch_error":
+			return `Error watching files: ${error.details}`;
+		case "parser_error":
+			return `Error parsing TypeScript files: ${JSON.stringify(error.details)}`;
+		case "output_error":
+			return `Error writing output file ${error.path}: ${error.details}`;
+		case "cache_error":
+			return `Error writing cache file ${error.path}: ${error.details}`;
+	}
+}
+
+/**
+ * Get the directory a glob pattern starts in, e.g. `src` for `src/**\/*.ts`
+ */
+function getPatternDirectory(pattern: string): string {
+	const segments = pattern.split(/[\\/]/);
+	const globIndex = segments.findIndex((segment) =>
+		GLOB_CHARACTERS_REGEX.test(segment),
+	);
+
+	// A pattern without glob characters names a file
+	const directorySegments =
+		globIndex === -1 ? segments.slice(0, -1) : segments.slice(0, globIndex);
+
+	return directorySegments.join("/") || (pattern.startsWith("/") ? "/" : ".");
+}
+
+/**
+ * Tell whether a path is a directory that may contain source files, which
+ * excludes dependencies and hidden directories
+ */
+function isWatchableDirectory(filePath: string): boolean {
+	const name = path.basename(filePath);
+	if (name === "node_modules" || name.startsWith(".")) {
+		return false;
+	}
+
+	try {
+		return fs.statSync(filePath).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Get the directories directly inside a directory that may contain source
+ * files, or none if it cannot be read
+ */
+function getSubdirectories(directory: string): string[] {
+	try {
+		return fs
+			.readdirSync(directory, { withFileTypes: true })
+			.filter((entry) => entry.isDirectory())
+			.map((entry) => path.join(directory, entry.name))
+			.filter(isWatchableDirectory);
+	} catch {
+		return [];
+	}
+}
@@ -0,0 +1,139 @@
+import { escapeHtml } from "./markdown";
+
+// Languages highlighted as TypeScript
+const TYPESCRIPT_LANGUAGES = new Set([
+	"ts",
+	"typescript",
+	"tsx",
+	"js",
+	"javascript",
+	"jsx",
+]);
+
+// Keywords of TypeScript, including those only used in types
+const KEYWORDS = new Set([
+	"abstract",
+	"any",
+	"as",
+	"async",
+	"await",
+	"bigint",
+	"boolean",
+	"break",
+	"case",
+	"catch",
+	"class",
+	"const",
+	"constructor",
+	"continue",
+	"declare",
+	"default",
+	"delete",
+	"do",
+	"else",
+	"enum",
+	"export",
+	"extends",
+	"false",
+	"finally",
+	"for",
+	"from",
+	"function",
+	"get",
+	"if",
+	"implements",
+	"import",
+	"in",
+	"infer",
+	"instanceof",
+	"interface",
+	"is",
+	"keyof",
+	"let",
+	"module",
+	"namespace",
+	"never",
+	"new",
+	"null",
+	"number",
+	"object",
+	"of",
+	"private",
+	"protected",
+	"public",
+	"readonly",
+	"return",
+	"set",
+	"static",
+	"string",
+	"super",
+	"switch",
+	"symbol",
+	"this",
+	"throw",
+	"true",
+	"try",
+	"type",
+	"typeof",
+	"undefined",
+	"unique",
+	"unknown",
+	"var",
+	"void",
+	"while",
+	"yield",
+]);
+
+// Tokens that are highlighted; everything else is left as it is
+const TOKEN_REGEX =
+	/(\/\/[^\n]*|\/\*[\s\S]*?\*\/)|("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`)|(\b\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?n?\b|\b0[xob][\da-f_]+n?\b)|([A-Za-z_$][\w$]*)/gi;
+
+/**
+ * Render the code of a code block as HTML, highlighting TypeScript and
+ * JavaScript
+ */
+export function highlightCode(code: string, language?: string): string {
+	return language && TYPESCRIPT_LANGUAGES.has(language.toLowerCase())
+		? highlightTypeScript(code)
+		: escapeHtml(code);
+}
+
+/**
+ * Render TypeScript code as HTML, wrapping comments, strings, numbers,
+ * keywords and type names in spans with `hl-*` classes
+ */
+export function highlightTypeScript(code: string): string {
+	let html = "";
+	let lastIndex = 0;
+
+	for (const match of code.matchAll(TOKEN_REGEX)) {
+		const [token, comment, string, number, identifier] = match;
+		const index = match.index ?? 0;
+		html += escapeHtml(code.slice(lastIndex, index));
+		lastIndex = index + token.length;
+
+		if (comment) {
+			html += wrapToken("comment", token);
+		} else if (string) {
+			html += wrapToken("string", token);
+		} else if (number) {
+			html += wrapToken("number", token);
+		} else if (identifier && KEYWORDS.has(identifier)) {
+			html += wrapToken("keyword", token);
+		} else if (identifier && /^[A-Z]/.test(identifier)) {
+			// Names starting with a capital letter are usually types
+			html += wrapToken("type", token);
+		} else {
+			html += escapeHtml(token);
+		}
+	}
+
+	return html + escapeHtml(code.slice(lastIndex));
+}
+
+/**
+ * Wrap a highlighted token in a span
+ */
+function wrapToken(kind: string, token: string): string {
+	return `<span class="hl-${kind}">${escapeHtml(token)}</span>`;
+}
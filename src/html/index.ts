@@ -0,0 +1,4 @@
+export * from "./highlight";
+export * from "./markdown";
+export * from "./page";
+export * from "./search";
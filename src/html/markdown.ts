@@ -0,0 +1,554 @@
+/**
+ * Options for converting Markdown to HTML
+ */
+export interface MarkdownHtmlOptions {
+	/**
+	 * Rewrite the target of a link or image, e.g. to point at HTML pages
+	 * instead of Markdown files
+	 */
+	rewriteHref?: (href: string) => string;
+	/**
+	 * Render the code of a fenced code block as HTML, e.g. with syntax
+	 * highlighting; the code is escaped by default
+	 */
+	highlight?: (code: string, language?: string) => string;
+}
+
+// Block-level syntax
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING_REGEX = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const RULE_REGEX = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const HTML_BLOCK_REGEX = /^ {0,3}<\/?[a-zA-Z][\w-]*(?:\s[^>]*)?\/?>/;
+const QUOTE_REGEX = /^ {0,3}> ?/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_DIVIDER_REGEX = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Characters that can be escaped with a backslash
+const ESCAPABLE_REGEX = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+/**
+ * Convert Markdown to HTML
+ *
+ * Supports the Markdown that Hermes generates and that is common in JSDoc
+ * comments: headings, paragraphs, nested lists, fenced code blocks, block
+ * quotes, tables, rules, HTML blocks, links, images, code spans and
+ * emphasis. Inline HTML is escaped.
+ */
+export function markdownToHtml(
+	markdown: string,
+	options: MarkdownHtmlOptions = {},
+): string {
+	return renderBlocks(markdown.replace(/\r\n?/g, "\n").split("\n"), options);
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/**
+ * Render lines of Markdown as blocks; paragraphs of tight list items are
+ * not wrapped in `<p>` tags
+ */
+function renderBlocks(
+	lines: string[],
+	options: MarkdownHtmlOptions,
+	tight = false,
+): string {
+	let html = "";
+	let index = 0;
+
+	while (index < lines.length) {
+		const line = lines[index];
+
+		if (!line.trim()) {
+			index++;
+			continue;
+		}
+
+		const fence = line.match(FENCE_REGEX);
+		if (fence) {
+			const [, marker, language] = fence;
+			const indent = line.length - line.trimStart().length;
+			const code: string[] = [];
+			index++;
+
+			while (
+				index < lines.length &&
+				!(
+					lines[index].trim().startsWith(marker) &&
+					/^[`~]+$/.test(lines[index].trim())
+				)
+			) {
+				// Content is dedented by the indentation of the fence
+				code.push(lines[index].replace(new RegExp(`^ {0,${indent}}`), ""));
+				index++;
+			}
+			index++;
+
+			const content = code.length > 0 ? `${code.join("\n")}\n` : "";
+			const rendered = options.highlight
+				? options.highlight(content, language || undefined)
+				: escapeHtml(content);
+			const className = language
+				? ` class="language-${escapeHtml(language)}"`
+				: "";
+			html += `<pre><code${className}>${rendered}</code></pre>\n`;
+			continue;
+		}
+
+		const heading = line.match(HEADING_REGEX);
+		if (heading) {
+			const level = heading[1].length;
+			html += `<h${level}>${renderInline(heading[2] ?? "", options)}</h${level}>\n`;
+			index++;
+			continue;
+		}
+
+		if (RULE_REGEX.test(line)) {
+			html += "<hr>\n";
+			index++;
+			continue;
+		}
+
+		if (HTML_BLOCK_REGEX.test(line)) {
+			while (index < lines.length && lines[index].trim()) {
+				html += `${lines[index]}\n`;
+				index++;
+			}
+			continue;
+		}
+
+		if (QUOTE_REGEX.test(line)) {
+			const quoted: string[] = [];
+			while (index < lines.length && lines[index].trim()) {
+				quoted.push(lines[index].replace(QUOTE_REGEX, ""));
+				index++;
+			}
+			html += `<blockquote>\n${renderBlocks(quoted, options)}</blockquote>\n`;
+			continue;
+		}
+
+		if (
+			line.includes("|") &&
+			index + 1 < lines.length &&
+			lines[index + 1].includes("-") &&
+			TABLE_DIVIDER_REGEX.test(lines[index + 1])
+		) {
+			const rows: string[] = [line];
+			const divider = lines[index + 1];
+			index += 2;
+			while (
+				index < lines.length &&
+				lines[index].trim() &&
+				lines[index].includes("|")
+			) {
+				rows.push(lines[index]);
+				index++;
+			}
+			html += renderTable(rows, divider, options);
+			continue;
+		}
+
+		const listItem = line.match(LIST_ITEM_REGEX);
+		if (listItem) {
+			const list = parseList(lines, index);
+			html += renderList(list, options);
+			index = list.end;
+			continue;
+		}
+
+		// A paragraph runs until a blank line or the start of another block
+		const paragraph: string[] = [];
+		while (
+			index < lines.length &&
+			lines[index].trim() &&
+			(paragraph.length === 0 || !startsBlock(lines[index]))
+		) {
+			paragraph.push(lines[index].trim());
+			index++;
+		}
+
+		const content = renderInline(paragraph.join("\n"), options);
+		html += tight ? `${content}\n` : `<p>${content}</p>\n`;
+	}
+
+	return html;
+}
+
+/**
+ * Whether a line starts a block that interrupts a paragraph
+ */
+function startsBlock(line: string): boolean {
+	return (
+		FENCE_REGEX.test(line) ||
+		HEADING_REGEX.test(line) ||
+		RULE_REGEX.test(line) ||
+		QUOTE_REGEX.test(line) ||
+		HTML_BLOCK_REGEX.test(line) ||
+		/^ {0,3}([-*+]|1[.)])\s+\S/.test(line)
+	);
+}
+
+/**
+ * A parsed list and the index of the line after it
+ */
+interface ParsedList {
+	ordered: boolean;
+	start: number;
+	items: string[][];
+	loose: boolean;
+	end: number;
+}
+
+/**
+ * Parse a list starting at a line, collecting the dedented lines of each
+ * item, including nested lists and lazy continuation lines
+ */
+function parseList(lines: string[], startIndex: number): ParsedList {
+	const [, indent, marker] = lines[startIndex].match(LIST_ITEM_REGEX) ?? [];
+	const baseIndent = indent.length;
+	const ordered = /\d/.test(marker);
+	const list: ParsedList = {
+		ordered,
+		start: ordered ? Number.parseInt(marker, 10) : 1,
+		items: [],
+		loose: false,
+		end: startIndex,
+	};
+
+	let index = startIndex;
+	let contentIndent = 0;
+	let blankBefore = false;
+
+	while (index < lines.length) {
+		const line = lines[index];
+
+		if (!line.trim()) {
+			blankBefore = true;
+			index++;
+			continue;
+		}
+
+		const lineIndent = line.length - line.trimStart().length;
+		const item = line.match(LIST_ITEM_REGEX);
+
+		if (
+			item &&
+			item[1].length <= baseIndent + 1 &&
+			/\d/.test(item[2]) === ordered
+		) {
+			// A new item of this list
+			if (blankBefore && list.items.length > 0) {
+				list.loose = true;
+			}
+			contentIndent = item[0].length;
+			list.items.push([line.slice(contentIndent)]);
+		} else if (lineIndent > baseIndent) {
+			// Indented content belongs to the current item
+			const current = list.items[list.items.length - 1];
+			if (blankBefore) {
+				current.push("");
+			}
+			current.push(line.slice(Math.min(lineIndent, contentIndent)));
+		} else if (!blankBefore && !item && !startsBlock(line)) {
+			// A lazy continuation of the item's paragraph
+			list.items[list.items.length - 1].push(line.trim());
+		} else {
+			break;
+		}
+
+		blankBefore = false;
+		index++;
+	}
+
+	// Trailing blank lines are not part of the list
+	list.end = index;
+	while (list.end > startIndex && !lines[list.end - 1].trim()) {
+		list.end--;
+	}
+
+	return list;
+}
+
+/**
+ * Render a parsed list and its items
+ */
+function renderList(list: ParsedList, options: MarkdownHtmlOptions): string {
+	const tag = list.ordered ? "ol" : "ul";
+	const start =
+		list.ordered && list.start !== 1 ? ` start="${list.start}"` : "";
+	let html = `<${tag}${start}>\n`;
+
+	for (const item of list.items) {
+		const content = renderBlocks(item, options, !list.loose).trimEnd();
+		html += `<li>${content}</li>\n`;
+	}
+
+	return `${html}</${tag}>\n`;
+}
+
+/**
+ * Render a table from its header and body rows
+ */
+function renderTable(
+	rows: string[],
+	divider: string,
+	options: MarkdownHtmlOptions,
+): string {
+	const alignments = splitTableRow(divider).map((cell) => {
+		const trimmed = cell.trim();
+		if (trimmed.startsWith(":") && trimmed.endsWith(":")) {
+			return ' style="text-align: center"';
+		}
+		if (trimmed.endsWith(":")) {
+			return ' style="text-align: right"';
+		}
+		return trimmed.startsWith(":") ? ' style="text-align: left"' : "";
+	});
+
+	const renderRow = (row: string, tag: "th" | "td") =>
+		`<tr>${splitTableRow(row)
+			.map(
+				(cell, column) =>
+					`<${tag}${alignments[column] ?? ""}>${renderInline(cell.trim(), options)}</${tag}>`,
+			)
+			.join("")}</tr>\n`;
+
+	const [header, ...body] = rows;
+	let html = `<table>\n<thead>\n${renderRow(header, "th")}</thead>\n`;
+	if (body.length > 0) {
+		html += `<tbody>\n${body.map((row) => renderRow(row, "td")).join("")}</tbody>\n`;
+	}
+
+	return `${html}</table>\n`;
+}
+
+/**
+ * Split a table row into cells, keeping escaped pipes and pipes inside
+ * code spans
+ */
+function splitTableRow(row: string): string[] {
+	const cells: string[] = [];
+	let cell = "";
+	let inCode = false;
+
+	const trimmed = row
+		.trim()
+		.replace(/^\|/, "")
+		.replace(/(?<!\\)\|$/, "");
+	for (let index = 0; index < trimmed.length; index++) {
+		const char = trimmed[index];
+		if (char === "\\" && trimmed[index + 1] === "|") {
+			cell += "|";
+			index++;
+		} else if (char === "`") {
+			inCode = !inCode;
+			cell += char;
+		} else if (char === "|" && !inCode) {
+			cells.push(cell);
+			cell = "";
+		} else {
+			cell += char;
+		}
+	}
+	cells.push(cell);
+
+	return cells;
+}
+
+/**
+ * Render inline Markdown: code spans, links, images, emphasis and escapes
+ */
+function renderInline(text: string, options: MarkdownHtmlOptions): string {
+	let html = "";
+	let index = 0;
+
+	while (index < text.length) {
+		const char = text[index];
+
+		if (
+			char === "\\" &&
+			index + 1 < text.length &&
+			ESCAPABLE_REGEX.test(text[index + 1])
+		) {
+			html += escapeHtml(text[index + 1]);
+			index += 2;
+			continue;
+		}
+
+		if (char === "`") {
+			const ticks = text.slice(index).match(/^`+/)?.[0] ?? "`";
+			const close = findClosingTicks(text, index + ticks.length, ticks);
+			if (close !== -1) {
+				let code = text.slice(index + ticks.length, close).replace(/\n/g, " ");
+				if (/^ .*[^ ].* $/.test(code)) {
+					code = code.slice(1, -1);
+				}
+				html += `<code>${escapeHtml(code)}</code>`;
+				index = close + ticks.length;
+				continue;
+			}
+			html += ticks;
+			index += ticks.length;
+			continue;
+		}
+
+		if (char === "[" || (char === "!" && text[index + 1] === "[")) {
+			const isImage = char === "!";
+			const link = parseLink(text, isImage ? index + 1 : index);
+			if (link) {
+				const href = escapeHtml(
+					options.rewriteHref ? options.rewriteHref(link.href) : link.href,
+				);
+				const title = link.title ? ` title="${escapeHtml(link.title)}"` : "";
+				html += isImage
+					? `<img src="${href}" alt="${escapeHtml(link.label)}"${title}>`
+					: `<a href="${href}"${title}>${renderInline(link.label, options)}</a>`;
+				index = link.end;
+				continue;
+			}
+		}
+
+		if (char === "<") {
+			const autolink = text.slice(index).match(/^<(https?:\/\/[^\s<>]+)>/);
+			if (autolink) {
+				const href = escapeHtml(autolink[1]);
+				html += `<a href="${href}">${href}</a>`;
+				index += autolink[0].length;
+				continue;
+			}
+		}
+
+		if (char === "*" || char === "_") {
+			const emphasis = parseEmphasis(text, index);
+			if (emphasis) {
+				const tag = emphasis.strong ? "strong" : "em";
+				html += `<${tag}>${renderInline(emphasis.content, options)}</${tag}>`;
+				index = emphasis.end;
+				continue;
+			}
+		}
+
+		html += escapeHtml(char);
+		index++;
+	}
+
+	return html;
+}
+
+/**
+ * Find the closing backticks of a code span, which must be a run of the
+ * same length
+ */
+function findClosingTicks(text: string, from: number, ticks: string): number {
+	let index = text.indexOf(ticks, from);
+
+	while (index !== -1) {
+		const run = text.slice(index).match(/^`+/)?.[0] ?? "";
+		if (run.length === ticks.length) {
+			return index;
+		}
+		index = text.indexOf(ticks, index + run.length);
+	}
+
+	return -1;
+}
+
+/**
+ * Parse a link or image `[label](href "title")` starting at its `[`
+ */
+function parseLink(
+	text: string,
+	start: number,
+): { label: string; href: string; title?: string; end: number } | undefined {
+	// Find the matching bracket, skipping code spans and escapes
+	let depth = 0;
+	let index = start;
+	for (; index < text.length; index++) {
+		const char = text[index];
+		if (char === "\\") {
+			index++;
+		} else if (char === "`") {
+			const ticks = text.slice(index).match(/^`+/)?.[0] ?? "`";
+			const close = findClosingTicks(text, index + ticks.length, ticks);
+			if (close !== -1) {
+				index = close + ticks.length - 1;
+			}
+		} else if (char === "[") {
+			depth++;
+		} else if (char === "]") {
+			depth--;
+			if (depth === 0) {
+				break;
+			}
+		}
+	}
+
+	if (depth !== 0 || text[index + 1] !== "(") {
+		return undefined;
+	}
+
+	const destination = text
+		.slice(index + 2)
+		.match(
+			/^\s*(<[^>]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+"([^"]*)")?\s*\)/,
+		);
+	if (!destination) {
+		return undefined;
+	}
+
+	return {
+		label: text.slice(start + 1, index),
+		href: destination[1].replace(/^<|>$/g, ""),
+		title: destination[2],
+		end: index + 2 + destination[0].length,
+	};
+}
+
+/**
+ * Parse emphasis (`*text*`, `_text_`) or strong emphasis (`**text**`,
+ * `__text__`) starting at its first delimiter
+ */
+function parseEmphasis(
+	text: string,
+	start: number,
+): { strong: boolean; content: string; end: number } | undefined {
+	const char = text[start];
+	const strong = text[start + 1] === char;
+	const delimiter = strong ? char.repeat(2) : char;
+	const contentStart = start + delimiter.length;
+
+	// Underscores inside words, as in snake_case, are not emphasis
+	if (char === "_" && /\w/.test(text[start - 1] ?? "")) {
+		return undefined;
+	}
+	if (!text[contentStart] || /\s/.test(text[contentStart])) {
+		return undefined;
+	}
+
+	let index = text.indexOf(delimiter, contentStart + 1);
+	while (index !== -1) {
+		const isClosing =
+			!/\s/.test(text[index - 1]) &&
+			(char === "*" || !/\w/.test(text[index + delimiter.length] ?? "")) &&
+			(strong || text[index + 1] !== char);
+
+		if (isClosing) {
+			return {
+				strong,
+				content: text.slice(contentStart, index),
+				end: index + delimiter.length,
+			};
+		}
+		index = text.indexOf(delimiter, index + 1);
+	}
+
+	return undefined;
+}
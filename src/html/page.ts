@@ -0,0 +1,174 @@
+import type { TocEntry, TocSection } from "../markdown/formatters";
+import { escapeHtml } from "./markdown";
+
+/**
+ * Options for rendering an HTML page
+ */
+export interface HtmlPageOptions {
+	/**
+	 * Title of the page, shown before the site title
+	 */
+	title: string;
+	siteTitle: string;
+	/**
+	 * Link to the home page from the site title
+	 */
+	homeHref: string;
+	/**
+	 * HTML content of the page
+	 */
+	content: string;
+	sidebar: TocSection[];
+	/**
+	 * Link from the page to the root of the site, e.g. `../`, prepended to
+	 * the relative links of the sidebar
+	 */
+	rootHref?: string;
+	/**
+	 * Links to the search index and the script searching it; the page has no
+	 * search field without them
+	 */
+	search?: { indexHref: string; scriptHref: string };
+	/**
+	 * Inline scripts run after the page loads
+	 */
+	scripts?: string[];
+}
+
+// Links to Markdown files of the documentation, with an optional fragment
+const MARKDOWN_HREF_REGEX = /^([^:?#]*)\.md(#.*)?$/;
+
+// Links that do not depend on the page they are on: URLs with a scheme,
+// absolute paths and fragments
+const ABSOLUTE_HREF_REGEX = /^([a-z][a-z\d+.-]*:|\/|#)/i;
+
+// Styles of the pages, inlined so that pages work without other files
+const PAGE_STYLES = `
+:root { color-scheme: light dark; --text: #1f2328; --muted: #59636e; --border: #d1d9e0; --surface: #f6f8fa; --link: #0969da; }
+@media (prefers-color-scheme: dark) { :root { --text: #f0f6fc; --muted: #9198a1; --border: #3d444d; --surface: #151b23; --link: #4493f8; } }
+* { box-sizing: border-box; }
+body { margin: 0; font: 16px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; color: var(--text); background: Canvas; }
+a { color: var(--link); text-decoration: none; }
+a:hover { text-decoration: underline; }
+.layout { display: flex; min-height: 100vh; }
+.sidebar { position: sticky; top: 0; flex: 0 0 18rem; height: 100vh; overflow-y: auto; padding: 1rem; border-right: 1px solid var(--border); background: var(--surface); font-size: 0.9rem; }
+.sidebar .site-title { display: block; margin-bottom: 1rem; font-size: 1.1rem; font-weight: 600; color: var(--text); }
+.sidebar h2 { margin: 1rem 0 0.25rem; font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; color: var(--muted); }
+.sidebar ul { margin: 0; padding-left: 1rem; list-style: none; }
+.sidebar > nav > ul { padding-left: 0; }
+.sidebar li { margin: 0.1rem 0; overflow-wrap: anywhere; }
+.sidebar span { color: var(--muted); }
+main { flex: 1; min-width: 0; max-width: 60rem; padding: 1rem 2rem 4rem; }
+code { padding: 0.1em 0.3em; border-radius: 4px; background: var(--surface); font: 0.875em ui-monospace, SFMono-Regular, Menlo, monospace; }
+pre { padding: 1rem; overflow-x: auto; border: 1px solid var(--border); border-radius: 6px; background: var(--surface); line-height: 1.45; }
+pre code { padding: 0; background: none; }
+blockquote { margin: 0 0 1rem; padding: 0 1rem; border-left: 4px solid var(--border); color: var(--muted); }
+table { border-collapse: collapse; }
+th, td { padding: 0.25rem 0.75rem; border: 1px solid var(--border); }
+h1, h2, h3, h4, h5, h6 { line-height: 1.25; }
+h2 { padding-bottom: 0.3em; border-bottom: 1px solid var(--border); }
+.search input { width: 100%; padding: 0.3rem 0.5rem; border: 1px solid var(--border); border-radius: 6px; font: inherit; }
+.search-results { margin: 0.5rem 0 0; }
+.search-results:empty { display: none; }
+.hl-keyword { color: #cf222e; }
+.hl-type { color: #953800; }
+.hl-string { color: #0a3069; }
+.hl-number { color: #0550ae; }
+.hl-comment { color: var(--muted); font-style: italic; }
+@media (prefers-color-scheme: dark) { .hl-keyword { color: #ff7b72; } .hl-type { color: #ffa657; } .hl-string { color: #a5d6ff; } .hl-number { color: #79c0ff; } }
+@media (max-width: 50rem) { .layout { display: block; } .sidebar { position: static; height: auto; border-right: 0; border-bottom: 1px solid var(--border); } main { padding: 1rem; } }
+`;
+
+/**
+ * Render a documentation page with a sidebar
+ */
+export function renderHtmlPage(options: HtmlPageOptions): string {
+	const title =
+		options.title === options.siteTitle
+			? options.siteTitle
+			: `${options.title} - ${options.siteTitle}`;
+	const { search } = options;
+	let scripts = (options.scripts ?? [])
+		.map((script) => `<script>${script}</script>\n`)
+		.join("");
+	let searchField = "";
+
+	if (search) {
+		searchField = `<div class="search">
+<input type="search" placeholder="Search" aria-label="Search" data-index="${escapeHtml(search.indexHref)}">
+<ul class="search-results"></ul>
+</div>
+`;
+		scripts += `<script src="${escapeHtml(search.scriptHref)}"></script>\n`;
+	}
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLES}</style>
+</head>
+<body>
+<div class="layout">
+<aside class="sidebar">
+<a class="site-title" href="${escapeHtml(options.homeHref)}">${escapeHtml(options.siteTitle)}</a>
+${searchField}${renderSidebar(options.sidebar, options.rootHref)}</aside>
+<main>
+${options.content}</main>
+</div>
+${scripts}</body>
+</html>
+`;
+}
+
+/**
+ * Point a relative link to a Markdown file at the HTML page rendered from
+ * it, leaving other links alone
+ */
+export function toHtmlHref(href: string): string {
+	const match = MARKDOWN_HREF_REGEX.exec(href);
+	return match ? `${match[1]}.html${match[2] ?? ""}` : href;
+}
+
+/**
+ * Render table of contents sections as the navigation of the sidebar,
+ * prepending `rootHref` to relative links
+ */
+export function renderSidebar(sections: TocSection[], rootHref = ""): string {
+	let html = "<nav>\n";
+
+	for (const section of sections) {
+		html += `<h2>${escapeHtml(section.heading)}</h2>\n`;
+		html += renderSidebarEntries(section.entries, rootHref);
+	}
+
+	return `${html}</nav>\n`;
+}
+
+/**
+ * Render sidebar entries and their children as nested lists
+ */
+function renderSidebarEntries(entries: TocEntry[], rootHref: string): string {
+	let html = "<ul>\n";
+
+	for (const entry of entries) {
+		const title = escapeHtml(entry.title);
+		const href =
+			entry.href && !ABSOLUTE_HREF_REGEX.test(entry.href)
+				? `${rootHref}${entry.href}`
+				: entry.href;
+		html += href
+			? `<li><a href="${escapeHtml(href)}">${title}</a>`
+			: `<li><span>${title}</span>`;
+
+		if (entry.children.length > 0) {
+			html += `\n${renderSidebarEntries(entry.children, rootHref)}`;
+		}
+
+		html += "</li>\n";
+	}
+
+	return `${html}</ul>\n`;
+}
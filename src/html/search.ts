@@ -0,0 +1,173 @@
+import { getSlug } from "../markdown/formatters";
+import { stripInlineLinks } from "../markdown/links";
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type InterfaceDoc,
+	type NamespaceDoc,
+	getQualifiedName,
+} from "../parser/traversal";
+
+/**
+ * A symbol that can be found with the search of an HTML site
+ */
+export interface SearchEntry {
+	/**
+	 * Qualified name, e.g. `Shape.area` for a member
+	 */
+	name: string;
+	kind: DocItemKind;
+	/**
+	 * First paragraph of the description
+	 */
+	description?: string;
+	/**
+	 * Link to the section documenting the symbol, relative to the site root
+	 */
+	href: string;
+}
+
+// Names of the files the search reads, at the root of the site
+export const SEARCH_INDEX_NAME = "search-index.json";
+export const SEARCH_SCRIPT_NAME = "search.js";
+
+// Most results listed for a query
+const MAX_SEARCH_RESULTS = 20;
+
+/**
+ * Script searching the index from the search field of a page
+ *
+ * The index is loaded on first use from the URL in the `data-index`
+ * attribute of the field. Names starting with the query are listed first,
+ * then names containing it, then symbols whose description contains it.
+ */
+export const SEARCH_SCRIPT = `(() => {
+	const input = document.querySelector(".search input");
+	const list = document.querySelector(".search-results");
+	if (!input || !list) {
+		return;
+	}
+
+	const indexUrl = new URL(input.dataset.index, location.href);
+	let entries;
+	const load = () => {
+		entries ??= fetch(indexUrl)
+			.then((response) => response.json())
+			.catch(() => []);
+		return entries;
+	};
+
+	const rank = (entry, query) => {
+		const name = entry.name.toLowerCase();
+		if (name === query || name.endsWith("." + query)) return 0;
+		if (name.startsWith(query)) return 1;
+		if (name.includes(query)) return 2;
+		if (entry.description?.toLowerCase().includes(query)) return 3;
+		return -1;
+	};
+
+	const search = async () => {
+		const query = input.value.trim().toLowerCase();
+		const results = query
+			? (await load())
+					.map((entry) => ({ entry, rank: rank(entry, query) }))
+					.filter((result) => result.rank >= 0)
+					.sort((a, b) => a.rank - b.rank || a.entry.name.length - b.entry.name.length)
+					.slice(0, ${MAX_SEARCH_RESULTS})
+			: [];
+
+		list.replaceChildren(
+			...results.map(({ entry }) => {
+				const link = document.createElement("a");
+				link.href = new URL(entry.href, indexUrl).href;
+				link.textContent = entry.name;
+				if (entry.description) {
+					link.title = entry.description;
+				}
+
+				const kind = document.createElement("span");
+				kind.textContent = " " + entry.kind;
+
+				const item = document.createElement("li");
+				item.append(link, kind);
+				return item;
+			}),
+		);
+	};
+
+	input.addEventListener("focus", load);
+	input.addEventListener("input", search);
+})();
+`;
+
+/**
+ * Get the search entries of the items on each page, keyed by the link to
+ * the page relative to the site root
+ */
+export function getSearchEntries(pages: Map<string, DocItem[]>): SearchEntry[] {
+	const entries: SearchEntry[] = [];
+
+	for (const [pageHref, items] of pages) {
+		for (const item of items) {
+			addSearchEntries(entries, item, pageHref);
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * Add the search entries of an item and of the members documented with it
+ */
+function addSearchEntries(
+	entries: SearchEntry[],
+	item: DocItem,
+	pageHref: string,
+): void {
+	const qualifiedName = getQualifiedName(item);
+	entries.push(
+		getSearchEntry(item, qualifiedName, pageHref, getSlug(qualifiedName)),
+	);
+
+	if (item.kind === DocItemKind.Class || item.kind === DocItemKind.Interface) {
+		const container = item as ClassDoc | InterfaceDoc;
+		for (const member of [...container.properties, ...container.methods]) {
+			entries.push(
+				getSearchEntry(
+					member,
+					`${qualifiedName}.${member.name}`,
+					pageHref,
+					getSlug(`${qualifiedName}-${member.name}`),
+				),
+			);
+		}
+	} else if (item.kind === DocItemKind.Namespace) {
+		for (const member of (item as NamespaceDoc).members) {
+			addSearchEntries(entries, member, pageHref);
+		}
+	}
+}
+
+/**
+ * Get the search entry of a symbol
+ */
+function getSearchEntry(
+	item: DocItem,
+	name: string,
+	pageHref: string,
+	anchor: string,
+): SearchEntry {
+	const description =
+		item.description &&
+		stripInlineLinks(item.description.split(/\n\s*\n/)[0])
+			.replace(/\s+/g, " ")
+			.trim();
+
+	return {
+		name,
+		kind: item.kind,
+		...(description ? { description } : {}),
+		href: `${pageHref}#${anchor}`,
+	};
+}
@@ -2,12 +2,95 @@
 
 import { Command } from "commander";
 import dotenv from "dotenv";
+import type { Result } from "neverthrow";
+import type { HermesConfig } from "./config";
+import type {
+	GenerationSummary,
+	GeneratorError,
+	GeneratorWarning,
+} from "./generator";
+import type { DocumentationJson } from "./json";
 // We need to use require here because of how package.json is loaded
 const { version } = require("../package.json");
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Load the configuration, exiting with an error message when it cannot be
+ * loaded
+ */
+async function loadConfigOrExit(configPath?: string): Promise<HermesConfig> {
+	const { loadConfig } = await import("./config");
+	const configResult = await loadConfig({
+		configPath,
+		cwd: process.cwd(),
+	});
+
+	if (configResult.isErr()) {
+		const error = configResult.error;
+		switch (error.type) {
+			case "not_found":
+				console.error("Configuration file not found");
+				break;
+			case "invalid_format":
+				console.error("Invalid configuration format:", error.details);
+				break;
+			case "io_error":
+				console.error("Error reading configuration:", error.details);
+				break;
+		}
+		process.exit(1);
+	}
+
+	return configResult.value;
+}
+
+/**
+ * Get the patterns of the files to document: the given patterns, or the
+ * configured include patterns, without the configured exclude patterns
+ */
+function getSourcePatterns(patterns: string[], config: HermesConfig): string[] {
+	return [
+		...(patterns.length > 0 ? patterns : config.include),
+		...config.exclude.map((pattern) => `!${pattern}`),
+	];
+}
+
+/**
+ * Load a JSON documentation export, exiting with an error message when it
+ * cannot be loaded
+ */
+async function loadDocumentationOrExit(
+	filePath: string,
+): Promise<DocumentationJson> {
+	const { loadDocumentation } = await import("./json");
+	const loadResult = await loadDocumentation(filePath);
+
+	if (loadResult.isErr()) {
+		const error = loadResult.error;
+		switch (error.type) {
+			case "io_error":
+				console.error(`Error reading ${error.path}:`, error.details);
+				break;
+			case "invalid_format":
+				console.error(
+					`Invalid JSON documentation in ${error.path}:`,
+					error.details,
+				);
+				break;
+			case "unsupported_version":
+				console.error(
+					`Unsupported JSON documentation version ${error.version} in ${error.path}`,
+				);
+				break;
+		}
+		process.exit(1);
+	}
+
+	return loadResult.value;
+}
+
 // Create the CLI program
 const program = new Command();
 
@@ -20,49 +103,236 @@ program
 program
 	.command("generate")
 	.description("Generate documentation from TypeScript files")
-	.argument("<patterns...>", "File patterns to include (glob patterns)")
+	.argument(
+		"[patterns...]",
+		"File patterns to include (glob patterns, defaults to config include)",
+	)
 	.option("-o, --output <directory>", "Output directory", "./docs")
 	.option("-c, --config <file>", "Path to config file")
-	.action(async (patterns, options) => {
-		console.log("Generating documentation for:", patterns);
-
+	.option("--format <format>", "Output format (markdown, json or html)")
+	.option(
+		"--target <target>",
+		"Site generator to write configuration files for (docsify, docusaurus, mkdocs or vitepress)",
+	)
+	.option(
+		"--from-json <file>",
+		"Render Markdown or HTML from a JSON export instead of parsing source files",
+	)
+	.option(
+		"--cache-dir <directory>",
+		"Cache extracted documentation to only parse changed files",
+	)
+	.option("--no-cache", "Parse every file, ignoring the configured cache")
+	.option(
+		"-w, --watch",
+		"Regenerate the documentation when source files change",
+	)
+	.action(async (patterns: string[], options) => {
 		try {
-			// Load configuration
-			const { loadConfig } = await import("./config");
-			const configResult = await loadConfig({
-				configPath: options.config,
-				cwd: process.cwd(),
-			});
+			if (options.watch && options.fromJson) {
+				console.error("--watch cannot be used with --from-json");
+				process.exit(1);
+			}
+
+			const config = await loadConfigOrExit(options.config);
+			const sourcePatterns = getSourcePatterns(patterns, config);
+
+			if (options.fromJson) {
+				console.log("Rendering documentation from:", options.fromJson);
+			} else if (config.entryPoints && config.entryPoints.length > 0) {
+				console.log(
+					"Generating public API documentation for:",
+					config.entryPoints,
+				);
+			} else {
+				console.log("Generating documentation for:", sourcePatterns);
+			}
+
+			// Override config with CLI options
+			if (options.output) {
+				config.outDir = options.output;
+			}
+			if (options.format) {
+				if (!["markdown", "json", "html"].includes(options.format)) {
+					console.error(`Unknown output format: ${options.format}`);
+					process.exit(1);
+				}
+				config.format = options.format;
+			}
+			if (options.target) {
+				if (
+					!["docsify", "docusaurus", "mkdocs", "vitepress"].includes(
+						options.target,
+					)
+				) {
+					console.error(`Unknown site target: ${options.target}`);
+					process.exit(1);
+				}
+				config.target = options.target;
+			}
+			if (options.cacheDir) {
+				config.cacheDir = options.cacheDir;
+			}
+			// The watcher keeps the extracted documentation in memory instead
+			if (options.cache === false || options.watch) {
+				config.cacheDir = undefined;
+			}
 
-			if (configResult.isErr()) {
-				const error = configResult.error;
+			const { DocumentationGenerator } = await import("./generator");
+			let summary: GenerationSummary | undefined;
+			const generatorOptions = {
+				onWarning: (warning: GeneratorWarning) => {
+					if (warning.type === "unresolved_link") {
+						const { filePath, line } = warning.location;
+						console.warn(
+							`${filePath}:${line}: Unresolved link to "${warning.target}"`,
+						);
+					} else if (warning.type === "edited_site_file") {
+						console.warn(
+							`${warning.path} was edited and is left as it is; delete it to generate it again`,
+						);
+					}
+				},
+				onSummary: (runSummary: GenerationSummary) => {
+					summary = runSummary;
+				},
+			};
+
+			// Generate documentation, or re-render previously exported
+			// documentation without parsing the source files again
+			let result: Result<string[], GeneratorError>;
+			let isWatching = false;
+			if (options.fromJson) {
+				const documentation = await loadDocumentationOrExit(options.fromJson);
+				const generator = new DocumentationGenerator({
+					...config,
+					title: documentation.title,
+					description: documentation.description,
+				});
+				// A JSON export is rendered as Markdown unless HTML is requested
+				result =
+					config.format === "html"
+						? await generator.renderHtml(documentation.items, generatorOptions)
+						: await generator.renderMarkdown(
+								documentation.items,
+								generatorOptions,
+							);
+			} else if (options.watch) {
+				const path = await import("node:path");
+				const { DocumentationWatcher, formatWatchError } = await import(
+					"./generator/watch"
+				);
+				const watcher = new DocumentationWatcher(config, sourcePatterns, {
+					...generatorOptions,
+					onUpdate: ({ changedFiles, summary: updateSummary }) => {
+						const fileNames = changedFiles
+							.map((filePath) => path.relative(process.cwd(), filePath))
+							.join(", ");
+						console.log(
+							`Updated documentation for ${fileNames}: ${updateSummary.regenerated} files regenerated, ${updateSummary.untouched} untouched.`,
+						);
+					},
+					onError: (error) => console.error(formatWatchError(error)),
+				});
+				result = await watcher.start();
+				isWatching = true;
+			} else {
+				const generator = new DocumentationGenerator(config);
+				result = await generator.generate(sourcePatterns, generatorOptions);
+			}
+
+			if (result.isErr()) {
+				const error = result.error;
 				switch (error.type) {
-					case "not_found":
-						console.error("Configuration file not found");
+					case "parser_error":
+						console.error("Error parsing TypeScript files:", error.details);
 						break;
-					case "invalid_format":
-						console.error("Invalid configuration format:", error.details);
+					case "output_error":
+						console.error(
+							`Error writing output file ${error.path}:`,
+							error.details,
+						);
 						break;
-					case "io_error":
-						console.error("Error reading configuration:", error.details);
+					case "cache_error":
+						console.error(
+							`Error writing cache file ${error.path}:`,
+							error.details,
+						);
 						break;
 				}
 				process.exit(1);
 			}
 
-			const config = configResult.value;
+			const files = result.value;
+			const regenerated = summary?.regenerated ?? files.length;
+			let message = `Documentation generated successfully. ${regenerated} of ${files.length} files regenerated, ${files.length - regenerated} untouched.`;
+			if (config.cacheDir && summary) {
+				message += ` ${summary.reused} source files reused from the cache, ${summary.extracted} parsed.`;
+			}
+			console.log(message);
+
+			if (isWatching) {
+				console.log("Watching for changes. Press Ctrl+C to stop.");
+			}
+		} catch (error) {
+			console.error("Error generating documentation:", error);
+			process.exit(1);
+		}
+	});
+
+// Serve command
+program
+	.command("serve")
+	.description("Preview the documentation in a browser, reloading on changes")
+	.argument(
+		"[patterns...]",
+		"File patterns to include (glob patterns, defaults to config include)",
+	)
+	.option("-o, --output <directory>", "Output directory")
+	.option("-c, --config <file>", "Path to config file")
+	.option("-p, --port <port>", "Port to listen on", "3000")
+	.option("--host <host>", "Host to listen on", "localhost")
+	.option("--no-watch", "Do not regenerate when source files change")
+	.action(async (patterns: string[], options) => {
+		try {
+			const port = Number(options.port);
+			if (!Number.isInteger(port) || port < 0 || port > 65535) {
+				console.error(`Invalid port: ${options.port}`);
+				process.exit(1);
+			}
+
+			const config = await loadConfigOrExit(options.config);
+			const sourcePatterns = getSourcePatterns(patterns, config);
 
-			// Override config with CLI options
 			if (options.output) {
 				config.outDir = options.output;
 			}
 
-			// Generate documentation
-			const { DocumentationGenerator } = await import("./generator");
-			const generator = new DocumentationGenerator(config);
-
-			const result = await generator.generate(patterns);
+			const path = await import("node:path");
+			const { formatWatchError } = await import("./generator/watch");
+			const { DocumentationServer } = await import("./serve");
+			const server = new DocumentationServer(config, sourcePatterns, {
+				port,
+				host: options.host,
+				watch: options.watch,
+				onWarning: (warning: GeneratorWarning) => {
+					if (warning.type === "unresolved_link") {
+						const { filePath, line } = warning.location;
+						console.warn(
+							`${filePath}:${line}: Unresolved link to "${warning.target}"`,
+						);
+					}
+				},
+				onUpdate: ({ changedFiles }) => {
+					const fileNames = changedFiles
+						.map((filePath) => path.relative(process.cwd(), filePath))
+						.join(", ");
+					console.log(`Updated documentation for ${fileNames}.`);
+				},
+				onError: (error) => console.error(formatWatchError(error)),
+			});
 
+			const result = await server.start();
 			if (result.isErr()) {
 				const error = result.error;
 				switch (error.type) {
@@ -75,16 +345,463 @@ program
 							error.details,
 						);
 						break;
+					case "cache_error":
+						console.error(
+							`Error writing cache file ${error.path}:`,
+							error.details,
+						);
+						break;
+					case "server_error":
+						console.error("Error starting the server:", error.details);
+						break;
 				}
 				process.exit(1);
 			}
 
-			const files = result.value;
+			console.log(`Serving documentation at ${result.value}`);
+			console.log("Press Ctrl+C to stop.");
+		} catch (error) {
+			console.error("Error serving documentation:", error);
+			process.exit(1);
+		}
+	});
+
+// API check command
+program
+	.command("api-check")
+	.description(
+		"Check that the API report matches the public API of the source files",
+	)
+	.argument(
+		"[patterns...]",
+		"File patterns to include (glob patterns, defaults to config include)",
+	)
+	.option("-c, --config <file>", "Path to config file")
+	.option("-r, --report <file>", "Path to the API report")
+	.option("-u, --update", "Write the regenerated report instead of failing")
+	.action(async (patterns: string[], options) => {
+		try {
+			const config = await loadConfigOrExit(options.config);
+			const sourcePatterns = getSourcePatterns(patterns, config);
+			const reportPath = options.report ?? config.apiReport;
+
+			const { DocumentationGenerator } = await import("./generator");
+			const generator = new DocumentationGenerator(config);
+			const itemsResult = await generator.extract(sourcePatterns, {
+				exportedOnly: true,
+			});
+
+			if (itemsResult.isErr()) {
+				console.error(
+					"Error parsing TypeScript files:",
+					itemsResult.error.details,
+				);
+				process.exit(1);
+			}
+
+			const items = itemsResult.value;
+			const { getRootDirectory } = await import("./generator/layout");
+			const { checkApiReport, formatApiReport } = await import("./report");
+			const report = formatApiReport(items, {
+				title: config.title,
+				rootDir: getRootDirectory(items, config),
+			});
+
+			if (options.update) {
+				const { writeFile } = await import("./markdown");
+				const writeResult = await writeFile(reportPath, report, {
+					overwrite: true,
+				});
+
+				if (writeResult.isErr()) {
+					console.error(
+						`Error writing API report ${reportPath}:`,
+						writeResult.error.details,
+					);
+					process.exit(1);
+				}
+
+				console.log(`API report written to ${reportPath}`);
+				return;
+			}
+
+			const checkResult = await checkApiReport(reportPath, report);
+
+			if (checkResult.isErr()) {
+				console.error(
+					`Error reading API report ${reportPath}:`,
+					checkResult.error.details,
+				);
+				process.exit(1);
+			}
+
+			const check = checkResult.value;
+			switch (check.status) {
+				case "unchanged":
+					console.log("The API report is up to date.");
+					break;
+				case "missing":
+					console.error(
+						`API report ${reportPath} not found. Run \`hermes api-check --update\` to create it.`,
+					);
+					process.exit(1);
+					break;
+				case "changed":
+					console.log(check.diff);
+					console.error(
+						"The public API has changed. Review the changes above and run `hermes api-check --update` to update the API report.",
+					);
+					process.exit(1);
+					break;
+			}
+		} catch (error) {
+			console.error("Error checking the API report:", error);
+			process.exit(1);
+		}
+	});
+
+// Diff command
+program
+	.command("diff")
+	.description(
+		"Classify the API changes between two JSON exports and recommend a version bump",
+	)
+	.argument("<old>", "JSON export of the previous version")
+	.argument("<new>", "JSON export of the new version")
+	.option("--json", "Print the changes as JSON")
+	.action(async (oldPath: string, newPath: string, options) => {
+		try {
+			const oldDocumentation = await loadDocumentationOrExit(oldPath);
+			const newDocumentation = await loadDocumentationOrExit(newPath);
+
+			const { diffApi, formatApiDiff } = await import("./report");
+			const diff = diffApi(oldDocumentation.items, newDocumentation.items);
+
 			console.log(
-				`Documentation generated successfully. ${files.length} files written.`,
+				options.json ? JSON.stringify(diff, null, 2) : formatApiDiff(diff),
 			);
 		} catch (error) {
-			console.error("Error generating documentation:", error);
+			console.error("Error comparing API snapshots:", error);
+			process.exit(1);
+		}
+	});
+
+// Changelog command
+program
+	.command("changelog")
+	.description(
+		"Summarize the API changes between two git revisions as a Markdown changelog section",
+	)
+	.argument(
+		"[patterns...]",
+		"File patterns to include (glob patterns, defaults to config include)",
+	)
+	.option("--from <ref>", "Revision to compare from, e.g. the last release tag")
+	.option("--to <ref>", "Revision to compare to", "HEAD")
+	.option("-o, --output <file>", "Write the changelog section to a file")
+	.option(
+		"--docs <directory>",
+		"Directory of the generated documentation to link to (defaults to config outDir)",
+	)
+	.option("-c, --config <file>", "Path to config file")
+	.action(async (patterns: string[], options) => {
+		try {
+			if (!options.from) {
+				console.error("Missing revision to compare from: pass --from <ref>");
+				process.exit(1);
+			}
+
+			const config = await loadConfigOrExit(options.config);
+			const sourcePatterns = getSourcePatterns(patterns, config);
+			const outputPath = options.output ?? "CHANGELOG.md";
+
+			const { generateChangelog } = await import("./changelog");
+			const result = await generateChangelog(config, sourcePatterns, {
+				from: options.from,
+				to: options.to,
+				cwd: process.cwd(),
+				outputPath,
+				docsDir: options.docs ?? config.outDir,
+			});
+
+			if (result.isErr()) {
+				const error = result.error;
+				switch (error.type) {
+					case "unknown_revision":
+						console.error(`Unknown revision: ${error.ref}`);
+						break;
+					case "git_error":
+						console.error(`Error running ${error.command}:`, error.details);
+						break;
+					case "generator_error":
+						console.error(
+							`Error parsing TypeScript files at ${error.ref}:`,
+							error.details.details,
+						);
+						break;
+				}
+				process.exit(1);
+			}
+
+			if (!options.output) {
+				console.log(result.value);
+				return;
+			}
+
+			const { writeFile } = await import("./markdown");
+			const writeResult = await writeFile(outputPath, result.value, {
+				overwrite: true,
+			});
+
+			if (writeResult.isErr()) {
+				console.error(
+					`Error writing changelog ${outputPath}:`,
+					writeResult.error.details,
+				);
+				process.exit(1);
+			}
+
+			console.log(`Changelog written to ${outputPath}`);
+		} catch (error) {
+			console.error("Error generating the changelog:", error);
+			process.exit(1);
+		}
+	});
+
+// Coverage command
+program
+	.command("coverage")
+	.description(
+		"Report which symbols, members, parameters and return values lack descriptions",
+	)
+	.argument(
+		"[patterns...]",
+		"File patterns to include (glob patterns, defaults to config include)",
+	)
+	.option("-c, --config <file>", "Path to config file")
+	.option(
+		"--format <format>",
+		"Output format (table, json or markdown)",
+		"table",
+	)
+	.option("-o, --output <file>", "Write the report to a file")
+	.action(async (patterns: string[], options) => {
+		try {
+			if (!["table", "json", "markdown"].includes(options.format)) {
+				console.error(`Unknown coverage format: ${options.format}`);
+				process.exit(1);
+			}
+
+			const config = await loadConfigOrExit(options.config);
+			const sourcePatterns = getSourcePatterns(patterns, config);
+
+			const { DocumentationGenerator } = await import("./generator");
+			const generator = new DocumentationGenerator(config);
+			const itemsResult = await generator.extract(sourcePatterns);
+
+			if (itemsResult.isErr()) {
+				console.error(
+					"Error parsing TypeScript files:",
+					itemsResult.error.details,
+				);
+				process.exit(1);
+			}
+
+			const items = itemsResult.value;
+			const { getRootDirectory } = await import("./generator/layout");
+			const {
+				checkCoverageThresholds,
+				computeCoverage,
+				formatCoverageFailure,
+				formatCoverageMarkdown,
+				formatCoverageTable,
+			} = await import("./coverage");
+			const report = computeCoverage(items, {
+				rootDir: getRootDirectory(items, config),
+				visibility: config.markdownOptions.visibility,
+			});
+			const failures = checkCoverageThresholds(
+				report,
+				config.coverage.thresholds,
+			);
+
+			let output: string;
+			switch (options.format) {
+				case "json":
+					output = `${JSON.stringify({ ...report, failures }, null, 2)}\n`;
+					break;
+				case "markdown":
+					output = formatCoverageMarkdown(report);
+					break;
+				default:
+					output = formatCoverageTable(report, failures);
+			}
+
+			if (options.output) {
+				const { writeFile } = await import("./markdown");
+				const writeResult = await writeFile(options.output, output, {
+					overwrite: true,
+				});
+
+				if (writeResult.isErr()) {
+					console.error(
+						`Error writing coverage report ${options.output}:`,
+						writeResult.error.details,
+					);
+					process.exit(1);
+				}
+
+				console.log(`Coverage report written to ${options.output}`);
+			} else {
+				console.log(output);
+			}
+
+			if (failures.length > 0) {
+				if (options.format !== "table" || options.output) {
+					for (const failure of failures) {
+						console.error(formatCoverageFailure(failure));
+					}
+				}
+				process.exit(1);
+			}
+		} catch (error) {
+			console.error("Error computing documentation coverage:", error);
+			process.exit(1);
+		}
+	});
+
+// Lint command
+program
+	.command("lint")
+	.description("Check JSDoc comments for missing, empty and mismatched tags")
+	.argument(
+		"[patterns...]",
+		"File patterns to include (glob patterns, defaults to config include)",
+	)
+	.option("-c, --config <file>", "Path to config file")
+	.option("--format <format>", "Output format (human, json or sarif)", "human")
+	.option("-o, --output <file>", "Write the results to a file")
+	.action(async (patterns: string[], options) => {
+		try {
+			if (!["human", "json", "sarif"].includes(options.format)) {
+				console.error(`Unknown lint format: ${options.format}`);
+				process.exit(1);
+			}
+
+			const config = await loadConfigOrExit(options.config);
+			const sourcePatterns = getSourcePatterns(patterns, config);
+
+			const { TypeScriptParser } = await import("./parser");
+			const parser = new TypeScriptParser();
+			const filesResult = await parser.addSourceFiles(sourcePatterns);
+
+			if (filesResult.isErr()) {
+				console.error("Error parsing TypeScript files:", filesResult.error);
+				process.exit(1);
+			}
+
+			const {
+				countDiagnostics,
+				formatLintJson,
+				formatLintResults,
+				formatLintSarif,
+				lintSourceFiles,
+			} = await import("./lint");
+			const diagnostics = lintSourceFiles(filesResult.value, config.lint.rules);
+			const formatOptions = { baseDir: process.cwd() };
+
+			let output: string;
+			switch (options.format) {
+				case "json":
+					output = formatLintJson(diagnostics, formatOptions);
+					break;
+				case "sarif":
+					output = formatLintSarif(diagnostics, {
+						...formatOptions,
+						rules: config.lint.rules,
+						version,
+					});
+					break;
+				default:
+					output = formatLintResults(diagnostics, formatOptions);
+			}
+
+			if (options.output) {
+				const { writeFile } = await import("./markdown");
+				const writeResult = await writeFile(options.output, output, {
+					overwrite: true,
+				});
+
+				if (writeResult.isErr()) {
+					console.error(
+						`Error writing lint results ${options.output}:`,
+						writeResult.error.details,
+					);
+					process.exit(1);
+				}
+
+				console.log(`Lint results written to ${options.output}`);
+			} else {
+				console.log(output);
+			}
+
+			if (countDiagnostics(diagnostics).errors > 0) {
+				process.exit(1);
+			}
+		} catch (error) {
+			console.error("Error linting documentation:", error);
+			process.exit(1);
+		}
+	});
+
+// Doctest command
+program
+	.command("doctest")
+	.description("Type-check @example blocks and optionally run them")
+	.argument(
+		"[patterns...]",
+		"File patterns to include (glob patterns, defaults to config include)",
+	)
+	.option("-c, --config <file>", "Path to config file")
+	.option("--run", "Run examples and compare `// =>` comments")
+	.option("--timeout <ms>", "Time each example may run", "5000")
+	.action(async (patterns: string[], options) => {
+		try {
+			const timeout = Number(options.timeout);
+			if (!Number.isInteger(timeout) || timeout <= 0) {
+				console.error(`Invalid timeout: ${options.timeout}`);
+				process.exit(1);
+			}
+
+			const config = await loadConfigOrExit(options.config);
+			const sourcePatterns = getSourcePatterns(patterns, config);
+
+			// Examples are compiled with the project's compiler options
+			const { ts } = await import("ts-morph");
+			const { TypeScriptParser } = await import("./parser");
+			const parser = new TypeScriptParser({
+				tsConfigFilePath: ts.findConfigFile(process.cwd(), ts.sys.fileExists),
+			});
+			const filesResult = await parser.addSourceFiles(sourcePatterns);
+
+			if (filesResult.isErr()) {
+				console.error("Error parsing TypeScript files:", filesResult.error);
+				process.exit(1);
+			}
+
+			const { formatExampleResults, testExamples } = await import("./examples");
+			const results = await testExamples(filesResult.value, {
+				run: options.run ?? false,
+				timeout,
+			});
+
+			console.log(formatExampleResults(results, { baseDir: process.cwd() }));
+
+			if (results.problems.length > 0) {
+				process.exit(1);
+			}
+		} catch (error) {
+			console.error("Error testing examples:", error);
 			process.exit(1);
 		}
 	});
@@ -0,0 +1,3 @@
+export * from "./loader";
+export * from "./model";
+export * from "./serializer";
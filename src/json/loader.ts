@@ -0,0 +1,126 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type DocItem, DocItemKind } from "../parser/traversal";
+import {
+	type DocumentationJson,
+	JSON_SCHEMA_VERSION,
+	mapFilePaths,
+} from "./model";
+
+/**
+ * Error types that can occur while loading JSON documentation
+ */
+export type JsonLoadError =
+	| { type: "io_error"; path: string; details: string }
+	| { type: "invalid_format"; path: string; details: string }
+	| { type: "unsupported_version"; path: string; version: string };
+
+/**
+ * Schema checking the structure the loader relies on; the published JSON
+ * Schema describes the rest of each item
+ */
+const DocumentationJsonSchema = z.object({
+	schemaVersion: z.string(),
+	title: z.string(),
+	description: z.string().optional(),
+	sourceRoot: z.string(),
+	items: z.array(
+		z
+			.object({
+				id: z.string().optional(),
+				name: z.string(),
+				kind: z.nativeEnum(DocItemKind),
+				location: z.object({
+					filePath: z.string(),
+					line: z.number(),
+				}),
+			})
+			.passthrough(),
+	),
+});
+
+/**
+ * Read documentation written in the JSON format back into doc items, with
+ * source paths resolved to absolute paths
+ */
+export async function loadDocumentation(
+	filePath: string,
+): Promise<Result<DocumentationJson, JsonLoadError>> {
+	let content: string;
+
+	try {
+		content = await fs.readFile(filePath, "utf8");
+	} catch (error) {
+		return err({
+			type: "io_error",
+			path: filePath,
+			details: error instanceof Error ? error.message : String(error),
+		});
+	}
+
+	return parseDocumentation(content, filePath);
+}
+
+/**
+ * Parse JSON documentation read from the given path
+ */
+export function parseDocumentation(
+	content: string,
+	filePath: string,
+): Result<DocumentationJson, JsonLoadError> {
+	let json: unknown;
+
+	try {
+		json = JSON.parse(content);
+	} catch (error) {
+		return err({
+			type: "invalid_format",
+			path: filePath,
+			details: error instanceof Error ? error.message : String(error),
+		});
+	}
+
+	const result = DocumentationJsonSchema.safeParse(json);
+	if (!result.success) {
+		return err({
+			type: "invalid_format",
+			path: filePath,
+			details: result.error.message,
+		});
+	}
+
+	const documentation = result.data;
+	if (
+		getMajorVersion(documentation.schemaVersion) !==
+		getMajorVersion(JSON_SCHEMA_VERSION)
+	) {
+		return err({
+			type: "unsupported_version",
+			path: filePath,
+			version: documentation.schemaVersion,
+		});
+	}
+
+	const sourceRoot = path.resolve(
+		path.dirname(filePath),
+		documentation.sourceRoot,
+	);
+
+	return ok({
+		...documentation,
+		sourceRoot,
+		items: mapFilePaths(documentation.items as DocItem[], (itemPath) =>
+			path.resolve(sourceRoot, itemPath),
+		),
+	});
+}
+
+/**
+ * Get the major part of a schema version
+ */
+function getMajorVersion(version: string): string {
+	return version.split(".")[0];
+}
@@ -0,0 +1,56 @@
+import type { DocItem } from "../parser/models";
+
+/**
+ * Version of the JSON documentation format
+ *
+ * The major version changes when existing fields change meaning or are
+ * removed; loaders accept any document with the same major version. The
+ * format is described by `schemas/documentation-v1.schema.json`.
+ */
+export const JSON_SCHEMA_VERSION = "1.1";
+
+/**
+ * Name of the file the JSON documentation is written to
+ */
+export const JSON_OUTPUT_NAME = "documentation.json";
+
+/**
+ * Documentation exported as JSON
+ *
+ * Source paths, including those of type references, are relative to
+ * `sourceRoot`, which is itself relative to the directory of the JSON file.
+ * Every symbol has a stable `id` built from its path, kind and qualified name.
+ */
+export interface DocumentationJson {
+	schemaVersion: string;
+	title: string;
+	description?: string;
+	sourceRoot: string;
+	items: DocItem[];
+}
+
+/**
+ * Copy a value, mapping every `filePath` property of the objects it contains
+ */
+export function mapFilePaths<T>(
+	value: T,
+	map: (filePath: string) => string,
+): T {
+	if (Array.isArray(value)) {
+		return value.map((element) => mapFilePaths(element, map)) as T;
+	}
+
+	if (value === null || typeof value !== "object") {
+		return value;
+	}
+
+	const result: Record<string, unknown> = {};
+	for (const [key, property] of Object.entries(value)) {
+		result[key] =
+			key === "filePath" && typeof property === "string"
+				? map(property)
+				: mapFilePaths(property, map);
+	}
+
+	return result as T;
+}
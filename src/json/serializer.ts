@@ -0,0 +1,123 @@
+import path from "node:path";
+
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type InterfaceDoc,
+	type NamespaceDoc,
+	getQualifiedName,
+} from "../parser/traversal";
+import {
+	type DocumentationJson,
+	JSON_SCHEMA_VERSION,
+	mapFilePaths,
+} from "./model";
+
+/**
+ * Options for serializing documentation
+ */
+export interface SerializeOptions {
+	title: string;
+	description?: string;
+	/**
+	 * Root of the source tree that source paths are made relative to
+	 */
+	rootDir: string;
+	/**
+	 * Path the JSON file is written to
+	 */
+	outputPath: string;
+}
+
+/**
+ * Get the stable identifier of a symbol, e.g. `src/parser/index.ts#class:TypeScriptParser`
+ * Members are qualified by the item that declares or inherits them.
+ */
+export function getSymbolId(
+	filePath: string,
+	kind: DocItemKind,
+	qualifiedName: string,
+): string {
+	return `${filePath}#${kind}:${qualifiedName}`;
+}
+
+/**
+ * Serialize doc items into the JSON documentation format
+ */
+export function serializeDocumentation(
+	items: DocItem[],
+	options: SerializeOptions,
+): DocumentationJson {
+	const relativeItems = mapFilePaths(items, (filePath) =>
+		toPosixPath(path.relative(options.rootDir, filePath)),
+	);
+
+	return {
+		schemaVersion: JSON_SCHEMA_VERSION,
+		title: options.title,
+		description: options.description,
+		sourceRoot:
+			toPosixPath(
+				path.relative(path.dirname(options.outputPath), options.rootDir),
+			) || ".",
+		items: relativeItems.map((item) => assignIds(item)),
+	};
+}
+
+/**
+ * Assign identifiers to an item and the symbols it contains
+ */
+function assignIds(
+	item: DocItem,
+	owner?: { filePath: string; name: string },
+): DocItem {
+	const qualifiedName = owner
+		? `${owner.name}.${item.name}`
+		: getQualifiedName(item);
+	// Members share the file of their owner, even when inherited from elsewhere
+	const filePath = owner?.filePath ?? item.location.filePath;
+	const id = getSymbolId(filePath, item.kind, qualifiedName);
+	const memberOwner = { filePath, name: qualifiedName };
+
+	if (item.kind === DocItemKind.Class || item.kind === DocItemKind.Interface) {
+		const container = item as ClassDoc | InterfaceDoc;
+		const assignMemberIds = <T extends DocItem>(members: T[]) =>
+			members.map((member) => assignIds(member, memberOwner) as T);
+
+		return {
+			id,
+			...container,
+			properties: assignMemberIds(container.properties),
+			methods: assignMemberIds(container.methods),
+			...("constructors" in container && {
+				constructors: assignMemberIds(container.constructors),
+			}),
+			inheritedProperties:
+				container.inheritedProperties &&
+				assignMemberIds(container.inheritedProperties),
+			inheritedMethods:
+				container.inheritedMethods &&
+				assignMemberIds(container.inheritedMethods),
+		} as ClassDoc | InterfaceDoc;
+	}
+
+	if (item.kind === DocItemKind.Namespace) {
+		const namespace = item as NamespaceDoc;
+		return {
+			id,
+			...namespace,
+			members: namespace.members.map((member) => assignIds(member)),
+		} as NamespaceDoc;
+	}
+
+	return { id, ...item };
+}
+
+/**
+ * Use forward slashes in relative paths so that output is the same on every
+ * platform
+ */
+function toPosixPath(filePath: string): string {
+	return filePath.split(path.sep).join("/");
+}
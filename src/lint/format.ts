@@ -0,0 +1,165 @@
+import path from "node:path";
+
+import {
+	LINT_RULE_DESCRIPTIONS,
+	type LintDiagnostic,
+	type LintRuleId,
+	type LintRules,
+} from "./linter";
+
+/**
+ * Options for formatting lint diagnostics
+ */
+export interface LintFormatOptions {
+	/**
+	 * Directory that file paths are made relative to
+	 */
+	baseDir: string;
+}
+
+/**
+ * Options for formatting lint diagnostics as SARIF
+ */
+export interface SarifFormatOptions extends LintFormatOptions {
+	rules: LintRules;
+	/**
+	 * Version of the tool reported in the SARIF log
+	 */
+	version: string;
+}
+
+/**
+ * Count the diagnostics of each severity
+ */
+export function countDiagnostics(diagnostics: LintDiagnostic[]): {
+	errors: number;
+	warnings: number;
+} {
+	const errors = diagnostics.filter(
+		(diagnostic) => diagnostic.severity === "error",
+	).length;
+
+	return { errors, warnings: diagnostics.length - errors };
+}
+
+/**
+ * Format diagnostics for the console, one per line with its location,
+ * followed by a summary
+ */
+export function formatLintResults(
+	diagnostics: LintDiagnostic[],
+	options: LintFormatOptions,
+): string {
+	if (diagnostics.length === 0) {
+		return "No documentation problems found.\n";
+	}
+
+	let text = "";
+
+	for (const diagnostic of diagnostics) {
+		const { filePath, line } = diagnostic.location;
+		text += `${getRelativePath(filePath, options.baseDir)}:${line}: ${diagnostic.severity === "error" ? "error" : "warning"}: ${diagnostic.message} (${diagnostic.rule})\n`;
+	}
+
+	const { errors, warnings } = countDiagnostics(diagnostics);
+	text += `\n${pluralize(errors, "error")}, ${pluralize(warnings, "warning")}\n`;
+
+	return text;
+}
+
+/**
+ * Format diagnostics as JSON with file paths relative to the base directory
+ */
+export function formatLintJson(
+	diagnostics: LintDiagnostic[],
+	options: LintFormatOptions,
+): string {
+	const { errors, warnings } = countDiagnostics(diagnostics);
+
+	return `${JSON.stringify(
+		{
+			errorCount: errors,
+			warningCount: warnings,
+			diagnostics: diagnostics.map((diagnostic) => ({
+				...diagnostic,
+				location: {
+					...diagnostic.location,
+					filePath: getRelativePath(
+						diagnostic.location.filePath,
+						options.baseDir,
+					),
+				},
+			})),
+		},
+		null,
+		2,
+	)}\n`;
+}
+
+/**
+ * Format diagnostics as a SARIF 2.1.0 log, as read by code scanning tools
+ */
+export function formatLintSarif(
+	diagnostics: LintDiagnostic[],
+	options: SarifFormatOptions,
+): string {
+	const ruleIds = Object.keys(LINT_RULE_DESCRIPTIONS) as LintRuleId[];
+
+	const sarif = {
+		$schema: "https://json.schemastore.org/sarif-2.1.0.json",
+		version: "2.1.0",
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: "hermes",
+						version: options.version,
+						rules: ruleIds.map((id) => ({
+							id,
+							shortDescription: { text: LINT_RULE_DESCRIPTIONS[id] },
+							defaultConfiguration: {
+								enabled: options.rules[id] !== "off",
+								level: options.rules[id] === "error" ? "error" : "warning",
+							},
+						})),
+					},
+				},
+				results: diagnostics.map((diagnostic) => ({
+					ruleId: diagnostic.rule,
+					ruleIndex: ruleIds.indexOf(diagnostic.rule),
+					level: diagnostic.severity === "error" ? "error" : "warning",
+					message: { text: diagnostic.message },
+					locations: [
+						{
+							physicalLocation: {
+								artifactLocation: {
+									uri: getRelativePath(
+										diagnostic.location.filePath,
+										options.baseDir,
+									),
+								},
+								region: { startLine: diagnostic.location.line },
+							},
+						},
+					],
+				})),
+			},
+		],
+	};
+
+	return `${JSON.stringify(sarif, null, 2)}\n`;
+}
+
+/**
+ * Make a file path relative to a directory, with forward slashes
+ */
+function getRelativePath(filePath: string, baseDir: string): string {
+	return path.relative(baseDir, filePath).split(path.sep).join("/");
+}
+
+/**
+ * Format a count with a noun in singular or plural
+ */
+function pluralize(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
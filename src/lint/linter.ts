@@ -0,0 +1,347 @@
+import { type SourceFile, ts } from "ts-morph";
+
+import type { HermesConfig } from "../config";
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type FunctionDoc,
+	type InterfaceDoc,
+	type JSDocInfo,
+	type MethodDoc,
+	type NamespaceDoc,
+	type ParameterDoc,
+	type VariableDoc,
+	extractDocumentation,
+	extractExportedDocumentation,
+	getQualifiedName,
+} from "../parser/traversal";
+import { describeKind } from "../report";
+
+/**
+ * Severity of each lint rule
+ */
+export type LintRules = HermesConfig["lint"]["rules"];
+
+/**
+ * Identifier of a lint rule, e.g. `param-names`
+ */
+export type LintRuleId = keyof LintRules;
+
+/**
+ * Severity of a reported problem
+ */
+export type LintSeverity = "warn" | "error";
+
+/**
+ * A problem found in the documentation of a declaration
+ */
+export interface LintDiagnostic {
+	rule: LintRuleId;
+	severity: LintSeverity;
+	message: string;
+	location: DocItem["location"];
+}
+
+/**
+ * What each rule checks, for help texts and SARIF rule metadata
+ */
+export const LINT_RULE_DESCRIPTIONS: Record<LintRuleId, string> = {
+	"param-names": "@param tags must name a parameter of the function",
+	"require-param": "Parameters of documented functions must have @param tags",
+	"require-description": "Exported symbols must have a description",
+	"require-returns":
+		"Documented functions that return a value must have a @returns tag",
+	"throws-type": "Types named by @throws tags must exist",
+	"no-empty-description":
+		"@param, @returns, @throws and @typeParam tags must have a description",
+	"deprecated-reason": "@deprecated tags must give a reason",
+};
+
+// Tags that are expected to have a description
+const DESCRIBED_TAGS = new Set([
+	"param",
+	"returns",
+	"return",
+	"throws",
+	"exception",
+	"typeParam",
+	"template",
+]);
+
+// Return types that need no `@returns` tag
+const VOID_TYPES = new Set(["void", "Promise<void>", "never", "undefined"]);
+
+// Keywords of type expressions, which name no declaration
+const TYPE_KEYWORDS = new Set([
+	"any",
+	"bigint",
+	"boolean",
+	"never",
+	"null",
+	"number",
+	"object",
+	"string",
+	"symbol",
+	"undefined",
+	"unknown",
+	"void",
+]);
+
+/**
+ * A callable signature with the JSDoc that documents it
+ */
+interface DocumentedCallable {
+	parameters: ParameterDoc[];
+	returnType?: string;
+	jsDoc?: JSDocInfo;
+}
+
+/**
+ * Check the JSDoc comments of the declarations in source files
+ */
+export function lintSourceFiles(
+	sourceFiles: SourceFile[],
+	rules: LintRules,
+): LintDiagnostic[] {
+	const diagnostics = sourceFiles.flatMap((sourceFile) =>
+		lintSourceFile(sourceFile, rules),
+	);
+
+	return diagnostics.sort(
+		(a, b) =>
+			a.location.filePath.localeCompare(b.location.filePath) ||
+			a.location.line - b.location.line,
+	);
+}
+
+/**
+ * Check the JSDoc comments of the declarations in a source file
+ */
+export function lintSourceFile(
+	sourceFile: SourceFile,
+	rules: LintRules,
+): LintDiagnostic[] {
+	const diagnostics: LintDiagnostic[] = [];
+	const report = (rule: LintRuleId, item: DocItem, message: string) => {
+		const severity = rules[rule];
+		if (severity !== "off") {
+			diagnostics.push({ rule, severity, message, location: item.location });
+		}
+	};
+
+	// Symbols exported by this file, by where they are declared
+	const exported = new Set(
+		extractExportedDocumentation(sourceFile).map(
+			(item) => `${item.location.filePath}:${item.location.line}`,
+		),
+	);
+
+	// Types named by @throws tags are resolved from the top of the file,
+	// where imports and globals are in scope
+	const typeChecker = sourceFile.getProject().getTypeChecker();
+	const typeExists = (name: string) =>
+		typeChecker.resolveName(
+			name,
+			sourceFile,
+			ts.SymbolFlags.Type | ts.SymbolFlags.Value | ts.SymbolFlags.Namespace,
+			false,
+		) !== undefined;
+
+	for (const item of extractDocumentation(sourceFile)) {
+		const key = `${item.location.filePath}:${item.location.line}`;
+		if (exported.has(key) && !item.description?.trim()) {
+			report(
+				"require-description",
+				item,
+				`Exported ${describeKind(item.kind)} \`${item.name}\` has no description`,
+			);
+		}
+
+		lintItem(item, getQualifiedName(item), report, typeExists);
+	}
+
+	return diagnostics;
+}
+
+/**
+ * Check the JSDoc of an item and of its members
+ */
+function lintItem(
+	item: DocItem,
+	name: string,
+	report: (rule: LintRuleId, item: DocItem, message: string) => void,
+	typeExists: (name: string) => boolean,
+): void {
+	lintTags(item, item.jsDoc, name, report, typeExists);
+
+	switch (item.kind) {
+		case DocItemKind.Function:
+		case DocItemKind.Method: {
+			// Overloads are documented separately from the implementation
+			const signatures = (item as FunctionDoc | MethodDoc).signatures ?? [];
+			for (const signature of signatures) {
+				lintCallable(item, signature, name, report);
+				lintTags(item, signature.jsDoc, name, report, typeExists);
+			}
+			if (signatures.length === 0) {
+				lintCallable(item, item as FunctionDoc | MethodDoc, name, report);
+			}
+			break;
+		}
+		case DocItemKind.Variable: {
+			const variable = item as VariableDoc;
+			if (variable.isCallable) {
+				lintCallable(
+					item,
+					{
+						parameters: variable.parameters ?? [],
+						returnType: variable.returnType,
+						jsDoc: variable.jsDoc,
+					},
+					name,
+					report,
+				);
+			}
+			break;
+		}
+		case DocItemKind.Class:
+		case DocItemKind.Interface: {
+			const container = item as ClassDoc | InterfaceDoc;
+
+			for (const ctor of "constructors" in container
+				? container.constructors
+				: []) {
+				lintItem(ctor, name, report, typeExists);
+			}
+
+			for (const member of [...container.properties, ...container.methods]) {
+				lintItem(member, `${name}.${member.name}`, report, typeExists);
+			}
+			break;
+		}
+		case DocItemKind.Namespace:
+			for (const member of (item as NamespaceDoc).members) {
+				lintItem(member, getQualifiedName(member), report, typeExists);
+			}
+			break;
+	}
+}
+
+/**
+ * Check the @param and @returns tags of a signature against its parameters
+ * and return type
+ *
+ * Only signatures with a JSDoc comment are checked; undocumented symbols are
+ * reported by `require-description`. Destructured parameters have no name
+ * to match and are skipped.
+ */
+function lintCallable(
+	item: DocItem,
+	callable: DocumentedCallable,
+	name: string,
+	report: (rule: LintRuleId, item: DocItem, message: string) => void,
+): void {
+	if (!callable.jsDoc) {
+		return;
+	}
+
+	const parameterNames = new Set(
+		callable.parameters
+			.map((parameter) => parameter.name)
+			.filter((parameterName) => !/^[{[]/.test(parameterName)),
+	);
+	const hasDestructured = callable.parameters.length > parameterNames.size;
+	const paramTags = callable.jsDoc.tags.filter((tag) => tag.tag === "param");
+	const documented = new Set<string>();
+
+	for (const tag of paramTags) {
+		// `@param options.verbose` documents a property of `options`
+		const [tagName] = (tag.name ?? "").split(".");
+		documented.add(tagName);
+
+		if (!parameterNames.has(tagName) && !hasDestructured) {
+			report(
+				"param-names",
+				item,
+				`@param \`${tag.name}\` does not match any parameter of \`${name}\``,
+			);
+		}
+	}
+
+	for (const parameterName of parameterNames) {
+		if (!documented.has(parameterName)) {
+			report(
+				"require-param",
+				item,
+				`Parameter \`${parameterName}\` of \`${name}\` has no @param tag`,
+			);
+		}
+	}
+
+	const isConstructor = item.name === "constructor";
+	if (
+		!isConstructor &&
+		callable.returnType !== undefined &&
+		!VOID_TYPES.has(callable.returnType) &&
+		callable.jsDoc.returns === undefined
+	) {
+		report(
+			"require-returns",
+			item,
+			`\`${name}\` returns \`${callable.returnType}\` but has no @returns tag`,
+		);
+	}
+}
+
+/**
+ * Check the descriptions of tags, the types of @throws tags and the reason
+ * of @deprecated tags
+ */
+function lintTags(
+	item: DocItem,
+	jsDoc: JSDocInfo | undefined,
+	name: string,
+	report: (rule: LintRuleId, item: DocItem, message: string) => void,
+	typeExists: (name: string) => boolean,
+): void {
+	for (const tag of jsDoc?.tags ?? []) {
+		if (DESCRIBED_TAGS.has(tag.tag) && !tag.description?.trim()) {
+			const subject = tag.name ? ` \`${tag.name}\`` : "";
+			report(
+				"no-empty-description",
+				item,
+				`@${tag.tag}${subject} of \`${name}\` has no description`,
+			);
+		}
+
+		if ((tag.tag === "throws" || tag.tag === "exception") && tag.type) {
+			for (const typeName of getReferencedNames(tag.type)) {
+				if (!typeExists(typeName)) {
+					report(
+						"throws-type",
+						item,
+						`@${tag.tag} type \`${typeName}\` of \`${name}\` does not exist`,
+					);
+				}
+			}
+		}
+
+		if (tag.tag === "deprecated" && !tag.description?.trim()) {
+			report(
+				"deprecated-reason",
+				item,
+				`@deprecated tag of \`${name}\` gives no reason`,
+			);
+		}
+	}
+}
+
+/**
+ * Get the root names a type expression refers to, e.g. `Errors` and `Error`
+ * for `Errors.NotFound | Error`
+ */
+function getReferencedNames(type: string): string[] {
+	const names = type.match(/(?<![\w$.])[A-Za-z_$][\w$]*/g) ?? [];
+	return [...new Set(names)].filter((name) => !TYPE_KEYWORDS.has(name));
+}
@@ -1,20 +1,9 @@
+import type { DocItem, MarkdownOptions } from "../parser/models";
 import {
-	type ClassDoc,
-	type DocItem,
-	DocItemKind,
-	type EnumDoc,
-	type FunctionDoc,
-	type InterfaceDoc,
-	type MarkdownOptions,
-	type TypeAliasDoc,
-} from "../parser/models";
-import {
-	formatClass,
-	formatEnum,
-	formatFunction,
-	formatInterface,
+	filterItemsByVisibility,
+	formatItem,
 	formatTableOfContents,
-	formatTypeAlias,
+	sortItems,
 } from "./formatters";
 
 /**
@@ -24,27 +13,10 @@ export function formatMarkdown(
 	items: DocItem[],
 	options: MarkdownOptions,
 ): string {
-	// Sort items by kind and name
-	const sortedItems = [...items].sort((a, b) => {
-		// Sort by kind first
-		const kindOrder = [
-			DocItemKind.Class,
-			DocItemKind.Interface,
-			DocItemKind.Function,
-			DocItemKind.TypeAlias,
-			DocItemKind.Enum,
-		];
-
-		const aKindIndex = kindOrder.indexOf(a.kind);
-		const bKindIndex = kindOrder.indexOf(b.kind);
-
-		if (aKindIndex !== bKindIndex) {
-			return aKindIndex - bKindIndex;
-		}
-
-		// Then sort by name
-		return a.name.localeCompare(b.name);
-	});
+	// Drop members with excluded visibility, then sort items by kind and name
+	const sortedItems = sortItems(
+		filterItemsByVisibility(items, options.visibility),
+	);
 
 	let markdown = "";
 
@@ -54,26 +26,20 @@ export function formatMarkdown(
 
 	// Format each item
 	for (const item of sortedItems) {
-		switch (item.kind) {
-			case DocItemKind.Function:
-				markdown += formatFunction(item as FunctionDoc, options);
-				break;
-			case DocItemKind.Class:
-				markdown += formatClass(item as ClassDoc, options);
-				break;
-			case DocItemKind.Interface:
-				markdown += formatInterface(item as InterfaceDoc, options);
-				break;
-			case DocItemKind.Enum:
-				markdown += formatEnum(item as EnumDoc, options);
-				break;
-			case DocItemKind.TypeAlias:
-				markdown += formatTypeAlias(item as TypeAliasDoc, options);
-				break;
-		}
-
+		markdown += formatItem(item, options);
 		markdown += "\n\n";
 	}
 
 	return markdown;
 }
+
+/**
+ * Format a single documentation item as a page of its own
+ */
+export function formatSymbolPage(
+	item: DocItem,
+	options: MarkdownOptions,
+): string {
+	const [visibleItem] = filterItemsByVisibility([item], options.visibility);
+	return `${formatItem(visibleItem, options)}\n`;
+}
@@ -4,46 +4,83 @@ import type {
 	FunctionDoc,
 	InterfaceDoc,
 	MethodDoc,
+	NamespaceDoc,
+	ParameterDoc,
+	PropertyDoc,
 	TypeAliasDoc,
+	VariableDoc,
 } from "../../parser/traversal";
 
 /**
- * Format a function signature
+ * Format a parameter list for a signature, one parameter per line
  */
-export function formatFunctionSignature(func: FunctionDoc): string {
-	let signature = `function ${func.name}`;
+function formatSignatureParameters(parameters: ParameterDoc[]): string {
+	if (parameters.length === 0) {
+		return "";
+	}
 
-	if (func.typeParameters && func.typeParameters.length > 0) {
-		signature += `<${func.typeParameters.join(", ")}>`;
+	let list = "\n";
+	for (let i = 0; i < parameters.length; i++) {
+		const param = parameters[i];
+		list += `  ${param.name}`;
+
+		if (param.isOptional) {
+			list += "?";
+		}
+
+		list += `: ${param.type}`;
+
+		if (param.defaultValue) {
+			list += ` = ${param.defaultValue}`;
+		}
+
+		if (i < parameters.length - 1) {
+			list += ",";
+		}
+
+		list += "\n";
 	}
 
-	signature += "(";
+	return list;
+}
 
-	if (func.parameters.length > 0) {
-		signature += "\n";
-		for (let i = 0; i < func.parameters.length; i++) {
-			const param = func.parameters[i];
-			signature += `  ${param.name}`;
+/**
+ * Format the access, static, abstract and override modifiers of a member
+ * Public visibility is implied and ECMAScript private names carry their own `#`
+ */
+export function formatMemberModifiers(member: PropertyDoc | MethodDoc): string {
+	let modifiers = "";
 
-			if (param.isOptional) {
-				signature += "?";
-			}
+	if (member.visibility === "protected" || member.visibility === "private") {
+		modifiers += `${member.visibility} `;
+	}
+
+	if (member.isStatic) {
+		modifiers += "static ";
+	}
 
-			signature += `: ${param.type}`;
+	if (member.isAbstract) {
+		modifiers += "abstract ";
+	}
 
-			if (param.defaultValue) {
-				signature += ` = ${param.defaultValue}`;
-			}
+	if (member.isOverride) {
+		modifiers += "override ";
+	}
 
-			if (i < func.parameters.length - 1) {
-				signature += ",";
-			}
+	return modifiers;
+}
 
-			signature += "\n";
-		}
+/**
+ * Format a function signature
+ */
+export function formatFunctionSignature(func: FunctionDoc): string {
+	let signature = `function ${func.name}`;
+
+	if (func.typeParameters && func.typeParameters.length > 0) {
+		signature += `<${func.typeParameters.join(", ")}>`;
 	}
 
-	signature += `): ${func.returnType}`;
+	signature += `(${formatSignatureParameters(func.parameters)}): ${func.returnType}`;
 
 	return signature;
 }
@@ -52,11 +89,7 @@ export function formatFunctionSignature(func: FunctionDoc): string {
  * Format a method signature
  */
 export function formatMethodSignature(method: MethodDoc): string {
-	let signature = "";
-
-	if (method.isStatic) {
-		signature += "static ";
-	}
+	let signature = formatMemberModifiers(method);
 
 	if (method.isAsync) {
 		signature += "async ";
@@ -68,33 +101,7 @@ export function formatMethodSignature(method: MethodDoc): string {
 		signature += `<${method.typeParameters.join(", ")}>`;
 	}
 
-	signature += "(";
-
-	if (method.parameters.length > 0) {
-		signature += "\n";
-		for (let i = 0; i < method.parameters.length; i++) {
-			const param = method.parameters[i];
-			signature += `  ${param.name}`;
-
-			if (param.isOptional) {
-				signature += "?";
-			}
-
-			signature += `: ${param.type}`;
-
-			if (param.defaultValue) {
-				signature += ` = ${param.defaultValue}`;
-			}
-
-			if (i < method.parameters.length - 1) {
-				signature += ",";
-			}
-
-			signature += "\n";
-		}
-	}
-
-	signature += `): ${method.returnType}`;
+	signature += `(${formatSignatureParameters(method.parameters)}): ${method.returnType}`;
 
 	return signature;
 }
@@ -194,3 +201,55 @@ export function formatTypeAliasDeclaration(typeAlias: TypeAliasDoc): string {
 
 	return declaration;
 }
+
+/**
+ * Format a variable declaration as typescript code
+ */
+export function formatVariableDeclaration(variable: VariableDoc): string {
+	// JSON exported before schema 1.1 only tells const from other variables
+	const declarationKind =
+		variable.declarationKind ?? (variable.isConst ? "const" : "let");
+	let declaration = `${declarationKind} ${variable.name}`;
+
+	if (variable.isCallable) {
+		declaration += ": ";
+
+		if (variable.typeParameters && variable.typeParameters.length > 0) {
+			declaration += `<${variable.typeParameters.join(", ")}>`;
+		}
+
+		declaration += `(${formatSignatureParameters(variable.parameters ?? [])}) => ${variable.returnType};\n`;
+		return declaration;
+	}
+
+	declaration += `: ${variable.type};\n`;
+
+	return declaration;
+}
+
+/**
+ * Format a namespace or ambient module declaration as typescript code
+ */
+export function formatNamespaceDeclaration(namespace: NamespaceDoc): string {
+	let declaration: string;
+
+	switch (namespace.declarationKind) {
+		case "module":
+			declaration = `declare module "${namespace.name}" {\n`;
+			break;
+		case "global":
+			declaration = "declare global {\n";
+			break;
+		default:
+			declaration = `namespace ${namespace.name} {\n`;
+	}
+
+	// Add a placeholder for members
+	if (namespace.members.length > 0) {
+		declaration += "  // Members\n";
+	}
+
+	declaration += "}\n";
+
+	return declaration;
+}
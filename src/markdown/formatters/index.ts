@@ -1,5 +1,6 @@
 export * from "./declarations";
 export * from "./items";
 export * from "./members";
+export * from "./tags";
 export * from "./toc";
 export * from "./utils";
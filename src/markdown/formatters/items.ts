@@ -1,27 +1,69 @@
-import type {
-	ClassDoc,
-	EnumDoc,
-	FunctionDoc,
-	InterfaceDoc,
-	MarkdownOptions,
-	TypeAliasDoc,
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type EnumDoc,
+	type FunctionDoc,
+	type InterfaceDoc,
+	type MarkdownOptions,
+	type MethodDoc,
+	type NamespaceDoc,
+	type PropertyDoc,
+	type TypeAliasDoc,
+	type VariableDoc,
+	getQualifiedName,
 } from "../../parser/traversal";
 import {
 	formatClassDeclaration,
 	formatEnumDeclaration,
 	formatFunctionSignature,
 	formatInterfaceDeclaration,
+	formatNamespaceDeclaration,
 	formatTypeAliasDeclaration,
+	formatVariableDeclaration,
 } from "./declarations";
-import { formatEnumMember, formatMethod, formatProperty } from "./members";
+import {
+	formatEnumMember,
+	formatMethod,
+	formatOverloads,
+	formatParameters,
+	formatProperty,
+} from "./members";
+import { formatDeprecation, formatReturns, formatTagSections } from "./tags";
 import {
 	formatCodeBlock,
 	formatDescription,
 	formatItemCollection,
 	formatItemHeader,
 	formatSourceLocation,
+	getSlug,
+	sortItems,
 } from "./utils";
 
+/**
+ * Format any documentation item as Markdown based on its kind
+ */
+export function formatItem(item: DocItem, options: MarkdownOptions): string {
+	switch (item.kind) {
+		case DocItemKind.Function:
+			return formatFunction(item as FunctionDoc, options);
+		case DocItemKind.Class:
+			return formatClass(item as ClassDoc, options);
+		case DocItemKind.Interface:
+			return formatInterface(item as InterfaceDoc, options);
+		case DocItemKind.Enum:
+			return formatEnum(item as EnumDoc, options);
+		case DocItemKind.TypeAlias:
+			return formatTypeAlias(item as TypeAliasDoc, options);
+		case DocItemKind.Variable:
+			return formatVariable(item as VariableDoc, options);
+		case DocItemKind.Namespace:
+			return formatNamespace(item as NamespaceDoc, options);
+		default:
+			return "";
+	}
+}
+
 /**
  * Format a function as Markdown
  */
@@ -29,92 +71,87 @@ export function formatFunction(
 	func: FunctionDoc,
 	options: MarkdownOptions,
 ): string {
-	let markdown = formatItemHeader(func.name);
+	let markdown = formatItemHeader(getQualifiedName(func));
 	markdown += formatDescription(func.description);
+	markdown += formatDeprecation(func.jsDoc);
+
+	if (func.signatures && func.signatures.length > 0) {
+		// Overloads replace the implementation signature
+		markdown += formatOverloads(func, formatFunctionSignature, 3, options);
+	} else {
+		// Function signature
+		markdown += formatCodeBlock(formatFunctionSignature(func));
+
+		// Parameters
+		if (func.parameters.length > 0) {
+			markdown += "### Parameters\n\n";
+			markdown += formatParameters(func.parameters, options);
+		}
 
-	// Function signature
-	markdown += formatCodeBlock(formatFunctionSignature(func));
-
-	// Parameters
-	if (func.parameters.length > 0) {
-		markdown += "### Parameters\n\n";
-		markdown += formatParameters(func.parameters, options);
+		// Return type
+		markdown += "### Returns\n\n";
+		markdown += formatReturns(
+			func.returnType,
+			func.jsDoc,
+			func.returnTypeReferences,
+		);
 	}
 
-	// Return type
-	markdown += "### Returns\n\n";
-	markdown += `\`${func.returnType}\`\n\n`;
+	markdown += formatTagSections(func.jsDoc, 3, options);
 
 	// Source location
-	markdown += formatSourceLocation(func.location);
+	markdown += formatSourceLocation(func.location, options);
 
 	return markdown;
 }
 
 /**
- * Format parameters as Markdown
+ * Append inherited members to declared ones when they are to be listed
  */
-function formatParameters(
-	parameters: FunctionDoc["parameters"],
+function withInherited<T extends PropertyDoc | MethodDoc>(
+	members: T[],
+	inherited: T[] | undefined,
 	options: MarkdownOptions,
-) {
-	let markdown = "";
-
-	for (const param of parameters) {
-		markdown += `- \`${param.name}`;
-
-		if (param.isOptional) {
-			markdown += "?";
-		}
-
-		if (options.includeTypes) {
-			markdown += `: ${param.type}`;
-		}
-
-		markdown += "`";
-
-		if (param.defaultValue) {
-			markdown += ` (default: \`${param.defaultValue}\`)`;
-		}
-
-		if (param.description) {
-			markdown += ` - ${param.description}`;
-		}
-
-		markdown += "\n";
-	}
-
-	markdown += "\n";
-	return markdown;
+): T[] {
+	return options.includeInherited && inherited
+		? [...members, ...inherited]
+		: members;
 }
 
 /**
  * Format a class as Markdown
  */
 export function formatClass(cls: ClassDoc, options: MarkdownOptions): string {
-	let markdown = formatItemHeader(cls.name);
+	const qualifiedName = getQualifiedName(cls);
+	let markdown = formatItemHeader(qualifiedName);
 	markdown += formatDescription(cls.description);
+	markdown += formatDeprecation(cls.jsDoc);
 
 	// Class declaration
 	markdown += formatCodeBlock(formatClassDeclaration(cls));
+	markdown += formatTagSections(cls.jsDoc, 3, options);
 
 	// Constructors
 	markdown += formatItemCollection(cls.constructors, "Constructors", (ctor) =>
-		formatMethod(ctor, cls.name, options),
+		formatMethod(ctor, qualifiedName, options),
 	);
 
 	// Properties
-	markdown += formatItemCollection(cls.properties, "Properties", (prop) =>
-		formatProperty(prop, cls.name, options),
+	markdown += formatItemCollection(
+		withInherited(cls.properties, cls.inheritedProperties, options),
+		"Properties",
+		(prop) => formatProperty(prop, qualifiedName, options),
 	);
 
 	// Methods
-	markdown += formatItemCollection(cls.methods, "Methods", (method) =>
-		formatMethod(method, cls.name, options),
+	markdown += formatItemCollection(
+		withInherited(cls.methods, cls.inheritedMethods, options),
+		"Methods",
+		(method) => formatMethod(method, qualifiedName, options),
 	);
 
 	// Source location
-	markdown += formatSourceLocation(cls.location);
+	markdown += formatSourceLocation(cls.location, options);
 
 	return markdown;
 }
@@ -126,24 +163,31 @@ export function formatInterface(
 	iface: InterfaceDoc,
 	options: MarkdownOptions,
 ): string {
-	let markdown = formatItemHeader(iface.name);
+	const qualifiedName = getQualifiedName(iface);
+	let markdown = formatItemHeader(qualifiedName);
 	markdown += formatDescription(iface.description);
+	markdown += formatDeprecation(iface.jsDoc);
 
 	// Interface declaration
 	markdown += formatCodeBlock(formatInterfaceDeclaration(iface));
+	markdown += formatTagSections(iface.jsDoc, 3, options);
 
 	// Properties
-	markdown += formatItemCollection(iface.properties, "Properties", (prop) =>
-		formatProperty(prop, iface.name, options),
+	markdown += formatItemCollection(
+		withInherited(iface.properties, iface.inheritedProperties, options),
+		"Properties",
+		(prop) => formatProperty(prop, qualifiedName, options),
 	);
 
 	// Methods
-	markdown += formatItemCollection(iface.methods, "Methods", (method) =>
-		formatMethod(method, iface.name, options),
+	markdown += formatItemCollection(
+		withInherited(iface.methods, iface.inheritedMethods, options),
+		"Methods",
+		(method) => formatMethod(method, qualifiedName, options),
 	);
 
 	// Source location
-	markdown += formatSourceLocation(iface.location);
+	markdown += formatSourceLocation(iface.location, options);
 
 	return markdown;
 }
@@ -152,8 +196,9 @@ export function formatInterface(
  * Format an enum as Markdown
  */
 export function formatEnum(enumDoc: EnumDoc, options: MarkdownOptions): string {
-	let markdown = formatItemHeader(enumDoc.name);
+	let markdown = formatItemHeader(getQualifiedName(enumDoc));
 	markdown += formatDescription(enumDoc.description);
+	markdown += formatDeprecation(enumDoc.jsDoc);
 
 	// Enum declaration
 	markdown += formatCodeBlock(formatEnumDeclaration(enumDoc));
@@ -165,8 +210,10 @@ export function formatEnum(enumDoc: EnumDoc, options: MarkdownOptions): string {
 		formatEnumMember,
 	);
 
+	markdown += formatTagSections(enumDoc.jsDoc, 3, options);
+
 	// Source location
-	markdown += formatSourceLocation(enumDoc.location);
+	markdown += formatSourceLocation(enumDoc.location, options);
 
 	return markdown;
 }
@@ -178,14 +225,98 @@ export function formatTypeAlias(
 	typeAlias: TypeAliasDoc,
 	options: MarkdownOptions,
 ): string {
-	let markdown = formatItemHeader(typeAlias.name);
+	let markdown = formatItemHeader(getQualifiedName(typeAlias));
 	markdown += formatDescription(typeAlias.description);
+	markdown += formatDeprecation(typeAlias.jsDoc);
 
 	// Type alias declaration
 	markdown += formatCodeBlock(formatTypeAliasDeclaration(typeAlias));
 
+	markdown += formatTagSections(typeAlias.jsDoc, 3, options);
+
 	// Source location
-	markdown += formatSourceLocation(typeAlias.location);
+	markdown += formatSourceLocation(typeAlias.location, options);
+
+	return markdown;
+}
+
+/**
+ * Format a variable as Markdown
+ */
+export function formatVariable(
+	variable: VariableDoc,
+	options: MarkdownOptions,
+): string {
+	let markdown = formatItemHeader(getQualifiedName(variable));
+	markdown += formatDescription(variable.description);
+	markdown += formatDeprecation(variable.jsDoc);
+
+	// Variable declaration
+	markdown += formatCodeBlock(formatVariableDeclaration(variable));
+
+	if (variable.isCallable) {
+		// Parameters
+		if (variable.parameters && variable.parameters.length > 0) {
+			markdown += "### Parameters\n\n";
+			markdown += formatParameters(variable.parameters, options);
+		}
+
+		// Return type
+		markdown += "### Returns\n\n";
+		markdown += formatReturns(
+			variable.returnType ?? "",
+			variable.jsDoc,
+			variable.returnTypeReferences,
+		);
+	} else if (variable.initializer) {
+		// Initial value
+		markdown += "### Value\n\n";
+		markdown += formatCodeBlock(`${variable.initializer}\n`);
+	}
+
+	markdown += formatTagSections(variable.jsDoc, 3, options);
+
+	// Source location
+	markdown += formatSourceLocation(variable.location, options);
+
+	return markdown;
+}
+
+/**
+ * Format a namespace as Markdown
+ * Members are rendered as sections of their own, headed by qualified names
+ */
+export function formatNamespace(
+	namespace: NamespaceDoc,
+	options: MarkdownOptions,
+): string {
+	let markdown = formatItemHeader(getQualifiedName(namespace));
+	markdown += formatDescription(namespace.description);
+	markdown += formatDeprecation(namespace.jsDoc);
+
+	// Namespace declaration
+	markdown += formatCodeBlock(formatNamespaceDeclaration(namespace));
+
+	// Links to members
+	const members = sortItems(namespace.members);
+	if (members.length > 0) {
+		markdown += "### Members\n\n";
+		for (const member of members) {
+			const memberName = getQualifiedName(member);
+			markdown += `- [${memberName}](#${getSlug(memberName)})\n`;
+		}
+		markdown += "\n";
+	}
+
+	markdown += formatTagSections(namespace.jsDoc, 3, options);
+
+	// Source location
+	markdown += formatSourceLocation(namespace.location, options);
+
+	// Member sections
+	for (const member of members) {
+		markdown += `\n\n${formatItem(member, options)}`;
+	}
 
 	return markdown;
 }
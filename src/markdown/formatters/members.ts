@@ -1,12 +1,20 @@
 import type {
 	EnumDoc,
+	FunctionDoc,
 	MarkdownOptions,
 	MethodDoc,
 	ParameterDoc,
 	PropertyDoc,
+	TypeReference,
 } from "../../parser/traversal";
-import { formatMethodSignature } from "./declarations";
-import { formatCodeBlock, formatDescription, getSlug } from "./utils";
+import { formatMemberModifiers, formatMethodSignature } from "./declarations";
+import { formatDeprecation, formatReturns, formatTagSections } from "./tags";
+import {
+	formatCodeBlock,
+	formatDescription,
+	formatType,
+	getSlug,
+} from "./utils";
 
 /**
  * Format a property declaration as typescript code
@@ -15,10 +23,10 @@ export function formatPropertyDeclaration(
 	prop: PropertyDoc,
 	options: MarkdownOptions,
 ): string {
-	let declaration = "";
+	let declaration = formatMemberModifiers(prop);
 
-	if (prop.isStatic) {
-		declaration += "static ";
+	if (prop.accessor) {
+		return formatAccessorDeclaration(prop, declaration, options);
 	}
 
 	if (prop.isReadonly) {
@@ -40,6 +48,71 @@ export function formatPropertyDeclaration(
 	return declaration;
 }
 
+/**
+ * Format the get/set accessor pair of a property as typescript code
+ */
+function formatAccessorDeclaration(
+	prop: PropertyDoc,
+	modifiers: string,
+	options: MarkdownOptions,
+): string {
+	const type = options.includeTypes ? `: ${prop.type}` : "";
+	let declaration = "";
+
+	if (prop.accessor?.hasGetter) {
+		declaration += `${modifiers}get ${prop.name}()${type};\n`;
+	}
+
+	if (prop.accessor?.hasSetter) {
+		declaration += `${modifiers}set ${prop.name}(value${type});\n`;
+	}
+
+	return declaration;
+}
+
+/**
+ * Describe how an accessor property can be used
+ */
+function formatAccessorIndicator(accessor: PropertyDoc["accessor"]): string {
+	if (!accessor) {
+		return "";
+	}
+
+	if (!accessor.hasSetter) {
+		return "*Accessor (read-only)*\n\n";
+	}
+
+	return accessor.hasGetter
+		? "*Accessor (read/write)*\n\n"
+		: "*Accessor (write-only)*\n\n";
+}
+
+/**
+ * Note where an inherited member comes from, or which member it overrides,
+ * when inherited members are listed
+ */
+function formatHeritageNote(
+	member: PropertyDoc | MethodDoc,
+	options: MarkdownOptions,
+): string {
+	if (!options.includeInherited) {
+		return "";
+	}
+
+	const formatBase = (base: TypeReference) =>
+		base.href ? `[\`${base.name}\`](${base.href})` : `\`${base.name}\``;
+
+	if (member.inheritedFrom) {
+		return `*Inherited from ${formatBase(member.inheritedFrom)}*\n\n`;
+	}
+
+	if (member.overrides) {
+		return `*Overrides ${formatBase(member.overrides)}*\n\n`;
+	}
+
+	return "";
+}
+
 /**
  * Format a property as Markdown
  */
@@ -53,11 +126,20 @@ export function formatProperty(
 	let markdown = `<a id="${anchorId}"></a>\n\n`;
 	markdown += `#### ${prop.name}\n\n`;
 
+	markdown += formatHeritageNote(prop, options);
+	markdown += formatAccessorIndicator(prop.accessor);
 	markdown += formatDescription(prop.description);
+	markdown += formatDeprecation(prop.jsDoc);
 
 	// Property signature
 	markdown += formatCodeBlock(formatPropertyDeclaration(prop, options));
 
+	if (prop.jsDoc?.defaultValue) {
+		markdown += `Default: \`${prop.jsDoc.defaultValue}\`\n\n`;
+	}
+
+	markdown += formatTagSections(prop.jsDoc, 5, options);
+
 	return markdown;
 }
 
@@ -74,7 +156,16 @@ export function formatMethod(
 	let markdown = `<a id="${anchorId}"></a>\n\n`;
 	markdown += `#### ${method.name}\n\n`;
 
+	markdown += formatHeritageNote(method, options);
 	markdown += formatDescription(method.description);
+	markdown += formatDeprecation(method.jsDoc);
+
+	// Overloads replace the implementation signature
+	if (method.signatures && method.signatures.length > 0) {
+		markdown += formatOverloads(method, formatMethodSignature, 5, options);
+		markdown += formatTagSections(method.jsDoc, 5, options);
+		return markdown;
+	}
 
 	// Method signature
 	markdown += formatCodeBlock(formatMethodSignature(method));
@@ -87,7 +178,49 @@ export function formatMethod(
 
 	// Return type - use H5 for return section
 	markdown += "##### Returns\n\n";
-	markdown += `\`${method.returnType}\`\n\n`;
+	markdown += formatReturns(
+		method.returnType,
+		method.jsDoc,
+		method.returnTypeReferences,
+	);
+
+	markdown += formatTagSections(method.jsDoc, 5, options);
+
+	return markdown;
+}
+
+/**
+ * Format each overload signature of a function or method as its own section
+ */
+export function formatOverloads<T extends FunctionDoc | MethodDoc>(
+	item: T,
+	formatSignature: (item: T) => string,
+	headingLevel: number,
+	options: MarkdownOptions,
+): string {
+	const heading = "#".repeat(headingLevel);
+	const subHeading = "#".repeat(headingLevel + 1);
+	let markdown = "";
+
+	for (const [index, signature] of (item.signatures ?? []).entries()) {
+		markdown += `${heading} Overload ${index + 1}\n\n`;
+		markdown += formatDescription(signature.description);
+		markdown += formatDeprecation(signature.jsDoc);
+		markdown += formatCodeBlock(formatSignature({ ...item, ...signature }));
+
+		if (signature.parameters.length > 0) {
+			markdown += `${subHeading} Parameters\n\n`;
+			markdown += formatParameters(signature.parameters, options);
+		}
+
+		markdown += `${subHeading} Returns\n\n`;
+		markdown += formatReturns(
+			signature.returnType,
+			signature.jsDoc,
+			signature.returnTypeReferences,
+		);
+		markdown += formatTagSections(signature.jsDoc, headingLevel + 1, options);
+	}
 
 	return markdown;
 }
@@ -102,18 +235,20 @@ export function formatParameters(
 	let markdown = "";
 
 	for (const param of parameters) {
-		markdown += `- \`${param.name}`;
+		const name = param.isOptional ? `${param.name}?` : param.name;
+		const hasLinkedType = param.typeReferences?.some(
+			(reference) => reference.href,
+		);
 
-		if (param.isOptional) {
-			markdown += "?";
+		if (!options.includeTypes) {
+			markdown += `- \`${name}\``;
+		} else if (hasLinkedType) {
+			// Linked types are rendered outside the parameter's code span
+			markdown += `- \`${name}\`: ${formatType(param.type, param.typeReferences)}`;
+		} else {
+			markdown += `- \`${name}: ${param.type}\``;
 		}
 
-		if (options.includeTypes) {
-			markdown += `: ${param.type}`;
-		}
-
-		markdown += "`";
-
 		if (param.defaultValue) {
 			markdown += ` (default: \`${param.defaultValue}\`)`;
 		}
@@ -0,0 +1,97 @@
+import type {
+	JSDocInfo,
+	MarkdownOptions,
+	TypeReference,
+} from "../../parser/traversal";
+import { formatCodeBlock, formatType } from "./utils";
+
+/**
+ * Formats a deprecation notice if the item is deprecated
+ */
+export function formatDeprecation(jsDoc?: JSDocInfo): string {
+	if (jsDoc?.deprecated === undefined) {
+		return "";
+	}
+
+	return jsDoc.deprecated
+		? `> **Deprecated:** ${jsDoc.deprecated}\n\n`
+		: "> **Deprecated**\n\n";
+}
+
+/**
+ * Formats a return type with the `@returns` description if present
+ */
+export function formatReturns(
+	returnType: string,
+	jsDoc?: JSDocInfo,
+	references?: TypeReference[],
+): string {
+	const type = formatType(returnType, references);
+	return jsDoc?.returns ? `${type} - ${jsDoc.returns}\n\n` : `${type}\n\n`;
+}
+
+/**
+ * Formats the sections documented by block tags: type parameters, remarks,
+ * thrown errors, examples and related references
+ */
+export function formatTagSections(
+	jsDoc: JSDocInfo | undefined,
+	headingLevel: number,
+	options: MarkdownOptions,
+): string {
+	if (!jsDoc) {
+		return "";
+	}
+
+	const heading = "#".repeat(headingLevel);
+	let markdown = "";
+
+	if (jsDoc.typeParams) {
+		markdown += `${heading} Type Parameters\n\n`;
+		for (const typeParam of jsDoc.typeParams) {
+			markdown += typeParam.description
+				? `- \`${typeParam.name}\` - ${typeParam.description}\n`
+				: `- \`${typeParam.name}\`\n`;
+		}
+		markdown += "\n";
+	}
+
+	if (jsDoc.remarks) {
+		markdown += `${heading} Remarks\n\n${jsDoc.remarks}\n\n`;
+	}
+
+	if (jsDoc.throws) {
+		markdown += `${heading} Throws\n\n`;
+		for (const thrown of jsDoc.throws) {
+			const parts = [
+				thrown.type && `\`${thrown.type}\``,
+				thrown.description,
+			].filter(Boolean);
+			markdown += `- ${parts.join(" - ")}\n`;
+		}
+		markdown += "\n";
+	}
+
+	if (options.includeExamples && jsDoc.examples) {
+		markdown += `${heading} Examples\n\n`;
+		for (const example of jsDoc.examples) {
+			if (example.caption) {
+				markdown += `${example.caption}\n\n`;
+			}
+			markdown += formatCodeBlock(
+				`${example.code}\n`,
+				example.language ?? "typescript",
+			);
+		}
+	}
+
+	if (jsDoc.see) {
+		markdown += `${heading} See also\n\n`;
+		for (const reference of jsDoc.see) {
+			markdown += `- ${reference}\n`;
+		}
+		markdown += "\n";
+	}
+
+	return markdown;
+}
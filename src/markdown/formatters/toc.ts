@@ -3,33 +3,33 @@ import {
 	type DocItem,
 	DocItemKind,
 	type InterfaceDoc,
+	type NamespaceDoc,
+	getQualifiedName,
 } from "../../parser/traversal";
-import { getSlug } from "./utils";
+import { getSlug, sortItems } from "./utils";
 
 /**
- * Format a table of contents subitem section (properties or methods)
+ * An entry of a table of contents, linking to the section documenting an
+ * item unless it only groups its children
  */
-export function formatTocSubItems(
-	parentName: string,
-	items: { name: string }[],
-	sectionName: string,
-): string {
-	if (items.length === 0) {
-		return "";
-	}
+export interface TocEntry {
+	title: string;
+	href?: string;
+	children: TocEntry[];
+}
 
-	let toc = `  - ${sectionName}\n`;
-	for (const item of items) {
-		const itemSlug = getSlug(`${parentName}-${item.name}`);
-		toc += `    - [${item.name}](#${itemSlug})\n`;
-	}
-	return toc;
+/**
+ * The table of contents entries of one kind of item
+ */
+export interface TocSection {
+	heading: string;
+	entries: TocEntry[];
 }
 
 /**
  * Maps DocItemKind to a human-readable heading
  */
-function getKindHeading(kind: DocItemKind): string {
+export function getKindHeading(kind: DocItemKind): string {
 	switch (kind) {
 		case DocItemKind.Class:
 			return "Classes";
@@ -41,17 +41,25 @@ function getKindHeading(kind: DocItemKind): string {
 			return "Enums";
 		case DocItemKind.TypeAlias:
 			return "Type Aliases";
+		case DocItemKind.Variable:
+			return "Variables";
+		case DocItemKind.Namespace:
+			return "Namespaces";
 		default:
 			return "Other";
 	}
 }
 
 /**
- * Format a table of contents from documentation items
+ * Get the table of contents of documentation items, grouped by kind
+ * Entries link to sections of the current page unless `getPagePath` gives
+ * the page an item is rendered on
  */
-export function formatTableOfContents(items: DocItem[], depth: number): string {
-	let toc = "# Table of Contents\n\n";
-
+export function getTableOfContents(
+	items: DocItem[],
+	depth: number,
+	getPagePath?: (item: DocItem) => string,
+): TocSection[] {
 	// Group items by kind
 	const kindGroups = new Map<DocItemKind, DocItem[]>();
 
@@ -62,34 +70,31 @@ export function formatTableOfContents(items: DocItem[], depth: number): string {
 		kindGroups.get(item.kind)?.push(item);
 	}
 
-	// Generate TOC for each kind
-	for (const [kind, kindItems] of kindGroups.entries()) {
-		toc += `## ${getKindHeading(kind)}\n\n`;
-
-		for (const item of kindItems) {
-			const slug = getSlug(item.name);
-			toc += `- [${item.name}](#${slug})\n`;
-
-			// Add sub-items for classes and interfaces if depth > 1
-			if (depth > 1) {
-				if (kind === DocItemKind.Class) {
-					const classDoc = item as ClassDoc;
-					toc += formatTocSubItems(
-						item.name,
-						classDoc.properties,
-						"Properties",
-					);
-					toc += formatTocSubItems(item.name, classDoc.methods, "Methods");
-				} else if (kind === DocItemKind.Interface) {
-					const ifaceDoc = item as InterfaceDoc;
-					toc += formatTocSubItems(
-						item.name,
-						ifaceDoc.properties,
-						"Properties",
-					);
-					toc += formatTocSubItems(item.name, ifaceDoc.methods, "Methods");
-				}
-			}
+	return [...kindGroups.entries()].map(([kind, kindItems]) => ({
+		heading: getKindHeading(kind),
+		entries: kindItems.map((item) =>
+			getTocEntry(item, depth, 1, getPagePath?.(item) ?? ""),
+		),
+	}));
+}
+
+/**
+ * Format a table of contents from documentation items
+ * Entries link to sections of the current page unless `getPagePath` gives
+ * the page an item is rendered on
+ */
+export function formatTableOfContents(
+	items: DocItem[],
+	depth: number,
+	getPagePath?: (item: DocItem) => string,
+): string {
+	let toc = "# Table of Contents\n\n";
+
+	for (const section of getTableOfContents(items, depth, getPagePath)) {
+		toc += `## ${section.heading}\n\n`;
+
+		for (const entry of section.entries) {
+			toc += formatTocEntry(entry, "");
 		}
 
 		toc += "\n";
@@ -97,3 +102,67 @@ export function formatTableOfContents(items: DocItem[], depth: number): string {
 
 	return toc;
 }
+
+/**
+ * Get the table of contents entry of an item and its nested entries
+ * Nested entries are included while their level is within the depth, and
+ * link into the page the entry is rendered on
+ */
+function getTocEntry(
+	item: DocItem,
+	depth: number,
+	level: number,
+	pagePath: string,
+): TocEntry {
+	const qualifiedName = getQualifiedName(item);
+	const entry: TocEntry = {
+		title: qualifiedName,
+		href: `${pagePath}#${getSlug(qualifiedName)}`,
+		children: [],
+	};
+
+	if (depth <= level) {
+		return entry;
+	}
+
+	// Add sub-items for classes, interfaces and namespaces
+	if (item.kind === DocItemKind.Class || item.kind === DocItemKind.Interface) {
+		const container = item as ClassDoc | InterfaceDoc;
+		for (const [sectionName, members] of [
+			["Properties", container.properties],
+			["Methods", container.methods],
+		] as const) {
+			if (members.length > 0) {
+				entry.children.push({
+					title: sectionName,
+					children: members.map((member) => ({
+						title: member.name,
+						href: `${pagePath}#${getSlug(`${qualifiedName}-${member.name}`)}`,
+						children: [],
+					})),
+				});
+			}
+		}
+	} else if (item.kind === DocItemKind.Namespace) {
+		for (const member of sortItems((item as NamespaceDoc).members)) {
+			entry.children.push(getTocEntry(member, depth, level + 1, pagePath));
+		}
+	}
+
+	return entry;
+}
+
+/**
+ * Format a table of contents entry and its children as a nested list
+ */
+export function formatTocEntry(entry: TocEntry, indent: string): string {
+	let toc = entry.href
+		? `${indent}- [${entry.title}](${entry.href})\n`
+		: `${indent}- ${entry.title}\n`;
+
+	for (const child of entry.children) {
+		toc += formatTocEntry(child, `${indent}  `);
+	}
+
+	return toc;
+}
@@ -1,5 +1,26 @@
 import path from "node:path";
-import type { DocItem } from "../../parser/traversal";
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type MarkdownOptions,
+	type MemberVisibility,
+	type MethodDoc,
+	type NamespaceDoc,
+	type PropertyDoc,
+	type TypeReference,
+} from "../../parser/traversal";
+
+// Order in which item kinds are rendered
+const KIND_ORDER = [
+	DocItemKind.Class,
+	DocItemKind.Interface,
+	DocItemKind.Function,
+	DocItemKind.Variable,
+	DocItemKind.TypeAlias,
+	DocItemKind.Enum,
+	DocItemKind.Namespace,
+];
 
 /**
  * Creates anchor and header for a documentation item
@@ -17,16 +38,70 @@ export function formatDescription(description?: string): string {
 
 /**
  * Formats source location information
+ * The link is relative to the output file when its path is known
  */
-export function formatSourceLocation(location: DocItem["location"]): string {
-	return `### Source\n\n[${path.basename(location.filePath)}:${location.line}](${location.filePath}#L${location.line})\n\n`;
+export function formatSourceLocation(
+	location: DocItem["location"],
+	options?: MarkdownOptions,
+): string {
+	const target = options?.outputPath
+		? path
+				.relative(path.dirname(options.outputPath), location.filePath)
+				.split(path.sep)
+				.join("/")
+		: location.filePath;
+
+	return `### Source\n\n[${path.basename(location.filePath)}:${location.line}](${target}#L${location.line})\n\n`;
 }
 
 /**
  * Formats a code block with the provided code
  */
 export function formatCodeBlock(code: string, language = "typescript"): string {
-	return `\`\`\`${language}\n${code}\`\`\`\n\n`;
+	// The closing fence must start on a line of its own
+	const content = code.endsWith("\n") ? code : `${code}\n`;
+	return `\`\`\`${language}\n${content}\`\`\`\n\n`;
+}
+
+/**
+ * Formats a type as inline code, linking the documented symbols it references
+ * Linked names are split out of the code span since links cannot be nested
+ * inside one
+ */
+export function formatType(type: string, references?: TypeReference[]): string {
+	const hrefs = new Map(
+		(references ?? [])
+			.filter((reference) => reference.href)
+			.map((reference) => [reference.name, reference.href]),
+	);
+
+	if (hrefs.size === 0) {
+		return `\`${type}\``;
+	}
+
+	let markdown = "";
+	let code = "";
+
+	const flushCode = () => {
+		// Keep surrounding whitespace outside the span, where it is not trimmed
+		const [, leading, content, trailing] =
+			code.match(/^(\s*)(.*?)(\s*)$/s) ?? [];
+		markdown += content ? `${leading}\`${content}\`${trailing}` : code;
+		code = "";
+	};
+
+	for (const token of type.match(/[A-Za-z_$][\w$]*|[^A-Za-z_$]+/g) ?? []) {
+		const href = hrefs.get(token);
+		if (href) {
+			flushCode();
+			markdown += `[\`${token}\`](${href})`;
+		} else {
+			code += token;
+		}
+	}
+	flushCode();
+
+	return markdown;
 }
 
 /**
@@ -59,3 +134,61 @@ export function getSlug(text: string): string {
 		.replace(/\s+/g, "-")
 		.replace(/-+/g, "-");
 }
+
+/**
+ * Sort documentation items by kind and then by name
+ */
+export function sortItems<T extends DocItem>(items: T[]): T[] {
+	return [...items].sort((a, b) => {
+		// Sort by kind first
+		const aKindIndex = KIND_ORDER.indexOf(a.kind);
+		const bKindIndex = KIND_ORDER.indexOf(b.kind);
+
+		if (aKindIndex !== bKindIndex) {
+			return aKindIndex - bKindIndex;
+		}
+
+		// Then sort by name
+		return a.name.localeCompare(b.name);
+	});
+}
+
+/**
+ * Remove class members whose visibility is not listed, recursing into
+ * namespaces; items are returned unchanged when no visibility is given
+ */
+export function filterItemsByVisibility(
+	items: DocItem[],
+	visibility?: MemberVisibility[],
+): DocItem[] {
+	if (!visibility) {
+		return items;
+	}
+
+	const isVisible = (member: PropertyDoc | MethodDoc) =>
+		visibility.includes(member.visibility ?? "public");
+
+	return items.map((item) => {
+		if (item.kind === DocItemKind.Class) {
+			const cls = item as ClassDoc;
+			return {
+				...cls,
+				properties: cls.properties.filter(isVisible),
+				methods: cls.methods.filter(isVisible),
+				constructors: cls.constructors.filter(isVisible),
+				inheritedProperties: cls.inheritedProperties?.filter(isVisible),
+				inheritedMethods: cls.inheritedMethods?.filter(isVisible),
+			} as ClassDoc;
+		}
+
+		if (item.kind === DocItemKind.Namespace) {
+			const namespace = item as NamespaceDoc;
+			return {
+				...namespace,
+				members: filterItemsByVisibility(namespace.members, visibility),
+			} as NamespaceDoc;
+		}
+
+		return item;
+	});
+}
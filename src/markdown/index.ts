@@ -1,2 +1,3 @@
 export * from "./formatter";
+export * from "./links";
 export * from "./writer";
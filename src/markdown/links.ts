@@ -0,0 +1,522 @@
+import path from "node:path";
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type EnumDoc,
+	type FunctionDoc,
+	type InterfaceDoc,
+	type JSDocInfo,
+	type MethodDoc,
+	type NamespaceDoc,
+	type ParameterDoc,
+	type PropertyDoc,
+	type SignatureDoc,
+	type TypeReference,
+	type VariableDoc,
+	getQualifiedName,
+} from "../parser/traversal";
+import { getSlug } from "./formatters";
+
+// Matches {@link target}, {@link target | label} and {@link target label},
+// including the {@linkcode} and {@linkplain} variants
+const INLINE_LINK_REGEX =
+	/\{@(link|linkcode|linkplain)\s+([^\s|}]+)(?:\s*\|\s*|\s+)?([^}]*)\}/g;
+
+// Matches a `@see` reference that starts with a symbol name
+const SEE_SYMBOL_REGEX = /^([A-Za-z_$][\w$]*(?:[.#][\w$]+)*)(\(\))?(\s.*)?$/s;
+
+// Matches absolute URLs, which are linked as they are
+const URL_REGEX = /^[a-z][a-z\d+.-]*:\/\//i;
+
+/**
+ * Where a documented symbol is rendered
+ */
+export interface SymbolTarget {
+	/**
+	 * Path of the output file the symbol is rendered in
+	 */
+	outputPath: string;
+	/**
+	 * Anchor of the symbol's section within the output file
+	 */
+	anchor: string;
+}
+
+/**
+ * Documented symbols of a run
+ */
+export interface SymbolTable {
+	/**
+	 * Symbols by qualified name, e.g. `Foo`, `Foo.bar` or `NS.Foo`
+	 */
+	names: Map<string, SymbolTarget>;
+	/**
+	 * Symbols by declaration location, as `filePath:line`
+	 */
+	locations: Map<string, SymbolTarget>;
+}
+
+/**
+ * A reference that could not be resolved to a documented symbol
+ */
+export interface UnresolvedLink {
+	target: string;
+	location: DocItem["location"];
+}
+
+/**
+ * Context for resolving the references in the items of one output file
+ */
+export interface LinkContext {
+	/**
+	 * Symbols to link to; references are rendered as plain text when unset
+	 */
+	symbols?: SymbolTable;
+	/**
+	 * Path of the output file the references are rendered in
+	 */
+	outputPath: string;
+	/**
+	 * Called for each reference that cannot be resolved
+	 */
+	onUnresolved?: (link: UnresolvedLink) => void;
+}
+
+/**
+ * Build a symbol table from doc items grouped by output file path
+ */
+export function buildSymbolTable(
+	outputGroups: Map<string, DocItem[]>,
+): SymbolTable {
+	const symbols: SymbolTable = { names: new Map(), locations: new Map() };
+
+	const register = (name: string, target: SymbolTarget) => {
+		if (!symbols.names.has(name)) {
+			symbols.names.set(name, target);
+		}
+	};
+
+	const registerItem = (item: DocItem, outputPath: string) => {
+		const qualifiedName = getQualifiedName(item);
+		const target = { outputPath, anchor: getSlug(qualifiedName) };
+
+		register(qualifiedName, target);
+		symbols.locations.set(getLocationKey(item.location), target);
+
+		if (
+			item.kind === DocItemKind.Class ||
+			item.kind === DocItemKind.Interface
+		) {
+			const container = item as ClassDoc | InterfaceDoc;
+			const members = [
+				...container.properties,
+				...container.methods,
+				...("constructors" in container ? container.constructors : []),
+			];
+
+			for (const member of members) {
+				register(`${qualifiedName}.${member.name}`, {
+					outputPath,
+					anchor: getSlug(`${qualifiedName}-${member.name}`),
+				});
+			}
+		}
+
+		if (item.kind === DocItemKind.Enum) {
+			// Enum members have no anchors of their own
+			for (const member of (item as EnumDoc).members) {
+				register(`${qualifiedName}.${member.name}`, target);
+			}
+		}
+
+		if (item.kind === DocItemKind.Namespace) {
+			for (const member of (item as NamespaceDoc).members) {
+				registerItem(member, outputPath);
+			}
+		}
+	};
+
+	for (const [outputPath, items] of outputGroups.entries()) {
+		for (const item of items) {
+			registerItem(item, outputPath);
+		}
+	}
+
+	return symbols;
+}
+
+/**
+ * Find a symbol, trying the scopes of the referencing item from the
+ * innermost outwards before the reference as written
+ */
+function lookupSymbol(
+	symbols: SymbolTable,
+	reference: string,
+	scopes: string[],
+): SymbolTarget | undefined {
+	// JSDoc also writes members as Foo#bar and methods as Foo.bar()
+	const name = reference.replace(/#/g, ".").replace(/\(\)$/, "");
+
+	for (const scope of scopes) {
+		const target = symbols.names.get(`${scope}.${name}`);
+		if (target) {
+			return target;
+		}
+	}
+
+	return symbols.names.get(name);
+}
+
+/**
+ * Create the key a symbol is found by from the location of its declaration
+ */
+function getLocationKey(location: DocItem["location"]): string {
+	return `${location.filePath}:${location.line}`;
+}
+
+/**
+ * Set links on the type references of documented symbols; references to
+ * symbols that are not documented are left unlinked
+ */
+function resolveTypeReferences(
+	references: TypeReference[] | undefined,
+	context: LinkContext,
+): TypeReference[] | undefined {
+	const { symbols } = context;
+
+	if (!references || !symbols) {
+		return references;
+	}
+
+	return references.map((reference) => {
+		const target = symbols.locations.get(getLocationKey(reference));
+		return target
+			? { ...reference, href: formatSymbolHref(target, context) }
+			: reference;
+	});
+}
+
+/**
+ * Set the link on a single type reference
+ */
+function resolveTypeReference(
+	reference: TypeReference | undefined,
+	context: LinkContext,
+): TypeReference | undefined {
+	return reference && resolveTypeReferences([reference], context)?.[0];
+}
+
+/**
+ * Create the URL of a symbol's section relative to the output file of the
+ * context
+ */
+export function formatSymbolHref(
+	target: SymbolTarget,
+	context: LinkContext,
+): string {
+	if (target.outputPath === context.outputPath) {
+		return `#${target.anchor}`;
+	}
+
+	const relativePath = path
+		.relative(path.dirname(context.outputPath), target.outputPath)
+		.split(path.sep)
+		.join("/");
+
+	return `${relativePath}#${target.anchor}`;
+}
+
+/**
+ * Create a Markdown link to a symbol from the output file of the context
+ */
+function formatSymbolLink(
+	label: string,
+	target: SymbolTarget,
+	context: LinkContext,
+): string {
+	return `[${label}](${formatSymbolHref(target, context)})`;
+}
+
+/**
+ * Replace the inline `{@link}` tags in text with Markdown links
+ */
+export function resolveInlineLinks(
+	text: string,
+	context: LinkContext,
+	location: DocItem["location"],
+	scopes: string[] = [],
+): string {
+	return text.replace(
+		INLINE_LINK_REGEX,
+		(_match, variant: string, reference: string, text: string) => {
+			const label =
+				text.trim() ||
+				(variant === "linkcode" ? `\`${reference}\`` : reference);
+
+			if (URL_REGEX.test(reference)) {
+				return `[${label}](${reference})`;
+			}
+
+			if (!context.symbols) {
+				return label;
+			}
+
+			const target = lookupSymbol(context.symbols, reference, scopes);
+			if (!target) {
+				context.onUnresolved?.({ target: reference, location });
+				return label;
+			}
+
+			return formatSymbolLink(label, target, context);
+		},
+	);
+}
+
+/**
+ * Replace the inline `{@link}` tags in text with their label, for plain
+ * text such as a search index
+ */
+export function stripInlineLinks(text: string): string {
+	return text.replace(
+		INLINE_LINK_REGEX,
+		(_match, _variant: string, reference: string, text: string) =>
+			text.trim() || reference,
+	);
+}
+
+/**
+ * Resolve a `@see` reference, which may start with a bare symbol name
+ */
+export function resolveSeeReference(
+	text: string,
+	context: LinkContext,
+	location: DocItem["location"],
+	scopes: string[] = [],
+): string {
+	const match = text.match(SEE_SYMBOL_REGEX);
+
+	if (!match || !context.symbols) {
+		return resolveInlineLinks(text, context, location, scopes);
+	}
+
+	const [, reference, call = "", rest = ""] = match;
+	const target = lookupSymbol(context.symbols, reference, scopes);
+
+	if (!target) {
+		// Only a lone name is clearly a reference; anything else may be prose
+		if (!rest) {
+			context.onUnresolved?.({ target: reference, location });
+		}
+		return resolveInlineLinks(text, context, location, scopes);
+	}
+
+	const link = formatSymbolLink(`${reference}${call}`, target, context);
+	return `${link}${resolveInlineLinks(rest, context, location, scopes)}`;
+}
+
+/**
+ * Resolve the references in the descriptions and tags of doc items, and the
+ * documented symbols their parameter and return types refer to, returning
+ * copies of the items
+ * Each unresolved reference is reported once per comment, even though
+ * descriptions are held both on items and in their JSDoc information
+ */
+export function resolveItemLinks(
+	items: DocItem[],
+	context: LinkContext,
+): DocItem[] {
+	const reported = new Set<string>();
+	const dedupedContext: LinkContext = {
+		...context,
+		onUnresolved: (link) => {
+			const key = `${link.location.filePath}:${link.location.line}:${link.target}`;
+			if (!reported.has(key)) {
+				reported.add(key);
+				context.onUnresolved?.(link);
+			}
+		},
+	};
+
+	return items.map((item) =>
+		resolveLinksInItem(item, dedupedContext, getParentScopes(item)),
+	);
+}
+
+/**
+ * Get the qualified names of the namespaces enclosing an item, innermost first
+ */
+function getParentScopes(item: DocItem): string[] {
+	const parts = item.parent ? item.parent.split(".") : [];
+	return parts.map((_, index) =>
+		parts.slice(0, parts.length - index).join("."),
+	);
+}
+
+/**
+ * Resolve the references in an item and its members
+ * Names are looked up in each scope, so members and namespace siblings can
+ * be referenced without qualification
+ */
+function resolveLinksInItem<T extends DocItem>(
+	item: T,
+	context: LinkContext,
+	parentScopes: string[],
+): T {
+	// Classes and interfaces are a scope for the references to their members
+	const isContainer =
+		item.kind === DocItemKind.Class || item.kind === DocItemKind.Interface;
+	const scopes = isContainer
+		? [getQualifiedName(item), ...parentScopes]
+		: parentScopes;
+	const resolve = (text: string | undefined, location = item.location) =>
+		text === undefined
+			? undefined
+			: resolveInlineLinks(text, context, location, scopes);
+
+	const resolved: DocItem = {
+		...item,
+		description: resolve(item.description),
+		jsDoc: resolveJSDocLinks(item.jsDoc, context, item.location, scopes),
+	};
+
+	const resolveParameters = (
+		parameters: ParameterDoc[],
+		location = item.location,
+	) =>
+		parameters.map((param) => ({
+			...param,
+			description: resolve(param.description, location),
+			typeReferences: resolveTypeReferences(param.typeReferences, context),
+		}));
+
+	const resolveSignatures = (signatures?: SignatureDoc[]) =>
+		signatures?.map((signature) => ({
+			...signature,
+			description: resolve(signature.description, signature.location),
+			jsDoc: resolveJSDocLinks(
+				signature.jsDoc,
+				context,
+				signature.location,
+				scopes,
+			),
+			parameters: resolveParameters(signature.parameters, signature.location),
+			returnTypeReferences: resolveTypeReferences(
+				signature.returnTypeReferences,
+				context,
+			),
+		}));
+
+	switch (item.kind) {
+		case DocItemKind.Function:
+		case DocItemKind.Method: {
+			const callable = resolved as FunctionDoc | MethodDoc;
+			callable.parameters = resolveParameters(callable.parameters);
+			callable.signatures = resolveSignatures(callable.signatures);
+			callable.returnTypeReferences = resolveTypeReferences(
+				callable.returnTypeReferences,
+				context,
+			);
+			break;
+		}
+		case DocItemKind.Variable: {
+			const variable = resolved as VariableDoc;
+			if (variable.parameters) {
+				variable.parameters = resolveParameters(variable.parameters);
+			}
+			variable.returnTypeReferences = resolveTypeReferences(
+				variable.returnTypeReferences,
+				context,
+			);
+			break;
+		}
+		case DocItemKind.Class:
+		case DocItemKind.Interface: {
+			const container = resolved as ClassDoc | InterfaceDoc;
+			container.properties = container.properties.map((prop) =>
+				resolveLinksInItem(prop, context, scopes),
+			);
+			container.methods = container.methods.map((method) =>
+				resolveLinksInItem(method, context, scopes),
+			);
+			container.inheritedProperties = container.inheritedProperties?.map(
+				(prop) => resolveLinksInItem(prop, context, scopes),
+			);
+			container.inheritedMethods = container.inheritedMethods?.map((method) =>
+				resolveLinksInItem(method, context, scopes),
+			);
+			if (container.kind === DocItemKind.Class) {
+				container.constructors = container.constructors.map((ctor) =>
+					resolveLinksInItem(ctor, context, scopes),
+				);
+			}
+			break;
+		}
+		case DocItemKind.Enum: {
+			const enumDoc = resolved as EnumDoc;
+			enumDoc.members = enumDoc.members.map((member) => ({
+				...member,
+				description: resolve(member.description),
+			}));
+			break;
+		}
+		case DocItemKind.Namespace: {
+			const namespace = resolved as NamespaceDoc;
+			namespace.members = namespace.members.map((member) =>
+				resolveLinksInItem(member, context, getParentScopes(member)),
+			);
+			break;
+		}
+	}
+
+	// Inherited and overriding members link to their base declarations
+	if (item.kind === DocItemKind.Property || item.kind === DocItemKind.Method) {
+		const member = resolved as PropertyDoc | MethodDoc;
+		member.inheritedFrom = resolveTypeReference(member.inheritedFrom, context);
+		member.overrides = resolveTypeReference(member.overrides, context);
+	}
+
+	return resolved as T;
+}
+
+/**
+ * Resolve the references in the text of JSDoc tags
+ */
+function resolveJSDocLinks(
+	jsDoc: JSDocInfo | undefined,
+	context: LinkContext,
+	location: DocItem["location"],
+	scopes: string[],
+): JSDocInfo | undefined {
+	if (!jsDoc) {
+		return undefined;
+	}
+
+	const resolve = (text: string) =>
+		resolveInlineLinks(text, context, location, scopes);
+	const resolveOptional = (text?: string) =>
+		text === undefined ? undefined : resolve(text);
+
+	return {
+		...jsDoc,
+		description: resolveOptional(jsDoc.description),
+		returns: resolveOptional(jsDoc.returns),
+		deprecated: resolveOptional(jsDoc.deprecated),
+		remarks: resolveOptional(jsDoc.remarks),
+		throws: jsDoc.throws?.map((thrown) => ({
+			...thrown,
+			description: resolve(thrown.description),
+		})),
+		typeParams: jsDoc.typeParams?.map((typeParam) => ({
+			...typeParam,
+			description: resolve(typeParam.description),
+		})),
+		examples: jsDoc.examples?.map((example) => ({
+			...example,
+			caption: resolveOptional(example.caption),
+		})),
+		see: jsDoc.see?.map((reference) =>
+			resolveSeeReference(reference, context, location, scopes),
+		),
+	};
+}
@@ -0,0 +1,129 @@
+import fs from "node:fs";
+import path from "node:path";
+import { type Result, err, ok } from "neverthrow";
+import type { ParserError } from "./index";
+
+// Extensions that build output or declaration files commonly use
+const OUTPUT_EXTENSION_REGEX =
+	/\.(d\.ts|d\.mts|d\.cts|js|mjs|cjs|ts|tsx|mts|cts)$/;
+
+// Top-level directories that usually hold build output instead of sources
+const OUTPUT_DIRECTORY_REGEX = /^(dist|lib|build|out|esm|cjs)(?=\/)/;
+
+// Source extensions to try, in order of preference
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".d.ts"];
+
+/**
+ * Collect every file path referenced by a package.json
+ * `types`/`typings`, `exports` and `main` field
+ */
+export function collectPackageEntryPoints(
+	packageJson: Record<string, unknown>,
+): string[] {
+	const targets: string[] = [];
+
+	const collect = (value: unknown) => {
+		if (typeof value === "string") {
+			// Wildcard subpath patterns cannot be mapped to a single file
+			if (!value.includes("*")) {
+				targets.push(value);
+			}
+		} else if (Array.isArray(value)) {
+			value.forEach(collect);
+		} else if (value && typeof value === "object") {
+			Object.values(value).forEach(collect);
+		}
+	};
+
+	collect(packageJson.types);
+	collect(packageJson.typings);
+	collect(packageJson.exports);
+	collect(packageJson.main);
+
+	return [...new Set(targets)];
+}
+
+/**
+ * Map a build output path (e.g. `./dist/index.d.ts`) back to the TypeScript
+ * source file it was compiled from, if one exists
+ */
+export function resolveSourcePath(
+	target: string,
+	baseDir: string,
+): string | undefined {
+	const relativePath = path.normalize(target).replace(/\\/g, "/");
+	const stripped = relativePath.replace(OUTPUT_EXTENSION_REGEX, "");
+	const bases = [stripped];
+
+	if (OUTPUT_DIRECTORY_REGEX.test(stripped)) {
+		bases.push(stripped.replace(OUTPUT_DIRECTORY_REGEX, "src"));
+	}
+
+	for (const base of bases) {
+		for (const extension of SOURCE_EXTENSIONS) {
+			const candidate = path.resolve(baseDir, `${base}${extension}`);
+			if (fs.existsSync(candidate)) {
+				return candidate;
+			}
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Resolve configured entry points into absolute source file paths
+ *
+ * Entries may point at TypeScript files directly or at a `package.json`,
+ * in which case its `types`, `exports` and `main` fields are followed.
+ */
+export function resolveEntryPoints(
+	entryPoints: string[],
+	cwd: string,
+): Result<string[], ParserError> {
+	const resolved = new Set<string>();
+
+	for (const entryPoint of entryPoints) {
+		const entryPath = path.resolve(cwd, entryPoint);
+
+		if (path.basename(entryPath) !== "package.json") {
+			const sourcePath = fs.existsSync(entryPath)
+				? entryPath
+				: resolveSourcePath(entryPoint, cwd);
+
+			if (!sourcePath) {
+				return err({ type: "entry_point_not_found", entryPoint });
+			}
+
+			resolved.add(sourcePath);
+			continue;
+		}
+
+		let packageJson: Record<string, unknown>;
+		try {
+			packageJson = JSON.parse(fs.readFileSync(entryPath, "utf8"));
+		} catch (error) {
+			return err({
+				type: "typescript_error",
+				details: `Unable to read ${entryPath}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			});
+		}
+
+		const packageDir = path.dirname(entryPath);
+		const sourcePaths = collectPackageEntryPoints(packageJson)
+			.map((target) => resolveSourcePath(target, packageDir))
+			.filter((sourcePath): sourcePath is string => sourcePath !== undefined);
+
+		if (sourcePaths.length === 0) {
+			return err({ type: "entry_point_not_found", entryPoint });
+		}
+
+		for (const sourcePath of sourcePaths) {
+			resolved.add(sourcePath);
+		}
+	}
+
+	return ok([...resolved]);
+}
@@ -1,13 +1,21 @@
-import type {
-	ClassDeclaration,
-	ConstructorDeclaration,
-	EnumDeclaration,
-	FunctionDeclaration,
-	InterfaceDeclaration,
-	MethodDeclaration,
-	PropertyDeclaration,
-	SourceFile,
-	TypeAliasDeclaration,
+import {
+	type ClassDeclaration,
+	type ConstructorDeclaration,
+	type EnumDeclaration,
+	type FunctionDeclaration,
+	type GetAccessorDeclaration,
+	type InterfaceDeclaration,
+	type MethodDeclaration,
+	type MethodSignature,
+	Node,
+	type PropertyDeclaration,
+	Scope,
+	type SetAccessorDeclaration,
+	type SourceFile,
+	SyntaxKind,
+	type TypeAliasDeclaration,
+	type VariableDeclaration,
+	VariableDeclarationKind,
 } from "ts-morph";
 import {
 	type ClassDoc,
@@ -15,12 +23,17 @@ import {
 	type EnumDoc,
 	type FunctionDoc,
 	type InterfaceDoc,
+	type MemberVisibility,
 	type MethodDoc,
 	type PropertyDoc,
+	type SignatureDoc,
 	type TypeAliasDoc,
+	type TypeReference,
+	type VariableDoc,
 } from "../models";
-import { extractJSDocInfo } from "./jsdoc";
+import { buildJSDocInfo, extractJSDocInfo, mergeJSDocInfo } from "./jsdoc";
 import { extractParametersWithJSDoc } from "./parameters";
+import { extractTypeReferences } from "./types";
 
 /**
  * Creates a location object for a node
@@ -35,6 +48,101 @@ export function createLocationInfo(node: {
 	};
 }
 
+/**
+ * Get the visibility of a class member from its access modifier or
+ * ECMAScript private name
+ */
+export function getMemberVisibility(
+	member:
+		| PropertyDeclaration
+		| MethodDeclaration
+		| GetAccessorDeclaration
+		| SetAccessorDeclaration
+		| ConstructorDeclaration,
+): MemberVisibility {
+	if (
+		!Node.isConstructorDeclaration(member) &&
+		Node.isPrivateIdentifier(member.getNameNode())
+	) {
+		return "#private";
+	}
+
+	switch (member.getScope()) {
+		case Scope.Private:
+			return "private";
+		case Scope.Protected:
+			return "protected";
+		default:
+			return "public";
+	}
+}
+
+/**
+ * Declarations that can have overload signatures
+ */
+type OverloadableDeclaration =
+	| FunctionDeclaration
+	| MethodDeclaration
+	| ConstructorDeclaration;
+
+/**
+ * Check whether a declaration is an overload that is already documented
+ * through another declaration of the same overload group
+ *
+ * Overloads with an implementation are documented through the implementation;
+ * ambient overloads without one are documented through the first overload.
+ */
+export function isRedundantOverload(decl: OverloadableDeclaration): boolean {
+	if (!decl.isOverload()) {
+		return false;
+	}
+
+	return (
+		decl.getImplementation() !== undefined || decl.getOverloads()[0] !== decl
+	);
+}
+
+/**
+ * Extract documentation for a single call signature
+ */
+export function extractSignatureDoc(
+	decl: OverloadableDeclaration | MethodSignature,
+): SignatureDoc {
+	const jsDocs = decl.getJsDocs();
+	const jsDocInfo = extractJSDocInfo(jsDocs);
+
+	return {
+		description: jsDocInfo?.description,
+		location: createLocationInfo(decl),
+		jsDoc: jsDocInfo,
+		parameters: extractParametersWithJSDoc(
+			decl.getParameters(),
+			jsDocs,
+			jsDocInfo,
+		),
+		returnType: decl.getReturnType().getText(decl),
+		returnTypeReferences: extractTypeReferences(decl.getReturnType()),
+		typeParameters: decl.getTypeParameters().map((tp) => tp.getText()),
+	};
+}
+
+/**
+ * Extract the overload signatures of a declaration
+ * Returns undefined when the declaration is not overloaded
+ */
+function extractOverloadSignatures(
+	decl: OverloadableDeclaration,
+): SignatureDoc[] | undefined {
+	const overloads: OverloadableDeclaration[] = decl.getOverloads();
+
+	// Ambient overload groups include the declaration itself
+	const isOverloaded = decl.isImplementation()
+		? overloads.length > 0
+		: overloads.length > 1;
+
+	return isOverloaded ? overloads.map(extractSignatureDoc) : undefined;
+}
+
 /**
  * Extract documentation for a function declaration
  */
@@ -50,15 +158,19 @@ export function extractFunctionDoc(func: FunctionDeclaration): FunctionDoc {
 		jsDocInfo,
 	);
 
+	const signatures = extractOverloadSignatures(func);
+
 	return {
 		name: func.getName() || "anonymous",
 		kind: DocItemKind.Function,
-		description: func.getJsDocs()?.[0]?.getDescription()?.trim(),
+		description: jsDocInfo?.description ?? signatures?.[0]?.description,
 		location: createLocationInfo(func),
 		jsDoc: jsDocInfo,
 		parameters,
-		returnType: func.getReturnType().getText(),
+		returnType: func.getReturnType().getText(func),
+		returnTypeReferences: extractTypeReferences(func.getReturnType()),
 		typeParameters: func.getTypeParameters().map((tp) => tp.getText()),
+		signatures,
 	} as FunctionDoc;
 }
 
@@ -66,19 +178,84 @@ export function extractFunctionDoc(func: FunctionDeclaration): FunctionDoc {
  * Extract documentation for a class property
  */
 export function extractPropertyDoc(prop: PropertyDeclaration): PropertyDoc {
+	const jsDocInfo = extractJSDocInfo(prop.getJsDocs());
+
 	return {
 		name: prop.getName(),
 		kind: DocItemKind.Property,
-		description: prop.getJsDocs()?.[0]?.getDescription()?.trim(),
+		description: jsDocInfo?.description,
 		location: createLocationInfo(prop),
-		jsDoc: extractJSDocInfo(prop.getJsDocs()),
-		type: prop.getType().getText(),
+		jsDoc: jsDocInfo,
+		type: prop.getType().getText(prop),
 		isStatic: prop.isStatic(),
 		isReadonly: prop.isReadonly(),
 		isOptional: prop.hasQuestionToken(),
+		visibility: getMemberVisibility(prop),
+		isAbstract: prop.isAbstract(),
+		isOverride: prop.hasOverrideKeyword(),
 	} as PropertyDoc;
 }
 
+/**
+ * Extract documentation for get/set accessors as properties
+ * Getter/setter pairs are merged into a single property, which is read-only
+ * when there is no setter
+ */
+export function extractAccessorDocs(
+	getters: GetAccessorDeclaration[],
+	setters: SetAccessorDeclaration[],
+): PropertyDoc[] {
+	const properties: PropertyDoc[] = [];
+
+	for (const getter of getters) {
+		const setter = getter.getSetAccessor();
+		const getterJsDoc = extractJSDocInfo(getter.getJsDocs());
+		const setterJsDoc = extractJSDocInfo(setter?.getJsDocs());
+
+		properties.push({
+			name: getter.getName(),
+			kind: DocItemKind.Property,
+			description: getterJsDoc?.description || setterJsDoc?.description,
+			location: createLocationInfo(getter),
+			jsDoc: mergeJSDocInfo(getterJsDoc, setterJsDoc),
+			type: getter.getReturnType().getText(getter),
+			isStatic: getter.isStatic(),
+			isReadonly: setter === undefined,
+			isOptional: false,
+			visibility: getMemberVisibility(getter),
+			isAbstract: getter.isAbstract(),
+			isOverride: getter.hasModifier(SyntaxKind.OverrideKeyword),
+			accessor: { hasGetter: true, hasSetter: setter !== undefined },
+		} as PropertyDoc);
+	}
+
+	// Setters without a matching getter are write-only properties
+	for (const setter of setters) {
+		if (setter.getGetAccessor()) {
+			continue;
+		}
+
+		const setterJsDoc = extractJSDocInfo(setter.getJsDocs());
+		properties.push({
+			name: setter.getName(),
+			kind: DocItemKind.Property,
+			description: setterJsDoc?.description,
+			location: createLocationInfo(setter),
+			jsDoc: setterJsDoc,
+			type: setter.getParameters()[0]?.getType().getText(setter) ?? "any",
+			isStatic: setter.isStatic(),
+			isReadonly: false,
+			isOptional: false,
+			visibility: getMemberVisibility(setter),
+			isAbstract: setter.isAbstract(),
+			isOverride: setter.hasModifier(SyntaxKind.OverrideKeyword),
+			accessor: { hasGetter: false, hasSetter: true },
+		} as PropertyDoc);
+	}
+
+	return properties;
+}
+
 /**
  * Extract documentation for a class method
  */
@@ -94,17 +271,24 @@ export function extractMethodDoc(method: MethodDeclaration): MethodDoc {
 		methodJsDocInfo,
 	);
 
+	const signatures = extractOverloadSignatures(method);
+
 	return {
 		name: method.getName(),
 		kind: DocItemKind.Method,
-		description: method.getJsDocs()?.[0]?.getDescription()?.trim(),
+		description: methodJsDocInfo?.description ?? signatures?.[0]?.description,
 		location: createLocationInfo(method),
 		jsDoc: methodJsDocInfo,
 		parameters,
-		returnType: method.getReturnType().getText(),
+		returnType: method.getReturnType().getText(method),
+		returnTypeReferences: extractTypeReferences(method.getReturnType()),
 		isStatic: method.isStatic(),
 		isAsync: method.isAsync(),
+		visibility: getMemberVisibility(method),
+		isAbstract: method.isAbstract(),
+		isOverride: method.hasOverrideKeyword(),
 		typeParameters: method.getTypeParameters().map((tp) => tp.getText()),
+		signatures,
 	} as MethodDoc;
 }
 
@@ -126,16 +310,24 @@ export function extractConstructorDoc(
 		ctorJsDocInfo,
 	);
 
+	// Constructor signatures always return the class itself
+	const signatures = extractOverloadSignatures(ctor)?.map((signature) => ({
+		...signature,
+		returnType: className,
+	}));
+
 	return {
 		name: "constructor",
 		kind: DocItemKind.Method,
-		description: ctor.getJsDocs()?.[0]?.getDescription()?.trim(),
+		description: ctorJsDocInfo?.description ?? signatures?.[0]?.description,
 		location: createLocationInfo(ctor),
 		jsDoc: ctorJsDocInfo,
 		parameters,
 		returnType: className,
 		isStatic: false,
 		isAsync: false,
+		visibility: getMemberVisibility(ctor),
+		signatures,
 	} as MethodDoc;
 }
 
@@ -143,19 +335,21 @@ export function extractConstructorDoc(
  * Extract documentation for a class declaration
  */
 export function extractClassDoc(cls: ClassDeclaration): ClassDoc {
-	const properties = cls.getProperties().map(extractPropertyDoc);
-	const methods = cls.getMethods().map(extractMethodDoc);
+	const { properties, methods } = extractDeclaredMembers(cls);
 	const className = cls.getName();
 	const constructors = cls
 		.getConstructors()
+		.filter((ctor) => !isRedundantOverload(ctor))
 		.map((ctor) => extractConstructorDoc(ctor, className || "Unknown"));
 
-	return {
+	const jsDocInfo = extractJSDocInfo(cls.getJsDocs());
+
+	const classDoc = {
 		name: cls.getName(),
 		kind: DocItemKind.Class,
-		description: cls.getJsDocs()?.[0]?.getDescription()?.trim(),
+		description: jsDocInfo?.description,
 		location: createLocationInfo(cls),
-		jsDoc: extractJSDocInfo(cls.getJsDocs()),
+		jsDoc: jsDocInfo,
 		properties,
 		methods,
 		constructors,
@@ -163,6 +357,256 @@ export function extractClassDoc(cls: ClassDeclaration): ClassDoc {
 		implements: cls.getImplements().map((impl) => impl.getText()),
 		typeParameters: cls.getTypeParameters().map((tp) => tp.getText()),
 	} as ClassDoc;
+
+	return applyHeritage(classDoc, cls);
+}
+
+/**
+ * Classes and interfaces, which can inherit members
+ */
+type HeritageDeclaration = ClassDeclaration | InterfaceDeclaration;
+
+/**
+ * Extract the properties and methods a class or interface declares itself
+ */
+function extractDeclaredMembers(decl: HeritageDeclaration): {
+	properties: PropertyDoc[];
+	methods: MethodDoc[];
+} {
+	if (Node.isInterfaceDeclaration(decl)) {
+		return {
+			properties: extractInterfaceProperties(decl),
+			methods: extractInterfaceMethods(decl),
+		};
+	}
+
+	return {
+		properties: [
+			...decl.getProperties().map(extractPropertyDoc),
+			...extractAccessorDocs(decl.getGetAccessors(), decl.getSetAccessors()),
+		],
+		methods: decl
+			.getMethods()
+			.filter((method) => !isRedundantOverload(method))
+			.map(extractMethodDoc),
+	};
+}
+
+/**
+ * Get the classes and interfaces a declaration inherits from, nearest first
+ * Interfaces implemented by classes are only included when asked for, as
+ * their members are redeclared rather than inherited
+ */
+function getBaseDeclarations(
+	decl: HeritageDeclaration,
+	includeImplemented: boolean,
+): HeritageDeclaration[] {
+	const bases: HeritageDeclaration[] = [];
+	const queue: HeritageDeclaration[] = [decl];
+
+	for (let index = 0; index < queue.length; index++) {
+		const current = queue[index];
+		const candidates: Node[] = [];
+
+		if (Node.isClassDeclaration(current)) {
+			const baseClass = current.getBaseClass();
+			if (baseClass) {
+				candidates.push(baseClass);
+			}
+
+			if (includeImplemented) {
+				for (const impl of current.getImplements()) {
+					candidates.push(
+						...(impl.getType().getSymbol()?.getDeclarations() ?? []),
+					);
+				}
+			}
+		} else {
+			candidates.push(...current.getBaseDeclarations());
+		}
+
+		for (const candidate of candidates) {
+			if (
+				(Node.isClassDeclaration(candidate) ||
+					Node.isInterfaceDeclaration(candidate)) &&
+				candidate !== decl &&
+				!bases.includes(candidate)
+			) {
+				bases.push(candidate);
+				queue.push(candidate);
+			}
+		}
+	}
+
+	return bases;
+}
+
+/**
+ * Create a reference to the base declaration a member comes from
+ */
+function createHeritageReference(decl: HeritageDeclaration): TypeReference {
+	return {
+		name: decl.getName() ?? "default",
+		...createLocationInfo(decl),
+	};
+}
+
+/**
+ * Check whether a member asks for its documentation to be inherited, with
+ * an `@inheritDoc` tag or a description that is only `{@inheritDoc}`
+ */
+function hasInheritDoc(member: PropertyDoc | MethodDoc): boolean {
+	return (
+		member.jsDoc?.tags.some((tag) => tag.tag === "inheritDoc") === true ||
+		/^\{@inheritDoc[^}]*\}$/.test(member.description?.trim() ?? "")
+	);
+}
+
+/**
+ * Copy the summary, remarks, parameter, type parameter and return
+ * documentation of a base member, keeping the member's other tags
+ */
+function inheritDocumentation<T extends PropertyDoc | MethodDoc>(
+	member: T,
+	source: T,
+): T {
+	const inheritedTags = new Set([
+		"param",
+		"typeParam",
+		"template",
+		"returns",
+		"return",
+		"remarks",
+	]);
+	const tags = [
+		...(source.jsDoc?.tags ?? []).filter((tag) => inheritedTags.has(tag.tag)),
+		...(member.jsDoc?.tags ?? []).filter(
+			(tag) => !inheritedTags.has(tag.tag) && tag.tag !== "inheritDoc",
+		),
+	];
+
+	const inherited: T = {
+		...member,
+		description: source.description,
+		jsDoc: buildJSDocInfo(source.description, tags),
+	};
+
+	if (inherited.kind === DocItemKind.Method) {
+		const sourceParameters = (source as MethodDoc).parameters;
+		const method = inherited as MethodDoc;
+		method.parameters = method.parameters.map((param) => ({
+			...param,
+			description:
+				param.description ||
+				sourceParameters.find((sourceParam) => sourceParam.name === param.name)
+					?.description,
+		}));
+	}
+
+	return inherited;
+}
+
+/**
+ * Resolve what a class or interface inherits from its base declarations
+ *
+ * Members of base declarations that are not redeclared are listed as
+ * inherited, redeclared members are marked as overrides, and members with
+ * `@inheritDoc` take their documentation from the nearest documented base
+ * member, including members of implemented interfaces.
+ */
+function applyHeritage<T extends ClassDoc | InterfaceDoc>(
+	doc: T,
+	decl: HeritageDeclaration,
+): T {
+	const bases = getBaseDeclarations(decl, false);
+	const docSources = getBaseDeclarations(decl, true);
+
+	if (docSources.length === 0) {
+		return doc;
+	}
+
+	const baseMembers = new Map(
+		docSources.map((base) => [base, extractDeclaredMembers(base)]),
+	);
+
+	const findBaseMember = (
+		kind: "properties" | "methods",
+		name: string,
+		candidates: HeritageDeclaration[],
+		isMatch: (member: PropertyDoc | MethodDoc) => boolean = () => true,
+	) => {
+		for (const base of candidates) {
+			const member = baseMembers
+				.get(base)
+				?.[kind].find((member) => member.name === name && isMatch(member));
+			if (member) {
+				return { base, member };
+			}
+		}
+		return undefined;
+	};
+
+	const resolveInheritDoc = <M extends PropertyDoc | MethodDoc>(
+		kind: "properties" | "methods",
+		member: M,
+	): M => {
+		if (!hasInheritDoc(member)) {
+			return member;
+		}
+
+		const source = findBaseMember(
+			kind,
+			member.name,
+			docSources,
+			(candidate) => !hasInheritDoc(candidate) && !!candidate.description,
+		);
+		return source ? inheritDocumentation(member, source.member as M) : member;
+	};
+
+	const resolveMembers = <M extends PropertyDoc | MethodDoc>(
+		kind: "properties" | "methods",
+		members: M[],
+	) => {
+		const own = members.map((member) => {
+			const resolved = resolveInheritDoc(kind, member);
+			const overridden = findBaseMember(kind, member.name, bases);
+			return overridden
+				? { ...resolved, overrides: createHeritageReference(overridden.base) }
+				: resolved;
+		});
+
+		// Nearer bases shadow members of the same name further up the chain
+		const seen = new Set(own.map((member) => member.name));
+		const inherited: M[] = [];
+
+		for (const base of bases) {
+			for (const member of baseMembers.get(base)?.[kind] ?? []) {
+				const isPrivate =
+					member.visibility === "private" || member.visibility === "#private";
+				if (seen.has(member.name) || isPrivate) {
+					continue;
+				}
+				seen.add(member.name);
+				inherited.push({
+					...resolveInheritDoc(kind, member as M),
+					inheritedFrom: createHeritageReference(base),
+				});
+			}
+		}
+
+		return { own, inherited };
+	};
+
+	const properties = resolveMembers("properties", doc.properties);
+	const methods = resolveMembers("methods", doc.methods);
+
+	return {
+		...doc,
+		properties: properties.own,
+		methods: methods.own,
+		inheritedProperties: properties.inherited,
+		inheritedMethods: methods.inherited,
+	};
 }
 
 /**
@@ -173,16 +617,18 @@ export function extractEnumDoc(enumDecl: EnumDeclaration): EnumDoc {
 		return {
 			name: member.getName(),
 			value: member.getValue()?.toString(),
-			description: member.getJsDocs()?.[0]?.getDescription()?.trim(),
+			description: extractJSDocInfo(member.getJsDocs())?.description,
 		};
 	});
 
+	const jsDocInfo = extractJSDocInfo(enumDecl.getJsDocs());
+
 	return {
 		name: enumDecl.getName(),
 		kind: DocItemKind.Enum,
-		description: enumDecl.getJsDocs()?.[0]?.getDescription()?.trim(),
+		description: jsDocInfo?.description,
 		location: createLocationInfo(enumDecl),
-		jsDoc: extractJSDocInfo(enumDecl.getJsDocs()),
+		jsDoc: jsDocInfo,
 		members,
 	} as EnumDoc;
 }
@@ -193,39 +639,98 @@ export function extractEnumDoc(enumDecl: EnumDeclaration): EnumDoc {
 export function extractTypeAliasDoc(
 	typeAlias: TypeAliasDeclaration,
 ): TypeAliasDoc {
+	const jsDocInfo = extractJSDocInfo(typeAlias.getJsDocs());
+
 	return {
 		name: typeAlias.getName(),
 		kind: DocItemKind.TypeAlias,
-		description: typeAlias.getJsDocs()?.[0]?.getDescription()?.trim(),
+		description: jsDocInfo?.description,
 		location: createLocationInfo(typeAlias),
-		jsDoc: extractJSDocInfo(typeAlias.getJsDocs()),
-		type: typeAlias.getType().getText(),
+		jsDoc: jsDocInfo,
+		type: typeAlias.getType().getText(typeAlias),
 		typeParameters: typeAlias.getTypeParameters().map((tp) => tp.getText()),
 	} as TypeAliasDoc;
 }
 
+/**
+ * Extract documentation for a variable declaration
+ */
+export function extractVariableDoc(decl: VariableDeclaration): VariableDoc {
+	// JSDoc comments are attached to the variable statement, not the declaration
+	const statement = decl.getVariableStatement();
+	const jsDocs = statement?.getJsDocs() ?? [];
+	const jsDocInfo = extractJSDocInfo(jsDocs);
+	const initializer = decl.getInitializer();
+	const declarationKind: VariableDoc["declarationKind"] = `${
+		statement?.getDeclarationKind() ?? VariableDeclarationKind.Let
+	}`;
+
+	const variableDoc = {
+		name: decl.getName(),
+		kind: DocItemKind.Variable,
+		description: jsDocInfo?.description,
+		location: createLocationInfo(decl),
+		jsDoc: jsDocInfo,
+		type: decl.getType().getText(decl),
+		declarationKind,
+		isConst: declarationKind === VariableDeclarationKind.Const,
+		isCallable: false,
+	} as VariableDoc;
+
+	// Arrow functions and function expressions are documented like functions
+	if (
+		Node.isArrowFunction(initializer) ||
+		Node.isFunctionExpression(initializer)
+	) {
+		variableDoc.isCallable = true;
+		variableDoc.parameters = extractParametersWithJSDoc(
+			initializer.getParameters(),
+			jsDocs,
+			jsDocInfo,
+		);
+		variableDoc.returnType = initializer.getReturnType().getText(initializer);
+		variableDoc.returnTypeReferences = extractTypeReferences(
+			initializer.getReturnType(),
+		);
+		variableDoc.typeParameters = initializer
+			.getTypeParameters()
+			.map((tp) => tp.getText());
+	} else if (initializer) {
+		variableDoc.initializer = initializer.getText();
+	}
+
+	return variableDoc;
+}
+
 /**
  * Extract interface properties
  */
 export function extractInterfaceProperties(
 	iface: InterfaceDeclaration,
 ): PropertyDoc[] {
-	return iface.getProperties().map((prop) => {
+	const properties = iface.getProperties().map((prop) => {
+		const jsDocInfo = extractJSDocInfo(prop.getJsDocs());
+
 		return {
 			name: prop.getName(),
 			kind: DocItemKind.Property,
-			description: prop.getJsDocs()?.[0]?.getDescription()?.trim(),
+			description: jsDocInfo?.description,
 			location: {
 				filePath: prop.getSourceFile().getFilePath(),
 				line: prop.getStartLineNumber(),
 			},
-			jsDoc: extractJSDocInfo(prop.getJsDocs()),
-			type: prop.getType().getText(),
+			jsDoc: jsDocInfo,
+			type: prop.getType().getText(prop),
 			isStatic: false,
 			isReadonly: prop.isReadonly(),
 			isOptional: prop.hasQuestionToken(),
 		} as PropertyDoc;
 	});
+
+	return [
+		...properties,
+		...extractAccessorDocs(iface.getGetAccessors(), iface.getSetAccessors()),
+	];
 }
 
 /**
@@ -234,7 +739,20 @@ export function extractInterfaceProperties(
 export function extractInterfaceMethods(
 	iface: InterfaceDeclaration,
 ): MethodDoc[] {
-	return iface.getMethods().map((method) => {
+	// Group method signatures by name so overloads form a single method
+	const methodGroups = new Map<string, MethodSignature[]>();
+
+	for (const method of iface.getMethods()) {
+		const name = method.getName();
+		if (!methodGroups.has(name)) {
+			methodGroups.set(name, []);
+		}
+		methodGroups.get(name)?.push(method);
+	}
+
+	return [...methodGroups.values()].map((group) => {
+		const method = group[0];
+
 		// Get JSDoc comments for the method
 		const methodJsDocs = method.getJsDocs();
 		const methodJsDocInfo = extractJSDocInfo(methodJsDocs);
@@ -249,17 +767,19 @@ export function extractInterfaceMethods(
 		return {
 			name: method.getName(),
 			kind: DocItemKind.Method,
-			description: method.getJsDocs()?.[0]?.getDescription()?.trim(),
+			description: methodJsDocInfo?.description,
 			location: {
 				filePath: method.getSourceFile().getFilePath(),
 				line: method.getStartLineNumber(),
 			},
 			jsDoc: methodJsDocInfo,
 			parameters,
-			returnType: method.getReturnType().getText(),
+			returnType: method.getReturnType().getText(method),
+			returnTypeReferences: extractTypeReferences(method.getReturnType()),
 			isStatic: false,
 			isAsync: false, // Interface methods cannot be async
 			typeParameters: method.getTypeParameters().map((tp) => tp.getText()),
+			signatures: group.length > 1 ? group.map(extractSignatureDoc) : undefined,
 		} as MethodDoc;
 	});
 }
@@ -271,15 +791,19 @@ export function extractInterfaceDoc(iface: InterfaceDeclaration): InterfaceDoc {
 	const properties = extractInterfaceProperties(iface);
 	const methods = extractInterfaceMethods(iface);
 
-	return {
+	const jsDocInfo = extractJSDocInfo(iface.getJsDocs());
+
+	const interfaceDoc = {
 		name: iface.getName(),
 		kind: DocItemKind.Interface,
-		description: iface.getJsDocs()?.[0]?.getDescription()?.trim(),
+		description: jsDocInfo?.description,
 		location: createLocationInfo(iface),
-		jsDoc: extractJSDocInfo(iface.getJsDocs()),
+		jsDoc: jsDocInfo,
 		properties,
 		methods,
 		extends: iface.getExtends().map((ext) => ext.getText()),
 		typeParameters: iface.getTypeParameters().map((tp) => tp.getText()),
 	} as InterfaceDoc;
+
+	return applyHeritage(interfaceDoc, iface);
 }
@@ -1,3 +1,4 @@
 export * from "./declarations";
 export * from "./jsdoc";
 export * from "./parameters";
+export * from "./types";
@@ -1,11 +1,62 @@
+import { parse, tokenizers } from "comment-parser";
 import type { JSDoc } from "ts-morph";
-import type { JSDocInfo, JSDocTag } from "../models";
+import type {
+	JSDocExample,
+	JSDocInfo,
+	JSDocTag,
+	JSDocThrows,
+	JSDocTypeParam,
+} from "../models";
 
-// Pre-compile the parameter name regex for performance
-const PARAM_NAME_REGEX = /^(\w+)(?:\s+.*)?$/;
+// Matches a leading {type} expression, allowing one level of nested braces
+const TYPE_REGEX = /^\{((?:[^{}]|\{[^{}]*\})*)\}\s*/;
+
+// Matches a leading name, optionally bracketed as [name] or [name=default]
+const NAME_REGEX = /^(\[[^\]]*\]|[\w$.#]+)\s*/;
+
+// Matches a JSDoc-style <caption> on the first line of an example
+const CAPTION_REGEX = /^<caption>(.*?)<\/caption>\s*(.*)$/;
+
+// Matches the first fenced code block of an example
+const FENCE_REGEX = /```([\w-]*)[^\n]*\n([\s\S]*?)\n?```/;
+
+// Tags whose content starts with an optional {type}
+const TYPED_TAGS = new Set([
+	"param",
+	"returns",
+	"return",
+	"throws",
+	"exception",
+	"typeParam",
+	"template",
+]);
+
+// Tags whose content starts with a name
+const NAMED_TAGS = new Set(["param", "typeParam", "template"]);
+
+// Tags with a dedicated field in JSDocInfo
+const KNOWN_TAGS = new Set([
+	"param",
+	"returns",
+	"return",
+	"throws",
+	"exception",
+	"example",
+	"deprecated",
+	"since",
+	"see",
+	"defaultValue",
+	"default",
+	"typeParam",
+	"template",
+	"remarks",
+	"inheritDoc",
+]);
 
 /**
  * Parse JSDoc comments into structured information
+ * Tags from every JSDoc block are combined; the description comes from the
+ * last block that has one, as that block is closest to the declaration
  */
 export function extractJSDocInfo(
 	jsDocs: JSDoc[] | undefined,
@@ -14,68 +65,220 @@ export function extractJSDocInfo(
 		return undefined;
 	}
 
-	// Get the first JSDoc comment
-	const jsDoc = jsDocs[0];
-	const commentText = jsDoc.getDescription();
-
-	// Extract tags directly from ts-morph
+	let description: string | undefined;
 	const tags: JSDocTag[] = [];
 
-	for (const tag of jsDoc.getTags()) {
-		const tagName = tag.getTagName();
-
-		// Extract comment in a safe way with fallbacks
-		let comment = "";
-		try {
-			const result = tag.getComment?.();
-			if (result) {
-				comment =
-					typeof result === "string"
-						? result
-						: result.map((r) => r?.getText?.() || "").join(" ");
-			}
-		} catch (e) {
-			// Fallback for tests with mocked objects
-			const tagText = tag.getText();
-			if (tagName === "param") {
-				// For param tags, strip the parameter name
-				comment = tagText.replace(/^\w+\s*/, "").trim();
-			} else {
-				// For other tags, use the full text (might include the tag name)
-				comment = tagText.trim();
-			}
+	for (const jsDoc of jsDocs) {
+		description = jsDoc.getDescription().trim() || description;
+		tags.push(...extractTags(jsDoc));
+	}
+
+	return buildJSDocInfo(description, tags);
+}
+
+/**
+ * Extract the tags of a single JSDoc block
+ * Uses comment-parser on the comment text and falls back to the tags
+ * ts-morph has already parsed if that fails
+ */
+function extractTags(jsDoc: JSDoc): JSDocTag[] {
+	try {
+		const [block] = parse(jsDoc.getText(), {
+			spacing: "preserve",
+			// Only split tags; types and names are parsed per tag below
+			tokenizers: [tokenizers.tag(), tokenizers.description("preserve")],
+		});
+
+		return (block?.tags ?? []).map((tag) =>
+			parseTagContent(tag.tag, tag.description),
+		);
+	} catch {
+		return jsDoc.getTags().map((tag) => {
+			// Strip the tag name and the leading asterisks of continuation lines
+			const content = tag
+				.getText()
+				.replace(/^@\w+/, "")
+				.replace(/\n[ \t]*\* ?/g, "\n")
+				.replace(/^ /, "")
+				.trimEnd();
+
+			return parseTagContent(tag.getTagName(), content);
+		});
+	}
+}
+
+/**
+ * Parse the content that follows a tag name into a tag
+ */
+export function parseTagContent(tagName: string, content: string): JSDocTag {
+	// Examples keep their layout so code can be extracted later
+	if (tagName === "example") {
+		return { tag: tagName, description: content.trimEnd() };
+	}
+
+	let rest = content.trim();
+	const tag: JSDocTag = { tag: tagName };
+
+	if (TYPED_TAGS.has(tagName)) {
+		const typeMatch = rest.match(TYPE_REGEX);
+		if (typeMatch) {
+			// `@throws {@link MyError}` names the type through a link
+			tag.type = typeMatch[1].replace(/^@link\s+/, "").trim();
+			rest = rest.slice(typeMatch[0].length);
 		}
+	}
 
-		if (tagName === "param") {
-			const tagText = tag.getText();
-			const paramMatch = tagText.match(PARAM_NAME_REGEX);
-
-			if (paramMatch) {
-				const paramName = paramMatch[1];
-				tags.push({
-					tag: "param",
-					name: paramName,
-					description: comment.trim(),
-				});
-			} else {
-				// Fallback if we can't extract the parameter name
-				tags.push({
-					tag: "param",
-					name: "",
-					description: comment.trim(),
-				});
-			}
+	if (NAMED_TAGS.has(tagName)) {
+		const nameMatch = rest.match(NAME_REGEX);
+		if (nameMatch) {
+			// Optional names are written as [name] or [name=default]
+			tag.name = nameMatch[1]
+				.replace(/^\[|\]$/g, "")
+				.split("=")[0]
+				.trim();
+			rest = rest.slice(nameMatch[0].length);
 		} else {
-			tags.push({
-				tag: tagName,
-				name: "", // We don't extract names for other tags currently
-				description: comment.trim(),
-			});
+			tag.name = "";
+		}
+	}
+
+	// TSDoc separates names and types from descriptions with a hyphen
+	if (tag.name !== undefined || tag.type !== undefined) {
+		rest = rest.replace(/^-\s*/, "");
+	}
+
+	tag.description = rest.trim();
+
+	return tag;
+}
+
+/**
+ * Parse the content of an `@example` tag
+ *
+ * Text on the same line as the tag is the caption (a JSDoc `<caption>` is
+ * also accepted). The code is the first fenced block, or the remaining lines
+ * when there is no fence.
+ */
+export function parseExample(content: string): JSDocExample {
+	const newlineIndex = content.indexOf("\n");
+	let firstLine =
+		newlineIndex === -1
+			? content.trim()
+			: content.slice(0, newlineIndex).trim();
+	let body = newlineIndex === -1 ? "" : content.slice(newlineIndex + 1);
+
+	// A fence opened on the tag line belongs to the code, not the caption
+	if (firstLine.startsWith("```")) {
+		body = content.trim();
+		firstLine = "";
+	}
+
+	let caption: string | undefined = firstLine || undefined;
+	const captionMatch = firstLine.match(CAPTION_REGEX);
+	if (captionMatch) {
+		caption = captionMatch[1].trim() || undefined;
+		body = captionMatch[2] ? `${captionMatch[2]}\n${body}` : body;
+	}
+
+	const fenceMatch = body.match(FENCE_REGEX);
+	if (fenceMatch) {
+		return {
+			caption,
+			language: fenceMatch[1] || undefined,
+			code: fenceMatch[2],
+		};
+	}
+
+	// A single line without a fence is code rather than a caption
+	if (!body.trim() && !captionMatch) {
+		return { code: firstLine };
+	}
+
+	return { caption, code: body.replace(/^\n+/, "").trimEnd() };
+}
+
+/**
+ * Build structured JSDoc information from a description and tags
+ */
+export function buildJSDocInfo(
+	description: string | undefined,
+	tags: JSDocTag[],
+): JSDocInfo {
+	const info: JSDocInfo = { description, tags };
+
+	const throws: JSDocThrows[] = [];
+	const examples: JSDocExample[] = [];
+	const see: string[] = [];
+	const typeParams: JSDocTypeParam[] = [];
+	const customTags: JSDocTag[] = [];
+
+	for (const tag of tags) {
+		const text = tag.description ?? "";
+
+		switch (tag.tag) {
+			case "returns":
+			case "return":
+				info.returns ??= text;
+				break;
+			case "throws":
+			case "exception":
+				throws.push({ type: tag.type, description: text });
+				break;
+			case "example":
+				examples.push(parseExample(text));
+				break;
+			case "deprecated":
+				info.deprecated ??= text;
+				break;
+			case "since":
+				info.since ??= text;
+				break;
+			case "see":
+				see.push(text);
+				break;
+			case "defaultValue":
+			case "default":
+				info.defaultValue ??= text;
+				break;
+			case "typeParam":
+			case "template":
+				typeParams.push({ name: tag.name ?? "", description: text });
+				break;
+			case "remarks":
+				info.remarks = info.remarks ? `${info.remarks}\n\n${text}` : text;
+				break;
+			default:
+				if (!KNOWN_TAGS.has(tag.tag)) {
+					customTags.push(tag);
+				}
 		}
 	}
 
-	return {
-		description: commentText,
-		tags,
-	};
+	if (throws.length > 0) info.throws = throws;
+	if (examples.length > 0) info.examples = examples;
+	if (see.length > 0) info.see = see;
+	if (typeParams.length > 0) info.typeParams = typeParams;
+	if (customTags.length > 0) info.customTags = customTags;
+
+	return info;
+}
+
+/**
+ * Merge JSDoc information from several declarations of the same symbol,
+ * such as a getter/setter pair
+ * The first available description wins and tags are concatenated
+ */
+export function mergeJSDocInfo(
+	...infos: (JSDocInfo | undefined)[]
+): JSDocInfo | undefined {
+	const present = infos.filter((info): info is JSDocInfo => info !== undefined);
+
+	if (present.length === 0) {
+		return undefined;
+	}
+
+	return buildJSDocInfo(
+		present.find((info) => info.description)?.description,
+		present.flatMap((info) => info.tags),
+	);
 }
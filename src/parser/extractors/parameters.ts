@@ -1,6 +1,7 @@
 import type { JSDoc, ParameterDeclaration } from "ts-morph";
 import type { JSDocInfo, ParameterDoc } from "../models";
 import { DocItemKind } from "../models";
+import { extractTypeReferences } from "./types";
 
 // Pre-compile the parameter regex pattern for better performance
 const PARAM_REGEX_BASE = "(?:@param\\s+)?($1)\\b\\s*(.+)?";
@@ -17,7 +18,8 @@ export function extractParameterDoc(param: ParameterDeclaration): ParameterDoc {
 			filePath: param.getSourceFile().getFilePath(),
 			line: param.getStartLineNumber(),
 		},
-		type: param.getType().getText(),
+		type: param.getType().getText(param),
+		typeReferences: extractTypeReferences(param.getType()),
 		isOptional: param.isOptional(),
 		defaultValue: param.getInitializer()?.getText(),
 	};
@@ -99,18 +101,18 @@ export function extractParametersWithJSDoc(
 		// Get basic parameter info
 		const paramDoc = extractParameterDoc(param);
 
-		// Extract description from JSDoc
-		const description = extractParameterDescription(param, jsDocs);
-		if (description) {
-			paramDoc.description = description;
+		// Prefer the parsed @param tag, which strips TSDoc hyphens
+		const paramTag = jsDocInfo?.tags.find(
+			(tag) => tag.tag === "param" && tag.name === param.getName(),
+		);
+		if (paramTag?.description) {
+			paramDoc.description = paramTag.description;
 		}
-		// Fallback to using the parsed JSDoc info if direct method didn't work
-		else if (jsDocInfo?.tags) {
-			const paramTag = jsDocInfo.tags.find(
-				(tag) => tag.tag === "param" && tag.name === param.getName(),
-			);
-			if (paramTag?.description) {
-				paramDoc.description = paramTag.description;
+		// Fall back to reading the tags of the JSDoc blocks directly
+		else {
+			const description = extractParameterDescription(param, jsDocs);
+			if (description) {
+				paramDoc.description = description;
 			}
 		}
 
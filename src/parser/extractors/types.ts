@@ -0,0 +1,93 @@
+import type { Symbol as TsSymbol, Type } from "ts-morph";
+import type { TypeReference } from "../models";
+
+// How deep to follow type arguments, unions and array elements
+const MAX_TYPE_DEPTH = 5;
+
+/**
+ * Collect the symbols declared in the project that a type refers to,
+ * including those in type arguments, unions, intersections and arrays
+ */
+export function extractTypeReferences(type: Type): TypeReference[] {
+	const references = new Map<string, TypeReference>();
+	const visited = new Set<Type>();
+
+	const addSymbol = (symbol: TsSymbol | undefined) => {
+		const declaration = symbol?.getDeclarations()[0];
+		if (!symbol || !declaration) {
+			return;
+		}
+
+		// Library and dependency types are not documented
+		const sourceFile = declaration.getSourceFile();
+		if (sourceFile.isInNodeModules() || sourceFile.isFromExternalLibrary()) {
+			return;
+		}
+
+		const reference = {
+			name: symbol.getName(),
+			filePath: sourceFile.getFilePath(),
+			line: declaration.getStartLineNumber(),
+		};
+		references.set(`${reference.filePath}:${reference.line}`, reference);
+	};
+
+	const visit = (current: Type, depth: number) => {
+		if (depth > MAX_TYPE_DEPTH || visited.has(current)) {
+			return;
+		}
+		visited.add(current);
+
+		if (current.isTypeParameter()) {
+			return;
+		}
+
+		// Enums are unions of their members but are referenced as a whole
+		if (current.isEnum()) {
+			addSymbol(current.getSymbol());
+			return;
+		}
+
+		const aliasSymbol = current.getAliasSymbol();
+		if (aliasSymbol) {
+			addSymbol(aliasSymbol);
+			for (const argument of current.getAliasTypeArguments()) {
+				visit(argument, depth + 1);
+			}
+			return;
+		}
+
+		const members = current.isUnion()
+			? current.getUnionTypes()
+			: current.getIntersectionTypes();
+		if (members.length > 0) {
+			for (const member of members) {
+				visit(member, depth + 1);
+			}
+			return;
+		}
+
+		const elementType = current.getArrayElementType();
+		if (elementType) {
+			visit(elementType, depth + 1);
+			return;
+		}
+
+		for (const element of current.getTupleElements()) {
+			visit(element, depth + 1);
+		}
+
+		// Anonymous object and function types have no declaration to link to
+		if (!current.isAnonymous()) {
+			addSymbol(current.getSymbol());
+		}
+
+		for (const argument of current.getTypeArguments()) {
+			visit(argument, depth + 1);
+		}
+	};
+
+	visit(type, 0);
+
+	return [...references.values()];
+}
@@ -1,5 +1,7 @@
+import fs from "node:fs";
 import { type Result, err, ok } from "neverthrow";
 import { Project, type SourceFile } from "ts-morph";
+import { resolveEntryPoints } from "./entry-points";
 
 /**
  * Error types that can occur during TypeScript parsing
@@ -7,6 +9,7 @@ import { Project, type SourceFile } from "ts-morph";
 export type ParserError =
 	| { type: "file_not_found"; file: string }
 	| { type: "invalid_pattern"; pattern: string }
+	| { type: "entry_point_not_found"; entryPoint: string }
 	| { type: "typescript_error"; details: string };
 
 /**
@@ -48,6 +51,88 @@ export class TypeScriptParser {
 		}
 	}
 
+	/**
+	 * Find the files matching glob patterns without parsing them
+	 */
+	public findSourceFiles(patterns: string[]): Result<string[], ParserError> {
+		try {
+			return ok(this.project.getFileSystem().globSync(patterns));
+		} catch (error) {
+			return err({
+				type: "invalid_pattern",
+				pattern: patterns.join(", "),
+			});
+		}
+	}
+
+	/**
+	 * Add source files by their paths, optionally with every file they import
+	 */
+	public addSourceFilePaths(
+		filePaths: string[],
+		resolveDependencies = false,
+	): Result<SourceFile[], ParserError> {
+		try {
+			const files = filePaths.map((filePath) =>
+				this.project.addSourceFileAtPath(filePath),
+			);
+			if (resolveDependencies) {
+				this.project.resolveSourceFileDependencies();
+			}
+			return ok(files);
+		} catch (error) {
+			return err({
+				type: "typescript_error",
+				details: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	/**
+	 * Add entry point files and every file they import
+	 * Returns only the entry point source files themselves
+	 */
+	public addEntryPoints(
+		entryPoints: string[],
+		cwd: string = process.cwd(),
+	): Result<SourceFile[], ParserError> {
+		// Follow imports and re-exports so exported symbols can be resolved
+		return resolveEntryPoints(entryPoints, cwd).andThen((filePaths) =>
+			this.addSourceFilePaths(filePaths, true),
+		);
+	}
+
+	/**
+	 * Read a source file again after it changed on disk, adding it when it is
+	 * new and removing it when it was deleted
+	 */
+	public refreshSourceFile(
+		filePath: string,
+	): Result<SourceFile | undefined, ParserError> {
+		try {
+			const file = this.project.getSourceFile(filePath);
+
+			if (!fs.existsSync(filePath)) {
+				if (file) {
+					this.project.removeSourceFile(file);
+				}
+				return ok(undefined);
+			}
+
+			if (!file) {
+				return ok(this.project.addSourceFileAtPath(filePath));
+			}
+
+			file.refreshFromFileSystemSync();
+			return ok(file);
+		} catch (error) {
+			return err({
+				type: "typescript_error",
+				details: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
 	/**
 	 * Get all source files in the project
 	 */
@@ -2,6 +2,10 @@
  * Base interface for all documentation items
  */
 export interface DocItem {
+	/**
+	 * Stable identifier of the symbol, set when exported to JSON
+	 */
+	id?: string;
 	name: string;
 	description?: string;
 	kind: DocItemKind;
@@ -10,6 +14,10 @@ export interface DocItem {
 		line: number;
 	};
 	jsDoc?: JSDocInfo;
+	/**
+	 * Qualified name of the containing namespace, if any
+	 */
+	parent?: string;
 }
 
 /**
@@ -21,6 +29,8 @@ export enum DocItemKind {
 	Interface = "interface",
 	Enum = "enum",
 	TypeAlias = "typeAlias",
+	Variable = "variable",
+	Namespace = "namespace",
 	Property = "property",
 	Method = "method",
 	Parameter = "parameter",
@@ -28,10 +38,27 @@ export enum DocItemKind {
 
 /**
  * Parsed JSDoc information
+ *
+ * `tags` lists every tag in source order across all JSDoc blocks of a
+ * declaration. The remaining fields give typed access to the standard
+ * TSDoc tags; tags without a dedicated field are collected in `customTags`.
  */
 export interface JSDocInfo {
 	description?: string;
 	tags: JSDocTag[];
+	returns?: string;
+	throws?: JSDocThrows[];
+	examples?: JSDocExample[];
+	/**
+	 * Deprecation reason, or an empty string when deprecated without one
+	 */
+	deprecated?: string;
+	since?: string;
+	see?: string[];
+	defaultValue?: string;
+	typeParams?: JSDocTypeParam[];
+	remarks?: string;
+	customTags?: JSDocTag[];
 }
 
 /**
@@ -40,21 +67,86 @@ export interface JSDocInfo {
 export interface JSDocTag {
 	tag: string;
 	name?: string;
+	type?: string;
+	description?: string;
+}
+
+/**
+ * An exception documented with `@throws {Type} description`
+ */
+export interface JSDocThrows {
+	type?: string;
+	description: string;
+}
+
+/**
+ * A code example documented with `@example`
+ * The caption is the text on the same line as the tag
+ */
+export interface JSDocExample {
+	caption?: string;
+	language?: string;
+	code: string;
+}
+
+/**
+ * A type parameter documented with `@typeParam` or `@template`
+ */
+export interface JSDocTypeParam {
+	name: string;
+	description: string;
+}
+
+/**
+ * A documented symbol referenced from a type, identified by the location of
+ * its declaration so that it can be linked even when renamed on export
+ */
+export interface TypeReference {
+	name: string;
+	filePath: string;
+	line: number;
+	/**
+	 * Link to the symbol's section, set when references are resolved
+	 */
+	href?: string;
+}
+
+/**
+ * A single call signature of an overloaded function or method
+ */
+export interface SignatureDoc {
 	description?: string;
+	location: {
+		filePath: string;
+		line: number;
+	};
+	jsDoc?: JSDocInfo;
+	parameters: ParameterDoc[];
+	returnType: string;
+	returnTypeReferences?: TypeReference[];
+	typeParameters?: string[];
 }
 
 /**
  * Function documentation information
+ *
+ * For overloaded functions, `signatures` lists the overloads callers see,
+ * while `parameters` and `returnType` describe the implementation.
  */
 export interface FunctionDoc extends DocItem {
 	kind: DocItemKind.Function;
 	parameters: ParameterDoc[];
 	returnType: string;
+	returnTypeReferences?: TypeReference[];
 	typeParameters?: string[];
+	signatures?: SignatureDoc[];
 }
 
 /**
  * Class documentation information
+ *
+ * `inheritedProperties` and `inheritedMethods` list the members of base
+ * classes that the class does not declare itself.
  */
 export interface ClassDoc extends DocItem {
 	kind: DocItemKind.Class;
@@ -64,10 +156,14 @@ export interface ClassDoc extends DocItem {
 	extends?: string;
 	implements?: string[];
 	typeParameters?: string[];
+	inheritedProperties?: PropertyDoc[];
+	inheritedMethods?: MethodDoc[];
 }
 
 /**
  * Interface documentation information
+ *
+ * Members of extended interfaces are listed as for classes.
  */
 export interface InterfaceDoc extends DocItem {
 	kind: DocItemKind.Interface;
@@ -75,6 +171,8 @@ export interface InterfaceDoc extends DocItem {
 	methods: MethodDoc[];
 	extends?: string[];
 	typeParameters?: string[];
+	inheritedProperties?: PropertyDoc[];
+	inheritedMethods?: MethodDoc[];
 }
 
 /**
@@ -98,6 +196,47 @@ export interface TypeAliasDoc extends DocItem {
 	typeParameters?: string[];
 }
 
+/**
+ * Variable documentation information
+ *
+ * Variables initialized with an arrow function or function expression are
+ * treated as callable and carry parameters and a return type like functions.
+ */
+export interface VariableDoc extends DocItem {
+	kind: DocItemKind.Variable;
+	type: string;
+	/**
+	 * Keyword the variable is declared with
+	 */
+	declarationKind: "var" | "let" | "const" | "using" | "await using";
+	isConst: boolean;
+	isCallable: boolean;
+	initializer?: string;
+	parameters?: ParameterDoc[];
+	returnType?: string;
+	returnTypeReferences?: TypeReference[];
+	typeParameters?: string[];
+}
+
+/**
+ * Namespace documentation information
+ *
+ * Covers `namespace Foo {}`, ambient `declare module "x" {}` blocks and
+ * `declare global {}` augmentations. Members are extracted recursively and
+ * carry the qualified name of this namespace as their parent.
+ */
+export interface NamespaceDoc extends DocItem {
+	kind: DocItemKind.Namespace;
+	declarationKind: "namespace" | "module" | "global";
+	members: DocItem[];
+}
+
+/**
+ * Visibility of a class member
+ * `#private` marks ECMAScript private names such as `#count`
+ */
+export type MemberVisibility = "public" | "protected" | "private" | "#private";
+
 /**
  * Property documentation information
  */
@@ -107,18 +246,51 @@ export interface PropertyDoc extends DocItem {
 	isStatic: boolean;
 	isReadonly: boolean;
 	isOptional: boolean;
+	visibility?: MemberVisibility;
+	isAbstract?: boolean;
+	isOverride?: boolean;
+	/**
+	 * The base declaration an inherited property is declared in
+	 */
+	inheritedFrom?: TypeReference;
+	/**
+	 * The base declaration of a property this property overrides
+	 */
+	overrides?: TypeReference;
+	/**
+	 * Present when the property is declared with `get`/`set` accessors
+	 */
+	accessor?: {
+		hasGetter: boolean;
+		hasSetter: boolean;
+	};
 }
 
 /**
  * Method documentation information
+ *
+ * Overloads are listed in `signatures`, as for functions.
  */
 export interface MethodDoc extends DocItem {
 	kind: DocItemKind.Method;
 	parameters: ParameterDoc[];
 	returnType: string;
+	returnTypeReferences?: TypeReference[];
 	isStatic: boolean;
 	isAsync: boolean;
+	visibility?: MemberVisibility;
+	isAbstract?: boolean;
+	isOverride?: boolean;
+	/**
+	 * The base declaration an inherited method is declared in
+	 */
+	inheritedFrom?: TypeReference;
+	/**
+	 * The base declaration of a method this method overrides
+	 */
+	overrides?: TypeReference;
 	typeParameters?: string[];
+	signatures?: SignatureDoc[];
 }
 
 /**
@@ -127,6 +299,7 @@ export interface MethodDoc extends DocItem {
 export interface ParameterDoc extends DocItem {
 	kind: DocItemKind.Parameter;
 	type: string;
+	typeReferences?: TypeReference[];
 	isOptional: boolean;
 	defaultValue?: string;
 }
@@ -139,4 +312,16 @@ export interface MarkdownOptions {
 	linkReferences: boolean;
 	includeTypes: boolean;
 	includeExamples: boolean;
+	/**
+	 * Whether to list inherited members and mark overrides
+	 */
+	includeInherited?: boolean;
+	/**
+	 * Path of the file being written; source links are made relative to it
+	 */
+	outputPath?: string;
+	/**
+	 * Member visibilities to document; all members are documented when unset
+	 */
+	visibility?: MemberVisibility[];
 }
@@ -1,46 +1,195 @@
-import type { SourceFile } from "ts-morph";
 import {
+	type ModuleDeclaration,
+	ModuleDeclarationKind,
+	Node,
+	type SourceFile,
+} from "ts-morph";
+import {
+	createLocationInfo,
 	extractClassDoc,
 	extractEnumDoc,
 	extractFunctionDoc,
 	extractInterfaceDoc,
+	extractJSDocInfo,
 	extractTypeAliasDoc,
+	extractVariableDoc,
+	isRedundantOverload,
 } from "./extractors";
-import type { DocItem } from "./models";
+import { type DocItem, DocItemKind, type NamespaceDoc } from "./models";
 
 export * from "./models";
 export * from "./extractors";
 
+/**
+ * Get the fully qualified name of an item, including containing namespaces
+ */
+export function getQualifiedName(item: DocItem): string {
+	return item.parent ? `${item.parent}.${item.name}` : item.name;
+}
+
 /**
  * Extract documentation from a source file
  */
 export function extractDocumentation(sourceFile: SourceFile): DocItem[] {
+	return extractContainerDocumentation(sourceFile);
+}
+
+/**
+ * Extract documentation from the statements of a source file or namespace body
+ */
+function extractContainerDocumentation(
+	container: SourceFile | ModuleDeclaration,
+	parent?: string,
+): DocItem[] {
 	const items: DocItem[] = [];
 
 	// Extract functions
-	for (const func of sourceFile.getFunctions()) {
-		items.push(extractFunctionDoc(func));
+	for (const func of container.getFunctions()) {
+		if (!isRedundantOverload(func)) {
+			items.push(extractFunctionDoc(func));
+		}
 	}
 
 	// Extract classes
-	for (const cls of sourceFile.getClasses()) {
+	for (const cls of container.getClasses()) {
 		items.push(extractClassDoc(cls));
 	}
 
 	// Extract interfaces
-	for (const iface of sourceFile.getInterfaces()) {
+	for (const iface of container.getInterfaces()) {
 		items.push(extractInterfaceDoc(iface));
 	}
 
 	// Extract enums
-	for (const enumDecl of sourceFile.getEnums()) {
+	for (const enumDecl of container.getEnums()) {
 		items.push(extractEnumDoc(enumDecl));
 	}
 
 	// Extract type aliases
-	for (const typeAlias of sourceFile.getTypeAliases()) {
+	for (const typeAlias of container.getTypeAliases()) {
 		items.push(extractTypeAliasDoc(typeAlias));
 	}
 
+	// Extract variables, skipping destructuring patterns which have no single name
+	for (const variable of container.getVariableDeclarations()) {
+		if (Node.isIdentifier(variable.getNameNode())) {
+			items.push(extractVariableDoc(variable));
+		}
+	}
+
+	// Extract namespaces and ambient modules, skipping shorthand declarations
+	for (const moduleDecl of container.getModules()) {
+		if (moduleDecl.hasBody()) {
+			items.push(extractNamespaceDoc(moduleDecl, parent));
+		}
+	}
+
+	if (parent) {
+		for (const item of items) {
+			item.parent = parent;
+		}
+	}
+
+	return items;
+}
+
+/**
+ * Extract documentation for a namespace, ambient module or global augmentation
+ * Members are extracted recursively with the same extractors as a source file
+ */
+export function extractNamespaceDoc(
+	moduleDecl: ModuleDeclaration,
+	parent?: string,
+): NamespaceDoc {
+	const declarationKind = moduleDecl.getDeclarationKind();
+	// Ambient module names are string literals; drop the quotes
+	const name = moduleDecl.getName().replace(/^["']|["']$/g, "");
+	const qualifiedName = parent ? `${parent}.${name}` : name;
+	const jsDocInfo = extractJSDocInfo(moduleDecl.getJsDocs());
+
+	return {
+		name,
+		kind: DocItemKind.Namespace,
+		description: jsDocInfo?.description,
+		location: createLocationInfo(moduleDecl),
+		jsDoc: jsDocInfo,
+		parent,
+		declarationKind:
+			declarationKind === ModuleDeclarationKind.Global
+				? "global"
+				: declarationKind === ModuleDeclarationKind.Module
+					? "module"
+					: "namespace",
+		members: extractContainerDocumentation(moduleDecl, qualifiedName),
+	};
+}
+
+/**
+ * Extract documentation for a single declaration node
+ * Returns undefined for nodes that are not documented
+ */
+export function extractDeclarationDoc(node: Node): DocItem | undefined {
+	if (Node.isFunctionDeclaration(node)) {
+		return isRedundantOverload(node) ? undefined : extractFunctionDoc(node);
+	}
+	if (Node.isClassDeclaration(node)) {
+		return extractClassDoc(node);
+	}
+	if (Node.isInterfaceDeclaration(node)) {
+		return extractInterfaceDoc(node);
+	}
+	if (Node.isEnumDeclaration(node)) {
+		return extractEnumDoc(node);
+	}
+	if (Node.isTypeAliasDeclaration(node)) {
+		return extractTypeAliasDoc(node);
+	}
+	if (Node.isModuleDeclaration(node) && node.hasBody()) {
+		return extractNamespaceDoc(node);
+	}
+	if (
+		Node.isVariableDeclaration(node) &&
+		Node.isIdentifier(node.getNameNode())
+	) {
+		return extractVariableDoc(node);
+	}
+	return undefined;
+}
+
+/**
+ * Extract documentation for the public API surface of an entry point
+ *
+ * Follows `export * from` and `export { x } from` chains and documents each
+ * reachable declaration under the name it is exported as.
+ */
+export function extractExportedDocumentation(
+	sourceFile: SourceFile,
+): DocItem[] {
+	const items: DocItem[] = [];
+
+	for (const [
+		exportName,
+		declarations,
+	] of sourceFile.getExportedDeclarations()) {
+		for (const declaration of declarations) {
+			// Symbols re-exported from dependencies are not part of our docs
+			if (declaration.getSourceFile().isFromExternalLibrary()) {
+				continue;
+			}
+
+			const item = extractDeclarationDoc(declaration);
+			if (!item) {
+				continue;
+			}
+
+			// Default exports keep their declared name when they have one
+			if (exportName !== "default" || item.name === "anonymous") {
+				item.name = exportName;
+			}
+
+			items.push(item);
+		}
+	}
+
 	return items;
 }
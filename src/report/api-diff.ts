@@ -0,0 +1,752 @@
+import { filterItemsByVisibility } from "../markdown/formatters";
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type EnumDoc,
+	type FunctionDoc,
+	type InterfaceDoc,
+	type MethodDoc,
+	type NamespaceDoc,
+	type ParameterDoc,
+	type PropertyDoc,
+	type SignatureDoc,
+	type TypeAliasDoc,
+	type VariableDoc,
+	getQualifiedName,
+} from "../parser/traversal";
+
+/**
+ * Semantic versioning impact of an API change
+ */
+export type ChangeImpact = "major" | "minor" | "patch";
+
+/**
+ * What happened to the changed symbol, as listed in a changelog
+ */
+export type ChangeCategory = "added" | "removed" | "deprecated" | "changed";
+
+/**
+ * A change between two versions of the API
+ */
+export interface ApiChange {
+	impact: ChangeImpact;
+	category: ChangeCategory;
+	/**
+	 * Qualified name of the changed symbol, e.g. `Parser.parse`
+	 */
+	symbol: string;
+	kind: DocItemKind;
+	message: string;
+}
+
+/**
+ * Changes between two versions of the API and the version bump they call for
+ */
+export interface ApiDiff {
+	changes: ApiChange[];
+	bump: ChangeImpact | "none";
+}
+
+/**
+ * How a type changed: narrowed types accept fewer values, widened types
+ * accept more
+ */
+type TypeChange = "same" | "narrowed" | "widened" | "changed";
+
+/**
+ * A callable signature of a function, method, constructor or variable
+ */
+type Callable = Pick<SignatureDoc, "parameters" | "returnType"> & {
+	typeParameters?: string[];
+};
+
+// Impacts from the most to the least significant
+const IMPACT_ORDER: ChangeImpact[] = ["major", "minor", "patch"];
+
+/**
+ * Classify the changes between two versions of the documented API
+ *
+ * Removed exports, narrowed parameter types, new required parameters and
+ * widened return types are major changes; new exports, new optional
+ * parameters, widened parameter types and deprecations are minor changes;
+ * documentation changes are patches.
+ */
+export function diffApi(oldItems: DocItem[], newItems: DocItem[]): ApiDiff {
+	const oldSymbols = collectSymbols(oldItems);
+	const newSymbols = collectSymbols(newItems);
+	const changes: ApiChange[] = [];
+
+	for (const [key, oldItem] of oldSymbols) {
+		const newItem = newSymbols.get(key);
+		if (!newItem) {
+			changes.push(
+				createChange(
+					"major",
+					"removed",
+					oldItem,
+					`Removed ${describeKind(oldItem.kind)} \`${getQualifiedName(oldItem)}\``,
+				),
+			);
+			continue;
+		}
+
+		changes.push(...diffItem(oldItem, newItem));
+	}
+
+	for (const [key, newItem] of newSymbols) {
+		if (!oldSymbols.has(key)) {
+			changes.push(
+				createChange(
+					"minor",
+					"added",
+					newItem,
+					`Added ${describeKind(newItem.kind)} \`${getQualifiedName(newItem)}\``,
+				),
+			);
+		}
+	}
+
+	changes.sort(
+		(a, b) =>
+			IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) ||
+			a.symbol.localeCompare(b.symbol),
+	);
+
+	return { changes, bump: changes[0]?.impact ?? "none" };
+}
+
+/**
+ * Index the public symbols by kind and qualified name, including the
+ * members of namespaces
+ */
+function collectSymbols(items: DocItem[]): Map<string, DocItem> {
+	const symbols = new Map<string, DocItem>();
+
+	const collect = (item: DocItem) => {
+		const key = `${item.kind}:${getQualifiedName(item)}`;
+		if (!symbols.has(key)) {
+			symbols.set(key, item);
+		}
+
+		if (item.kind === DocItemKind.Namespace) {
+			for (const member of (item as NamespaceDoc).members) {
+				collect(member);
+			}
+		}
+	};
+
+	for (const item of filterItemsByVisibility(items, ["public", "protected"])) {
+		collect(item);
+	}
+
+	return symbols;
+}
+
+/**
+ * Compare two versions of the same symbol
+ */
+function diffItem(oldItem: DocItem, newItem: DocItem): ApiChange[] {
+	const changes: ApiChange[] = [];
+	const name = getQualifiedName(newItem);
+	const add = (
+		impact: ChangeImpact,
+		message: string,
+		category: ChangeCategory = "changed",
+	) => changes.push(createChange(impact, category, newItem, message));
+
+	switch (newItem.kind) {
+		case DocItemKind.Function:
+			diffCallables(
+				getCallables(oldItem as FunctionDoc),
+				getCallables(newItem as FunctionDoc),
+				name,
+				add,
+			);
+			break;
+		case DocItemKind.Class:
+		case DocItemKind.Interface:
+			changes.push(
+				...diffContainer(
+					oldItem as ClassDoc | InterfaceDoc,
+					newItem as ClassDoc | InterfaceDoc,
+				),
+			);
+			break;
+		case DocItemKind.Enum:
+			diffEnum(oldItem as EnumDoc, newItem as EnumDoc, name, add);
+			break;
+		case DocItemKind.TypeAlias:
+			diffTypeAlias(
+				oldItem as TypeAliasDoc,
+				newItem as TypeAliasDoc,
+				name,
+				add,
+			);
+			break;
+		case DocItemKind.Variable:
+			diffVariable(oldItem as VariableDoc, newItem as VariableDoc, name, add);
+			break;
+	}
+
+	diffDocumentation(oldItem, newItem, name, add);
+
+	return changes;
+}
+
+/**
+ * Compare the signatures of two versions of a callable symbol, pairing
+ * overloads by position
+ */
+function diffCallables(
+	oldCallables: Callable[],
+	newCallables: Callable[],
+	name: string,
+	add: (impact: ChangeImpact, message: string) => void,
+): void {
+	const count = Math.max(oldCallables.length, newCallables.length);
+
+	for (let index = 0; index < count; index++) {
+		const oldCallable = oldCallables[index];
+		const newCallable = newCallables[index];
+		const label =
+			count > 1 ? `overload ${index + 1} of \`${name}\`` : `\`${name}\``;
+
+		if (!newCallable) {
+			add("major", `Removed ${label}`);
+			continue;
+		}
+		if (!oldCallable) {
+			add("minor", `Added ${label}`);
+			continue;
+		}
+
+		diffParameters(oldCallable.parameters, newCallable.parameters, label, add);
+
+		const returnChange = compareTypes(
+			oldCallable.returnType,
+			newCallable.returnType,
+		);
+		if (returnChange !== "same") {
+			// Callers can handle a narrower return type but not a wider one
+			add(
+				returnChange === "narrowed" ? "minor" : "major",
+				`Return type of ${label} ${returnChange} from \`${oldCallable.returnType}\` to \`${newCallable.returnType}\``,
+			);
+		}
+
+		const oldTypeParameters = (oldCallable.typeParameters ?? []).join(", ");
+		const newTypeParameters = (newCallable.typeParameters ?? []).join(", ");
+		if (oldTypeParameters !== newTypeParameters) {
+			add(
+				"major",
+				`Type parameters of ${label} changed from \`<${oldTypeParameters}>\` to \`<${newTypeParameters}>\``,
+			);
+		}
+	}
+}
+
+/**
+ * Compare the parameters of two versions of a signature by position
+ */
+function diffParameters(
+	oldParameters: ParameterDoc[],
+	newParameters: ParameterDoc[],
+	label: string,
+	add: (impact: ChangeImpact, message: string) => void,
+): void {
+	const count = Math.max(oldParameters.length, newParameters.length);
+
+	for (let index = 0; index < count; index++) {
+		const oldParameter = oldParameters[index];
+		const newParameter = newParameters[index];
+
+		if (!newParameter) {
+			add("major", `Removed parameter \`${oldParameter.name}\` of ${label}`);
+			continue;
+		}
+		if (!oldParameter) {
+			add(
+				newParameter.isOptional ? "minor" : "major",
+				`Added ${newParameter.isOptional ? "optional" : "required"} parameter \`${newParameter.name}\` to ${label}`,
+			);
+			continue;
+		}
+
+		if (oldParameter.isOptional && !newParameter.isOptional) {
+			add(
+				"major",
+				`Parameter \`${newParameter.name}\` of ${label} is now required`,
+			);
+		} else if (!oldParameter.isOptional && newParameter.isOptional) {
+			add(
+				"minor",
+				`Parameter \`${newParameter.name}\` of ${label} is now optional`,
+			);
+		}
+
+		const typeChange = compareTypes(oldParameter.type, newParameter.type);
+		if (typeChange !== "same") {
+			// Callers can pass anything a wider type accepts
+			add(
+				typeChange === "widened" ? "minor" : "major",
+				`Type of parameter \`${newParameter.name}\` of ${label} ${typeChange} from \`${oldParameter.type}\` to \`${newParameter.type}\``,
+			);
+		}
+	}
+}
+
+/**
+ * Compare the heritage and members of two versions of a class or interface
+ */
+function diffContainer(
+	oldContainer: ClassDoc | InterfaceDoc,
+	newContainer: ClassDoc | InterfaceDoc,
+): ApiChange[] {
+	const changes: ApiChange[] = [];
+	const name = getQualifiedName(newContainer);
+	const isInterface = newContainer.kind === DocItemKind.Interface;
+	const add = (impact: ChangeImpact, message: string) =>
+		changes.push(createChange(impact, "changed", newContainer, message));
+
+	const oldHeritage = describeHeritage(oldContainer);
+	const newHeritage = describeHeritage(newContainer);
+	if (oldHeritage !== newHeritage) {
+		add(
+			"major",
+			`Heritage of \`${name}\` changed from \`${oldHeritage || "none"}\` to \`${newHeritage || "none"}\``,
+		);
+	}
+
+	const oldTypeParameters = (oldContainer.typeParameters ?? []).join(", ");
+	const newTypeParameters = (newContainer.typeParameters ?? []).join(", ");
+	if (oldTypeParameters !== newTypeParameters) {
+		add(
+			"major",
+			`Type parameters of \`${name}\` changed from \`<${oldTypeParameters}>\` to \`<${newTypeParameters}>\``,
+		);
+	}
+
+	const oldMembers = collectMembers(oldContainer);
+	const newMembers = collectMembers(newContainer);
+
+	for (const [key, oldMember] of oldMembers) {
+		const newMember = newMembers.get(key);
+		const memberName = `${name}.${oldMember.name}`;
+
+		if (!newMember) {
+			changes.push(
+				createChange(
+					"major",
+					"removed",
+					oldMember,
+					`Removed ${describeKind(oldMember.kind)} \`${memberName}\``,
+					memberName,
+				),
+			);
+			continue;
+		}
+
+		const addMember = (
+			impact: ChangeImpact,
+			message: string,
+			category: ChangeCategory = "changed",
+		) =>
+			changes.push(
+				createChange(impact, category, newMember, message, memberName),
+			);
+
+		if (oldMember.visibility !== newMember.visibility) {
+			// Protected members are only reachable from subclasses
+			addMember(
+				newMember.visibility === "protected" ? "major" : "minor",
+				`\`${memberName}\` changed from ${oldMember.visibility ?? "public"} to ${newMember.visibility ?? "public"}`,
+			);
+		}
+
+		if (newMember.kind === DocItemKind.Property) {
+			diffProperty(
+				oldMember as PropertyDoc,
+				newMember as PropertyDoc,
+				memberName,
+				addMember,
+			);
+		} else {
+			diffCallables(
+				getCallables(oldMember as MethodDoc),
+				getCallables(newMember as MethodDoc),
+				memberName,
+				addMember,
+			);
+		}
+
+		diffDocumentation(oldMember, newMember, memberName, addMember);
+	}
+
+	for (const [key, newMember] of newMembers) {
+		if (oldMembers.has(key)) {
+			continue;
+		}
+
+		// Implementations of an interface must provide its new required members
+		const isRequired =
+			isInterface &&
+			!(newMember.kind === DocItemKind.Property && newMember.isOptional);
+		const memberName = `${name}.${newMember.name}`;
+
+		changes.push(
+			createChange(
+				isRequired ? "major" : "minor",
+				"added",
+				newMember,
+				`Added ${isRequired ? "required " : ""}${describeKind(newMember.kind)} \`${memberName}\``,
+				memberName,
+			),
+		);
+	}
+
+	return changes;
+}
+
+/**
+ * Compare two versions of a property
+ */
+function diffProperty(
+	oldProperty: PropertyDoc,
+	newProperty: PropertyDoc,
+	name: string,
+	add: (impact: ChangeImpact, message: string) => void,
+): void {
+	if (!oldProperty.isReadonly && newProperty.isReadonly) {
+		add("major", `\`${name}\` is now readonly`);
+	} else if (oldProperty.isReadonly && !newProperty.isReadonly) {
+		add("minor", `\`${name}\` is no longer readonly`);
+	}
+
+	if (oldProperty.isOptional !== newProperty.isOptional) {
+		add(
+			"major",
+			`\`${name}\` is now ${newProperty.isOptional ? "optional" : "required"}`,
+		);
+	}
+
+	const typeChange = compareTypes(oldProperty.type, newProperty.type);
+	if (typeChange !== "same") {
+		// Readers of a readonly property can handle a narrower type, but
+		// writable properties are also assigned to
+		add(
+			typeChange === "narrowed" && newProperty.isReadonly ? "minor" : "major",
+			`Type of \`${name}\` ${typeChange} from \`${oldProperty.type}\` to \`${newProperty.type}\``,
+		);
+	}
+}
+
+/**
+ * Compare two versions of an enum
+ */
+function diffEnum(
+	oldEnum: EnumDoc,
+	newEnum: EnumDoc,
+	name: string,
+	add: (impact: ChangeImpact, message: string) => void,
+): void {
+	const newMembers = new Map(
+		newEnum.members.map((member) => [member.name, member]),
+	);
+	const oldNames = new Set(oldEnum.members.map((member) => member.name));
+
+	for (const oldMember of oldEnum.members) {
+		const newMember = newMembers.get(oldMember.name);
+
+		if (!newMember) {
+			add("major", `Removed enum member \`${name}.${oldMember.name}\``);
+		} else if (oldMember.value !== newMember.value) {
+			add(
+				"major",
+				`Value of \`${name}.${oldMember.name}\` changed from \`${oldMember.value}\` to \`${newMember.value}\``,
+			);
+		}
+	}
+
+	for (const newMember of newEnum.members) {
+		if (!oldNames.has(newMember.name)) {
+			add("minor", `Added enum member \`${name}.${newMember.name}\``);
+		}
+	}
+}
+
+/**
+ * Compare two versions of a type alias
+ */
+function diffTypeAlias(
+	oldAlias: TypeAliasDoc,
+	newAlias: TypeAliasDoc,
+	name: string,
+	add: (impact: ChangeImpact, message: string) => void,
+): void {
+	const typeChange = compareTypes(oldAlias.type, newAlias.type);
+	if (typeChange !== "same") {
+		add(
+			typeChange === "widened" ? "minor" : "major",
+			`Type \`${name}\` ${typeChange} from \`${oldAlias.type}\` to \`${newAlias.type}\``,
+		);
+	}
+
+	const oldTypeParameters = (oldAlias.typeParameters ?? []).join(", ");
+	const newTypeParameters = (newAlias.typeParameters ?? []).join(", ");
+	if (oldTypeParameters !== newTypeParameters) {
+		add(
+			"major",
+			`Type parameters of \`${name}\` changed from \`<${oldTypeParameters}>\` to \`<${newTypeParameters}>\``,
+		);
+	}
+}
+
+/**
+ * Compare two versions of a variable, like functions when callable
+ */
+function diffVariable(
+	oldVariable: VariableDoc,
+	newVariable: VariableDoc,
+	name: string,
+	add: (impact: ChangeImpact, message: string) => void,
+): void {
+	if (oldVariable.isCallable && newVariable.isCallable) {
+		diffCallables(
+			[getVariableCallable(oldVariable)],
+			[getVariableCallable(newVariable)],
+			name,
+			add,
+		);
+		return;
+	}
+
+	const typeChange = compareTypes(oldVariable.type, newVariable.type);
+	if (typeChange !== "same") {
+		// Constants are only read, so a narrower type is safe for them
+		add(
+			typeChange === "narrowed" && newVariable.isConst ? "minor" : "major",
+			`Type of \`${name}\` ${typeChange} from \`${oldVariable.type}\` to \`${newVariable.type}\``,
+		);
+	}
+}
+
+/**
+ * Report deprecations and documentation changes
+ */
+function diffDocumentation(
+	oldItem: DocItem,
+	newItem: DocItem,
+	name: string,
+	add: (
+		impact: ChangeImpact,
+		message: string,
+		category?: ChangeCategory,
+	) => void,
+): void {
+	const wasDeprecated = oldItem.jsDoc?.deprecated !== undefined;
+	const isDeprecated = newItem.jsDoc?.deprecated !== undefined;
+
+	if (!wasDeprecated && isDeprecated) {
+		add("minor", `Deprecated \`${name}\``, "deprecated");
+	} else if (wasDeprecated && !isDeprecated) {
+		add("minor", `\`${name}\` is no longer deprecated`);
+	}
+
+	// Deprecations are reported above
+	const getDocumentation = (item: DocItem) =>
+		JSON.stringify([
+			item.description ?? "",
+			(item.jsDoc?.tags ?? []).filter((tag) => tag.tag !== "deprecated"),
+		]);
+	if (getDocumentation(oldItem) !== getDocumentation(newItem)) {
+		add("patch", `Documentation of \`${name}\` changed`);
+	}
+}
+
+/**
+ * Get the signatures callers see: the overloads, or the implementation when
+ * there are none
+ */
+function getCallables(item: FunctionDoc | MethodDoc): Callable[] {
+	return item.signatures && item.signatures.length > 0
+		? item.signatures
+		: [item];
+}
+
+/**
+ * Get the signature of a callable variable
+ */
+function getVariableCallable(variable: VariableDoc): Callable {
+	return {
+		parameters: variable.parameters ?? [],
+		returnType: variable.returnType ?? "void",
+		typeParameters: variable.typeParameters,
+	};
+}
+
+/**
+ * Index the public and protected members of a class or interface
+ */
+function collectMembers(
+	container: ClassDoc | InterfaceDoc,
+): Map<string, PropertyDoc | MethodDoc> {
+	const members = new Map<string, PropertyDoc | MethodDoc>();
+	const [visible] = filterItemsByVisibility(
+		[container],
+		["public", "protected"],
+	) as (ClassDoc | InterfaceDoc)[];
+
+	for (const member of [
+		...("constructors" in visible ? visible.constructors : []),
+		...visible.properties,
+		...visible.methods,
+	]) {
+		const key = `${member.isStatic ? "static " : ""}${member.name}`;
+		if (!members.has(key)) {
+			members.set(key, member);
+		}
+	}
+
+	return members;
+}
+
+/**
+ * Describe the base class, implemented and extended interfaces
+ */
+function describeHeritage(container: ClassDoc | InterfaceDoc): string {
+	if (container.kind === DocItemKind.Class) {
+		const cls = container as ClassDoc;
+		return [
+			cls.extends && `extends ${cls.extends}`,
+			cls.implements?.length && `implements ${cls.implements.join(", ")}`,
+		]
+			.filter(Boolean)
+			.join(" ");
+	}
+
+	const extended = (container as InterfaceDoc).extends ?? [];
+	return extended.length > 0 ? `extends ${extended.join(", ")}` : "";
+}
+
+/**
+ * Compare two type texts, treating unions as sets of their members
+ */
+function compareTypes(oldType: string, newType: string): TypeChange {
+	const oldMembers = splitUnion(oldType);
+	const newMembers = splitUnion(newType);
+
+	if (
+		oldMembers.size === newMembers.size &&
+		[...oldMembers].every((member) => newMembers.has(member))
+	) {
+		return "same";
+	}
+
+	if (isTopType(newMembers)) {
+		return "widened";
+	}
+	if (isTopType(oldMembers)) {
+		return "narrowed";
+	}
+
+	if ([...newMembers].every((member) => oldMembers.has(member))) {
+		return "narrowed";
+	}
+	if ([...oldMembers].every((member) => newMembers.has(member))) {
+		return "widened";
+	}
+
+	return "changed";
+}
+
+/**
+ * Whether a type accepts every value
+ */
+function isTopType(members: Set<string>): boolean {
+	return members.has("any") || members.has("unknown");
+}
+
+/**
+ * Split a type at its top-level `|` separators, ignoring whitespace
+ */
+function splitUnion(type: string): Set<string> {
+	const members: string[] = [];
+	let depth = 0;
+	let current = "";
+
+	for (let index = 0; index < type.length; index++) {
+		const char = type[index];
+
+		if ("([{<".includes(char)) {
+			depth++;
+		} else if (
+			")]}".includes(char) ||
+			(char === ">" && type[index - 1] !== "=")
+		) {
+			depth--;
+		} else if (char === "|" && depth === 0) {
+			members.push(current);
+			current = "";
+			continue;
+		}
+
+		current += char;
+	}
+	members.push(current);
+
+	return new Set(
+		members
+			.map((member) => member.replace(/\s+/g, " ").trim())
+			.filter((member) => member.length > 0),
+	);
+}
+
+/**
+ * Describe a kind of item in a sentence, e.g. `type alias`
+ */
+export function describeKind(kind: DocItemKind): string {
+	return kind === DocItemKind.TypeAlias ? "type alias" : kind;
+}
+
+/**
+ * Create a change for a symbol
+ */
+function createChange(
+	impact: ChangeImpact,
+	category: ChangeCategory,
+	item: DocItem,
+	message: string,
+	symbol = getQualifiedName(item),
+): ApiChange {
+	return { impact, category, symbol, kind: item.kind, message };
+}
+
+/**
+ * Format API changes as text grouped by impact, ending with the
+ * recommended version bump
+ */
+export function formatApiDiff(diff: ApiDiff): string {
+	let text = "";
+
+	for (const impact of IMPACT_ORDER) {
+		const changes = diff.changes.filter((change) => change.impact === impact);
+		if (changes.length === 0) {
+			continue;
+		}
+
+		text += `${impact[0].toUpperCase()}${impact.slice(1)} changes:\n`;
+		for (const change of changes) {
+			text += `  - ${change.message}\n`;
+		}
+		text += "\n";
+	}
+
+	if (diff.changes.length === 0) {
+		text += "No API changes.\n\n";
+	}
+
+	text += `Recommended version bump: ${diff.bump}\n`;
+
+	return text;
+}
@@ -0,0 +1,313 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { type Result, err, ok } from "neverthrow";
+
+import {
+	filterItemsByVisibility,
+	formatEnumDeclaration,
+	formatFunctionSignature,
+	formatMemberModifiers,
+	formatMethodSignature,
+	formatTypeAliasDeclaration,
+	formatVariableDeclaration,
+	sortItems,
+} from "../markdown/formatters";
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type EnumDoc,
+	type FunctionDoc,
+	type InterfaceDoc,
+	type MethodDoc,
+	type NamespaceDoc,
+	type PropertyDoc,
+	type SignatureDoc,
+	type TypeAliasDoc,
+	type VariableDoc,
+} from "../parser/traversal";
+import { formatUnifiedDiff } from "./diff";
+
+/**
+ * Error types that can occur while checking an API report
+ */
+export type ApiReportError = {
+	type: "io_error";
+	path: string;
+	details: string;
+};
+
+/**
+ * Outcome of comparing a regenerated API report with the committed one
+ */
+export type ApiCheckResult =
+	| { status: "unchanged" }
+	| { status: "missing" }
+	| { status: "changed"; diff: string };
+
+/**
+ * Options for formatting an API report
+ */
+export interface ApiReportOptions {
+	title: string;
+	/**
+	 * Root of the source tree that file headings are made relative to
+	 */
+	rootDir: string;
+}
+
+/**
+ * Format the API report: every exported declaration with its public and
+ * protected members, grouped by source file and sorted so that the report
+ * only changes when the API does
+ */
+export function formatApiReport(
+	items: DocItem[],
+	options: ApiReportOptions,
+): string {
+	const fileGroups = new Map<string, DocItem[]>();
+
+	for (const item of filterItemsByVisibility(items, ["public", "protected"])) {
+		const filePath = path
+			.relative(options.rootDir, item.location.filePath)
+			.split(path.sep)
+			.join("/");
+
+		if (!fileGroups.has(filePath)) {
+			fileGroups.set(filePath, []);
+		}
+
+		fileGroups.get(filePath)?.push(item);
+	}
+
+	let report = `## API Report File for "${options.title}"\n\n`;
+	report +=
+		"> Do not edit this file. It is a report generated by `hermes api-check --update`.\n\n";
+	report += "```ts\n";
+
+	for (const filePath of [...fileGroups.keys()].sort()) {
+		report += `\n// ${filePath}\n\n`;
+
+		report += sortItems(fileGroups.get(filePath) ?? [])
+			.map(formatReportItem)
+			.join("\n");
+	}
+
+	report += "```\n";
+
+	return report;
+}
+
+/**
+ * Compare a regenerated API report with the report at the given path
+ */
+export async function checkApiReport(
+	reportPath: string,
+	report: string,
+): Promise<Result<ApiCheckResult, ApiReportError>> {
+	let committed: string;
+
+	try {
+		committed = await fs.readFile(reportPath, "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return ok({ status: "missing" });
+		}
+
+		return err({
+			type: "io_error",
+			path: reportPath,
+			details: error instanceof Error ? error.message : String(error),
+		});
+	}
+
+	// Reports checked out with Windows line endings are still up to date
+	const diff = formatUnifiedDiff(
+		committed.replace(/\r\n/g, "\n"),
+		report,
+		`${reportPath} (committed)`,
+		`${reportPath} (current)`,
+	);
+
+	return ok(diff ? { status: "changed", diff } : { status: "unchanged" });
+}
+
+/**
+ * Format an exported declaration of the report
+ */
+function formatReportItem(item: DocItem): string {
+	const isAmbient =
+		item.kind === DocItemKind.Namespace &&
+		(item as NamespaceDoc).declarationKind !== "namespace";
+	const exportKeyword = isAmbient ? "" : "export ";
+
+	return `${formatDeprecationMarker(item)}${formatReportDeclaration(item, exportKeyword)}`;
+}
+
+/**
+ * Format a declaration, starting each of its signatures with the keyword
+ */
+function formatReportDeclaration(item: DocItem, keyword: string): string {
+	switch (item.kind) {
+		case DocItemKind.Function: {
+			const func = item as FunctionDoc;
+			return formatSignatures(
+				func,
+				func.signatures,
+				(signature) => `${keyword}${formatFunctionSignature(signature)}`,
+			);
+		}
+		case DocItemKind.Class:
+			return `${keyword}${formatContainer(item as ClassDoc)}`;
+		case DocItemKind.Interface:
+			return `${keyword}${formatContainer(item as InterfaceDoc)}`;
+		case DocItemKind.Enum:
+			return `${keyword}${formatEnumDeclaration(item as EnumDoc)}`;
+		case DocItemKind.TypeAlias:
+			return `${keyword}${formatTypeAliasDeclaration(item as TypeAliasDoc)}`;
+		case DocItemKind.Variable:
+			return `${keyword}${formatVariableDeclaration(item as VariableDoc)}`;
+		case DocItemKind.Namespace:
+			return `${keyword}${formatNamespace(item as NamespaceDoc)}`;
+		default:
+			return `// ${item.kind} ${item.name}\n`;
+	}
+}
+
+/**
+ * Format each call signature of an overloaded function or method, or the
+ * implementation signature when it is not overloaded
+ */
+function formatSignatures<T extends FunctionDoc | MethodDoc>(
+	item: T,
+	signatures: SignatureDoc[] | undefined,
+	format: (item: T) => string,
+): string {
+	if (!signatures || signatures.length === 0) {
+		return `${format(item)};\n`;
+	}
+
+	return signatures
+		.map(
+			(signature) =>
+				`${format({
+					...item,
+					parameters: signature.parameters,
+					returnType: signature.returnType,
+					typeParameters: signature.typeParameters,
+				})};\n`,
+		)
+		.join("");
+}
+
+/**
+ * Format a class or interface with its members, constructors first and the
+ * rest sorted by name
+ */
+function formatContainer(container: ClassDoc | InterfaceDoc): string {
+	let declaration = `${container.kind === DocItemKind.Class ? "class" : "interface"} ${container.name}`;
+
+	if (container.typeParameters && container.typeParameters.length > 0) {
+		declaration += `<${container.typeParameters.join(", ")}>`;
+	}
+
+	if (container.kind === DocItemKind.Class) {
+		const cls = container as ClassDoc;
+		if (cls.extends) {
+			declaration += ` extends ${cls.extends}`;
+		}
+		if (cls.implements && cls.implements.length > 0) {
+			declaration += ` implements ${cls.implements.join(", ")}`;
+		}
+	} else {
+		const iface = container as InterfaceDoc;
+		if (iface.extends && iface.extends.length > 0) {
+			declaration += ` extends ${iface.extends.join(", ")}`;
+		}
+	}
+
+	declaration += " {\n";
+
+	const members: (PropertyDoc | MethodDoc)[] = [
+		...("constructors" in container ? container.constructors : []),
+		...[...container.properties, ...container.methods].sort((a, b) =>
+			a.name.localeCompare(b.name),
+		),
+	];
+
+	for (const member of members) {
+		const formatted =
+			member.kind === DocItemKind.Property
+				? `${formatPropertySignature(member as PropertyDoc)};\n`
+				: formatSignatures(
+						member as MethodDoc,
+						(member as MethodDoc).signatures,
+						formatMethodSignature,
+					);
+
+		declaration += indent(`${formatDeprecationMarker(member)}${formatted}`);
+	}
+
+	declaration += "}\n";
+
+	return declaration;
+}
+
+/**
+ * Format a property as it would appear in a declaration file
+ */
+function formatPropertySignature(property: PropertyDoc): string {
+	let signature = formatMemberModifiers(property);
+
+	if (property.isReadonly) {
+		signature += "readonly ";
+	}
+
+	signature += property.name;
+
+	if (property.isOptional) {
+		signature += "?";
+	}
+
+	return `${signature}: ${property.type}`;
+}
+
+/**
+ * Format a namespace or ambient module with its members
+ */
+function formatNamespace(namespace: NamespaceDoc): string {
+	let declaration: string;
+
+	switch (namespace.declarationKind) {
+		case "module":
+			declaration = `declare module "${namespace.name}" {\n`;
+			break;
+		case "global":
+			declaration = "declare global {\n";
+			break;
+		default:
+			declaration = `namespace ${namespace.name} {\n`;
+	}
+
+	for (const member of sortItems(namespace.members)) {
+		declaration += indent(formatReportItem(member));
+	}
+
+	declaration += "}\n";
+
+	return declaration;
+}
+
+/**
+ * Mark deprecated declarations, since deprecating is an API change
+ */
+function formatDeprecationMarker(item: DocItem): string {
+	return item.jsDoc?.deprecated !== undefined ? "/** @deprecated */\n" : "";
+}
+
+/**
+ * Indent every non-empty line by two spaces
+ */
+function indent(text: string): string {
+	return text.replace(/^(?=.)/gm, "  ");
+}
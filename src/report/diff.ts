@@ -0,0 +1,175 @@
+/**
+ * A line of a diff: unchanged, removed or added
+ */
+interface DiffLine {
+	type: " " | "-" | "+";
+	text: string;
+}
+
+// Lines of unchanged context shown around each change
+const CONTEXT_LINES = 3;
+
+// Largest number of line pairs compared when looking for the smallest diff;
+// beyond it the changed region is shown as removed and then added
+const MAX_COMPARISONS = 4_000_000;
+
+/**
+ * Format the differences between two texts as a unified diff, or return an
+ * empty string when they are the same
+ */
+export function formatUnifiedDiff(
+	oldText: string,
+	newText: string,
+	oldName: string,
+	newName: string,
+): string {
+	if (oldText === newText) {
+		return "";
+	}
+
+	const lines = diffLines(oldText.split("\n"), newText.split("\n"));
+
+	let diff = `--- ${oldName}\n+++ ${newName}\n`;
+
+	for (const [start, end] of getHunkRanges(lines)) {
+		// Line numbers are one-based and count the lines before the hunk
+		let oldStart = 1;
+		let newStart = 1;
+		for (const line of lines.slice(0, start)) {
+			if (line.type !== "+") {
+				oldStart++;
+			}
+			if (line.type !== "-") {
+				newStart++;
+			}
+		}
+
+		const hunk = lines.slice(start, end);
+		const oldCount = hunk.filter((line) => line.type !== "+").length;
+		const newCount = hunk.filter((line) => line.type !== "-").length;
+
+		// Empty ranges start at the line before them
+		diff += `@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@\n`;
+		for (const line of hunk) {
+			diff += `${line.type}${line.text}\n`;
+		}
+	}
+
+	return diff;
+}
+
+/**
+ * Compute the lines removed from and added to the old lines, keeping the
+ * longest common subsequence unchanged
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+	// Unchanged lines at both ends need no comparison
+	let prefix = 0;
+	while (
+		prefix < oldLines.length &&
+		prefix < newLines.length &&
+		oldLines[prefix] === newLines[prefix]
+	) {
+		prefix++;
+	}
+
+	let suffix = 0;
+	while (
+		suffix < oldLines.length - prefix &&
+		suffix < newLines.length - prefix &&
+		oldLines[oldLines.length - 1 - suffix] ===
+			newLines[newLines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+	const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+	const unchanged = (text: string): DiffLine => ({ type: " ", text });
+
+	return [
+		...oldLines.slice(0, prefix).map(unchanged),
+		...diffMiddle(oldMiddle, newMiddle),
+		...oldLines.slice(oldLines.length - suffix).map(unchanged),
+	];
+}
+
+/**
+ * Diff the changed region of two texts using a longest common subsequence
+ * table
+ */
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+	const n = oldLines.length;
+	const m = newLines.length;
+
+	if (n * m > MAX_COMPARISONS) {
+		return [
+			...oldLines.map((text): DiffLine => ({ type: "-", text })),
+			...newLines.map((text): DiffLine => ({ type: "+", text })),
+		];
+	}
+
+	// lengths[i * (m + 1) + j] is the LCS length of oldLines[i:] and newLines[j:]
+	const lengths = new Uint32Array((n + 1) * (m + 1));
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lengths[i * (m + 1) + j] =
+				oldLines[i] === newLines[j]
+					? lengths[(i + 1) * (m + 1) + j + 1] + 1
+					: Math.max(
+							lengths[(i + 1) * (m + 1) + j],
+							lengths[i * (m + 1) + j + 1],
+						);
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+
+	while (i < n || j < m) {
+		if (i < n && j < m && oldLines[i] === newLines[j]) {
+			lines.push({ type: " ", text: oldLines[i] });
+			i++;
+			j++;
+		} else if (
+			j >= m ||
+			(i < n && lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])
+		) {
+			lines.push({ type: "-", text: oldLines[i] });
+			i++;
+		} else {
+			lines.push({ type: "+", text: newLines[j] });
+			j++;
+		}
+	}
+
+	return lines;
+}
+
+/**
+ * Get the ranges of diff lines shown as hunks: each change with its context,
+ * merging changes whose context overlaps
+ */
+function getHunkRanges(lines: DiffLine[]): [number, number][] {
+	const ranges: [number, number][] = [];
+
+	for (const [index, line] of lines.entries()) {
+		if (line.type === " ") {
+			continue;
+		}
+
+		const start = Math.max(0, index - CONTEXT_LINES);
+		const end = Math.min(lines.length, index + CONTEXT_LINES + 1);
+		const last = ranges[ranges.length - 1];
+
+		if (last && start <= last[1]) {
+			last[1] = end;
+		} else {
+			ranges.push([start, end]);
+		}
+	}
+
+	return ranges;
+}
@@ -0,0 +1,3 @@
+export * from "./api-diff";
+export * from "./api-report";
+export * from "./diff";
@@ -0,0 +1,323 @@
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import { type Result, err, ok } from "neverthrow";
+
+import type { HermesConfig } from "../config";
+import type { GeneratorError } from "../generator";
+import {
+	DocumentationWatcher,
+	type WatchOptions,
+	type WatchUpdate,
+} from "../generator/watch";
+import {
+	escapeHtml,
+	highlightCode,
+	markdownToHtml,
+	renderHtmlPage,
+	toHtmlHref,
+} from "../html";
+import {
+	type TocSection,
+	getTableOfContents,
+	sortItems,
+} from "../markdown/formatters";
+import type { DocItem } from "../parser/traversal";
+
+/**
+ * Error types that can occur while starting the server
+ */
+export type ServeError =
+	| GeneratorError
+	| { type: "server_error"; details: string };
+
+/**
+ * Options for serving the documentation
+ */
+export interface ServeOptions
+	extends Pick<WatchOptions, "onWarning" | "onUpdate" | "onError"> {
+	/**
+	 * Port to listen on; 0 picks a free port
+	 */
+	port?: number;
+	host?: string;
+	/**
+	 * Regenerate the documentation and reload open pages when source files
+	 * change
+	 */
+	watch?: boolean;
+}
+
+// Path of the server-sent events stream that tells pages to reload
+const RELOAD_PATH = "/__hermes/reload";
+
+// Script added to every page to reload it when the documentation changes
+const RELOAD_SCRIPT = `new EventSource("${RELOAD_PATH}").addEventListener("reload", () => location.reload());`;
+
+// Name of the index page, served for directories
+const INDEX_NAME = "index";
+
+// Content types of the files served as they are
+const CONTENT_TYPES: Record<string, string> = {
+	".css": "text/css; charset=utf-8",
+	".gif": "image/gif",
+	".html": "text/html; charset=utf-8",
+	".jpg": "image/jpeg",
+	".js": "text/javascript; charset=utf-8",
+	".json": "application/json; charset=utf-8",
+	".md": "text/plain; charset=utf-8",
+	".png": "image/png",
+	".svg": "image/svg+xml",
+	".txt": "text/plain; charset=utf-8",
+};
+
+/**
+ * Serves the generated documentation as HTML pages
+ *
+ * The documentation is generated into the output directory like the watch
+ * mode does, and each Markdown file is converted to HTML when it is
+ * requested, with a sidebar listing every documented item. Open pages are
+ * told to reload through server-sent events whenever the documentation is
+ * regenerated. Pages do not load anything from other hosts.
+ */
+export class DocumentationServer {
+	private config: HermesConfig;
+	private options: ServeOptions;
+	private watcher: DocumentationWatcher;
+	private server = http.createServer((request, response) => {
+		this.handleRequest(request, response).catch((error) => {
+			response.writeHead(500, { "Content-Type": "text/plain; charset=utf-8" });
+			response.end(error instanceof Error ? error.message : String(error));
+		});
+	});
+	private clients = new Set<http.ServerResponse>();
+
+	constructor(
+		config: HermesConfig,
+		patterns: string[],
+		options: ServeOptions = {},
+	) {
+		// Pages are rendered from the Markdown output
+		this.config = { ...config, format: "markdown" };
+		this.options = options;
+		this.watcher = new DocumentationWatcher(this.config, patterns, {
+			onWarning: options.onWarning,
+			onError: options.onError,
+			onUpdate: (update: WatchUpdate) => {
+				options.onUpdate?.(update);
+				this.reload();
+			},
+		});
+	}
+
+	/**
+	 * Generate the documentation and start the server, returning its URL
+	 */
+	public async start(): Promise<Result<string, ServeError>> {
+		const result =
+			this.options.watch === false
+				? await this.watcher.update([])
+				: await this.watcher.start();
+		if (result.isErr()) {
+			return err(result.error);
+		}
+
+		const host = this.options.host ?? "localhost";
+
+		return new Promise((resolve) => {
+			this.server.once("error", (error) => {
+				this.watcher.close();
+				resolve(err({ type: "server_error", details: error.message }));
+			});
+			this.server.listen(this.options.port ?? 3000, host, () => {
+				const { port } = this.server.address() as AddressInfo;
+				resolve(ok(`http://${host}:${port}/`));
+			});
+		});
+	}
+
+	/**
+	 * Stop watching the source files and close open connections
+	 */
+	public async close(): Promise<void> {
+		this.watcher.close();
+		for (const client of this.clients) {
+			client.end();
+		}
+		this.clients.clear();
+
+		await new Promise<void>((resolve) => {
+			this.server.close(() => resolve());
+			this.server.closeAllConnections();
+		});
+	}
+
+	/**
+	 * Respond with a page, a file of the output directory or the reload
+	 * stream
+	 */
+	private async handleRequest(
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+	): Promise<void> {
+		const { pathname } = new URL(request.url ?? "/", "http://localhost");
+
+		if (pathname === RELOAD_PATH) {
+			this.addClient(request, response);
+			return;
+		}
+
+		const outDir = path.resolve(this.config.outDir);
+		const requestPath = decodePathname(
+			pathname.endsWith("/") ? `${pathname}${INDEX_NAME}.html` : pathname,
+		);
+
+		// Paths with malformed escapes name no file
+		if (requestPath === undefined) {
+			this.sendNotFound(response, pathname);
+			return;
+		}
+
+		const filePath = path.resolve(outDir, `.${requestPath}`);
+
+		// Only files inside the output directory are served
+		if (!filePath.startsWith(`${outDir}${path.sep}`)) {
+			this.sendNotFound(response, requestPath);
+			return;
+		}
+
+		if (path.extname(filePath) === ".html") {
+			const markdownPath = filePath.replace(/\.html$/, ".md");
+			const markdown = await fs.promises
+				.readFile(markdownPath, "utf8")
+				.catch(() => undefined);
+
+			if (markdown !== undefined) {
+				response.writeHead(200, { "Content-Type": CONTENT_TYPES[".html"] });
+				response.end(
+					this.renderPage(
+						markdown,
+						path.relative(outDir, markdownPath).split(path.sep).join("/"),
+					),
+				);
+				return;
+			}
+		}
+
+		const content = await fs.promises.readFile(filePath).catch(() => undefined);
+		if (content === undefined) {
+			this.sendNotFound(response, requestPath);
+			return;
+		}
+
+		response.writeHead(200, {
+			"Content-Type":
+				CONTENT_TYPES[path.extname(filePath)] ?? "application/octet-stream",
+		});
+		response.end(content);
+	}
+
+	/**
+	 * Render a Markdown file of the documentation as an HTML page, titled
+	 * after the file
+	 */
+	private renderPage(markdown: string, relativePath: string): string {
+		const title = relativePath.replace(/\.md$/, "");
+
+		return renderHtmlPage({
+			title: title === INDEX_NAME ? this.config.title : title,
+			siteTitle: this.config.title,
+			homeHref: "/",
+			content: markdownToHtml(markdown, {
+				rewriteHref: toHtmlHref,
+				highlight: highlightCode,
+			}),
+			sidebar: this.getSidebar(),
+			scripts: [RELOAD_SCRIPT],
+		});
+	}
+
+	/**
+	 * Respond with a page saying that nothing was found
+	 */
+	private sendNotFound(
+		response: http.ServerResponse,
+		requestPath: string,
+	): void {
+		response.writeHead(404, { "Content-Type": CONTENT_TYPES[".html"] });
+		response.end(
+			renderHtmlPage({
+				title: "Page Not Found",
+				siteTitle: this.config.title,
+				homeHref: "/",
+				content: `<h1>Page Not Found</h1>\n<p>There is no documentation at <code>${escapeHtml(requestPath)}</code>.</p>\n`,
+				sidebar: this.getSidebar(),
+				scripts: [RELOAD_SCRIPT],
+			}),
+		);
+	}
+
+	/**
+	 * Get the sidebar listing every documented item, linking to the page it
+	 * is rendered on
+	 */
+	private getSidebar(): TocSection[] {
+		const outDir = path.resolve(this.config.outDir);
+		const pagePaths = new Map<DocItem, string>();
+
+		for (const [outputPath, items] of this.watcher.getOutputFiles()) {
+			const relativePath = path
+				.relative(outDir, path.resolve(outputPath))
+				.split(path.sep)
+				.join("/");
+			for (const item of items) {
+				pagePaths.set(item, `/${encodeURI(toHtmlHref(relativePath))}`);
+			}
+		}
+
+		return getTableOfContents(
+			sortItems([...pagePaths.keys()]),
+			this.config.markdownOptions.tocDepth,
+			(item) => pagePaths.get(item) ?? "",
+		);
+	}
+
+	/**
+	 * Keep a connection open to send reload events to a page
+	 */
+	private addClient(
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+	): void {
+		response.writeHead(200, {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+			Connection: "keep-alive",
+		});
+		response.write(": connected\n\n");
+
+		this.clients.add(response);
+		request.on("close", () => this.clients.delete(response));
+	}
+
+	/**
+	 * Tell open pages to reload
+	 */
+	private reload(): void {
+		for (const client of this.clients) {
+			client.write("event: reload\ndata: {}\n\n");
+		}
+	}
+}
+
+/**
+ * Decode the escapes of a request path, or `undefined` if they are malformed
+ */
+function decodePathname(pathname: string): string | undefined {
+	try {
+		return decodeURIComponent(pathname);
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,122 @@
+import { escapeHtml } from "../html";
+import {
+	formatTocEntry,
+	getSlug,
+	getTableOfContents,
+	sortItems,
+} from "../markdown/formatters";
+import { GENERATED_MARKER, type SiteContext, type SiteFile } from "./site";
+
+// Version of Docsify loaded by the scaffolded index page
+const DOCSIFY_VERSION = "4";
+
+/**
+ * Get the files that make the output directory a Docsify site
+ *
+ * `_sidebar.md` lists the items of each module by kind, down to `tocDepth`,
+ * and `_coverpage.md` shows the title and description; both are generated.
+ * `index.html` holds the Docsify configuration and is only scaffolded, as
+ * is `.nojekyll`, which stops GitHub Pages from hiding files starting with
+ * an underscore.
+ */
+export function getDocsifyFiles(context: SiteContext): SiteFile[] {
+	return [
+		{
+			fileName: "index.html",
+			content: formatDocsifyIndex(context),
+			kind: "scaffold",
+		},
+		{
+			fileName: "_sidebar.md",
+			content: formatDocsifySidebar(context),
+			kind: "generated",
+		},
+		{
+			fileName: "_coverpage.md",
+			content: formatDocsifyCoverpage(context),
+			kind: "generated",
+		},
+		{ fileName: ".nojekyll", content: "", kind: "scaffold" },
+	];
+}
+
+/**
+ * Format the sidebar, linking to the home page and to the items of each
+ * module grouped by kind
+ */
+function formatDocsifySidebar({
+	config,
+	modules,
+	pagePaths,
+}: SiteContext): string {
+	let markdown = `<!-- ${GENERATED_MARKER} -->\n\n- [Overview](/)\n`;
+
+	for (const [moduleName, items] of modules) {
+		markdown += `- **${moduleName}**\n`;
+
+		// Links start at the root since Docsify resolves them from each page
+		const sections = getTableOfContents(
+			sortItems(items),
+			config.markdownOptions.tocDepth,
+			(item) => `/${encodeURI(pagePaths.get(item) ?? "")}`,
+		);
+
+		for (const section of sections) {
+			markdown += `  - ${section.heading}\n`;
+			for (const entry of section.entries) {
+				markdown += formatTocEntry(entry, "    ");
+			}
+		}
+	}
+
+	return markdown;
+}
+
+/**
+ * Format the cover page from the title and description
+ */
+function formatDocsifyCoverpage({ config }: SiteContext): string {
+	let markdown = `<!-- ${GENERATED_MARKER} -->\n\n# ${config.title}\n\n`;
+
+	if (config.description) {
+		markdown += `> ${config.description}\n\n`;
+	}
+
+	// The home page starts with the title as its heading
+	markdown += `[Get Started](#${getSlug(config.title)})\n`;
+
+	return markdown;
+}
+
+/**
+ * Format the page that loads Docsify with the generated sidebar and cover
+ * page, starting at the generated index
+ */
+function formatDocsifyIndex({ config }: SiteContext): string {
+	const name = JSON.stringify(config.title).replace(/</g, "\\u003c");
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(config.title)}</title>
+  <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/docsify@${DOCSIFY_VERSION}/lib/themes/vue.css">
+</head>
+<body>
+  <div id="app"></div>
+  <script>
+    window.$docsify = {
+      name: ${name},
+      homepage: "index.md",
+      loadSidebar: true,
+      coverpage: true,
+      relativePath: true,
+      auto2top: true,
+    };
+  </script>
+  <script src="https://cdn.jsdelivr.net/npm/docsify@${DOCSIFY_VERSION}"></script>
+</body>
+</html>
+`;
+}
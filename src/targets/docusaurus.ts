@@ -0,0 +1,136 @@
+import path from "node:path";
+
+import { INDEX_NAME } from "../generator/layout";
+import {
+	GENERATED_MARKER,
+	type SiteContext,
+	type SiteFile,
+	type SiteNavItem,
+	getSiteNavigation,
+	getSitePath,
+} from "./site";
+
+// Name of the sidebar exported by the generated `sidebars.js`
+const SIDEBAR_NAME = "api";
+
+/**
+ * Get the Docusaurus sidebar and category files of the output directory
+ *
+ * `sidebars.js` exports the navigation as the `api` sidebar, for
+ * `sidebarPath` or to merge into an existing sidebars file. Each directory
+ * also gets a `_category_.json` so that autogenerated sidebars show the
+ * same labels and order.
+ */
+export function getDocusaurusFiles(context: SiteContext): SiteFile[] {
+	const navigation = getSiteNavigation(context);
+	const sidebar = navigation.map((item) => getSidebarItem(item, context));
+
+	const files: SiteFile[] = [
+		{
+			fileName: "sidebars.js",
+			content: `// ${GENERATED_MARKER}
+/** @type {import("@docusaurus/plugin-content-docs").SidebarsConfig} */
+module.exports = ${JSON.stringify({ [SIDEBAR_NAME]: sidebar }, null, 2)};
+`,
+			kind: "generated",
+		},
+	];
+
+	// The output directory is a category when it is not the docs root
+	if (context.outputDir !== context.siteRoot) {
+		const root: SiteNavItem = {
+			label: context.config.title,
+			pagePath: `${INDEX_NAME}.md`,
+			children: [],
+		};
+		files.push(getCategoryFile("", root, undefined, context));
+	}
+
+	const visit = (items: SiteNavItem[]) => {
+		items.forEach((item, index) => {
+			if (item.directory) {
+				files.push(getCategoryFile(item.directory, item, index + 1, context));
+				visit(item.children);
+			}
+		});
+	};
+	visit(navigation);
+
+	return files;
+}
+
+/**
+ * Add front matter with the title and sidebar label of a page, and without
+ * an edit link since the page is generated
+ */
+export function formatDocusaurusPage(
+	markdown: string,
+	page: SiteNavItem,
+	context: SiteContext,
+): string {
+	const title =
+		page.pagePath === `${INDEX_NAME}.md` ? context.config.title : page.label;
+
+	return `---
+title: ${JSON.stringify(title)}
+sidebar_label: ${JSON.stringify(page.label)}
+custom_edit_url: null
+---
+
+${markdown}`;
+}
+
+/**
+ * Get the sidebar item of a navigation entry, with pages referenced by
+ * their document ID
+ */
+function getSidebarItem(
+	item: SiteNavItem,
+	context: SiteContext,
+): Record<string, unknown> {
+	const id = item.pagePath ? getDocumentId(item.pagePath, context) : undefined;
+
+	if (item.children.length === 0) {
+		return { type: "doc", id, label: item.label };
+	}
+
+	return {
+		type: "category",
+		label: item.label,
+		...(id ? { link: { type: "doc", id } } : {}),
+		items: item.children.map((child) => getSidebarItem(child, context)),
+	};
+}
+
+/**
+ * Get the `_category_.json` file of a directory
+ */
+function getCategoryFile(
+	directory: string,
+	item: SiteNavItem,
+	position: number | undefined,
+	context: SiteContext,
+): SiteFile {
+	const category = {
+		label: item.label,
+		...(position ? { position } : {}),
+		...(item.pagePath
+			? { link: { type: "doc", id: getDocumentId(item.pagePath, context) } }
+			: {}),
+		customProps: { generator: GENERATED_MARKER },
+	};
+
+	return {
+		fileName: path.posix.join(directory, "_category_.json"),
+		content: `${JSON.stringify(category, null, 2)}\n`,
+		kind: "generated",
+	};
+}
+
+/**
+ * Get the Docusaurus document ID of a page: its path in the docs root
+ * without extension
+ */
+function getDocumentId(pagePath: string, context: SiteContext): string {
+	return getSitePath(context, pagePath).replace(/\.md$/, "");
+}
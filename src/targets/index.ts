@@ -0,0 +1,6 @@
+export * from "./docsify";
+export * from "./docusaurus";
+export * from "./mkdocs";
+export * from "./registry";
+export * from "./site";
+export * from "./vitepress";
@@ -0,0 +1,98 @@
+import path from "node:path";
+
+import {
+	GENERATED_MARKER,
+	SECTION_END_MARKER,
+	type SiteContext,
+	type SiteFile,
+	type SiteNavItem,
+	getSiteNavigation,
+	getSitePath,
+} from "./site";
+
+// Name of the MkDocs configuration file, next to the docs directory
+const CONFIG_FILE_NAME = "mkdocs.yml";
+
+// Directory MkDocs reads pages from when `docs_dir` is not set
+const DEFAULT_DOCS_DIR = "docs";
+
+// Labels that can be written in YAML without quotes
+const PLAIN_LABEL_REGEX = /^[\w][\w .()/-]*$/;
+
+/**
+ * Get the `nav` section of `mkdocs.yml`, next to the site root
+ *
+ * The section is replaced on every run, or added to an existing
+ * configuration that has no `nav` yet; a new configuration is created with
+ * the title and the docs directory.
+ */
+export function getMkDocsFiles(context: SiteContext): SiteFile[] {
+	const configDir = path.dirname(context.siteRoot);
+	const docsDir = path.relative(configDir, context.siteRoot);
+
+	let scaffold = `site_name: ${formatYamlString(context.config.title)}\n`;
+	if (context.config.description) {
+		scaffold += `site_description: ${formatYamlString(context.config.description)}\n`;
+	}
+	if (docsDir !== DEFAULT_DOCS_DIR) {
+		scaffold += `docs_dir: ${formatYamlString(docsDir)}\n`;
+	}
+
+	const nav = formatNavItems(getSiteNavigation(context), context, "  ");
+
+	return [
+		{
+			fileName: path.relative(
+				context.outputDir,
+				path.join(configDir, CONFIG_FILE_NAME),
+			),
+			content: `# ${GENERATED_MARKER}\nnav:\n${nav}# ${SECTION_END_MARKER}\n`,
+			kind: "section",
+			scaffold,
+			conflict: /^nav:/m,
+		},
+	];
+}
+
+/**
+ * Format navigation entries as a YAML list, with categories as nested lists
+ * starting with their own page
+ */
+function formatNavItems(
+	items: SiteNavItem[],
+	context: SiteContext,
+	indent: string,
+): string {
+	let yaml = "";
+
+	for (const item of items) {
+		const label = formatYamlString(item.label);
+		const pagePath = item.pagePath
+			? formatYamlString(getSitePath(context, item.pagePath))
+			: undefined;
+
+		if (item.children.length === 0) {
+			yaml += `${indent}- ${label}: ${pagePath}\n`;
+			continue;
+		}
+
+		yaml += `${indent}- ${label}:\n`;
+		if (pagePath) {
+			yaml += `${indent}    - ${pagePath}\n`;
+		}
+		yaml += formatNavItems(item.children, context, `${indent}    `);
+	}
+
+	return yaml;
+}
+
+/**
+ * Write a string as a YAML scalar, quoting it when needed
+ */
+function formatYamlString(value: string): string {
+	return PLAIN_LABEL_REGEX.test(value) &&
+		!/:\s|\s#|\s$/.test(value) &&
+		!/^(true|false|null|yes|no|on|off|~|[\d.]+)$/i.test(value)
+		? value
+		: JSON.stringify(value);
+}
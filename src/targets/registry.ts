@@ -0,0 +1,23 @@
+import { getDocsifyFiles } from "./docsify";
+import { formatDocusaurusPage, getDocusaurusFiles } from "./docusaurus";
+import { getMkDocsFiles } from "./mkdocs";
+import type { SiteTarget, SiteTargetName } from "./site";
+import { getVitePressFiles } from "./vitepress";
+
+// The site generators Hermes supports
+const SITE_TARGETS: Record<SiteTargetName, SiteTarget> = {
+	docsify: { getFiles: getDocsifyFiles },
+	docusaurus: {
+		getFiles: getDocusaurusFiles,
+		formatPage: formatDocusaurusPage,
+	},
+	mkdocs: { getFiles: getMkDocsFiles },
+	vitepress: { getFiles: getVitePressFiles },
+};
+
+/**
+ * Get the site generator with the given name
+ */
+export function getSiteTarget(name: SiteTargetName): SiteTarget {
+	return SITE_TARGETS[name];
+}
@@ -0,0 +1,252 @@
+import path from "node:path";
+
+import type { HermesConfig } from "../config";
+import { INDEX_NAME } from "../generator/layout";
+import { getKindHeading, sortItems } from "../markdown/formatters";
+import type { DocItem } from "../parser/traversal";
+
+/**
+ * The generated documentation a site target writes its files for
+ */
+export interface SiteContext {
+	config: HermesConfig;
+	/**
+	 * Absolute path of the output directory
+	 */
+	outputDir: string;
+	/**
+	 * Absolute path of the directory the site generator reads pages from,
+	 * which contains the output directory
+	 */
+	siteRoot: string;
+	/**
+	 * Doc items grouped by the module they are declared in, named like the
+	 * output files of the flat or tree layout
+	 */
+	modules: Map<string, DocItem[]>;
+	/**
+	 * Path of the Markdown page documenting each item, relative to the
+	 * output directory with `/` separators, e.g. `classes/Shape.md`
+	 */
+	pagePaths: Map<DocItem, string>;
+}
+
+/**
+ * A file written for a site target, relative to the output directory
+ *
+ * Generated files are rewritten on every run until the line with
+ * `GENERATED_MARKER` is removed from them; scaffold files are only written
+ * when they do not exist, so that they can be edited freely. A section is
+ * a block of lines between the marker and `SECTION_END_MARKER` that is
+ * replaced in a file the user owns, appended to it, or written after the
+ * `scaffold` content when the file does not exist.
+ */
+export type SiteFile =
+	| { fileName: string; content: string; kind: "generated" | "scaffold" }
+	| {
+			fileName: string;
+			content: string;
+			kind: "section";
+			scaffold: string;
+			/**
+			 * Matches files that already define what the section would, in
+			 * which case the section is not added
+			 */
+			conflict: RegExp;
+	  };
+
+/**
+ * An entry of the navigation of a site: a page, or a category grouping
+ * pages that may have a page of its own
+ */
+export interface SiteNavItem {
+	label: string;
+	/**
+	 * Path of the page relative to the output directory, e.g. `shapes.md`
+	 */
+	pagePath?: string;
+	/**
+	 * Directory of the pages of a category, relative to the output directory
+	 */
+	directory?: string;
+	children: SiteNavItem[];
+}
+
+/**
+ * Files and page formatting of a site generator
+ */
+export interface SiteTarget {
+	getFiles(context: SiteContext): SiteFile[];
+	/**
+	 * Adapt a generated Markdown page, e.g. by adding front matter
+	 */
+	formatPage?(
+		markdown: string,
+		page: SiteNavItem,
+		context: SiteContext,
+	): string;
+}
+
+/**
+ * Names of the site generators that files can be written for
+ */
+export type SiteTargetName = NonNullable<HermesConfig["target"]>;
+
+// Text of the line marking files and sections that Hermes may overwrite,
+// written as a comment in the syntax of each file
+export const GENERATED_MARKER =
+	"Generated by Hermes. Remove this line to keep your changes.";
+
+// Text of the line ending a generated section
+export const SECTION_END_MARKER = "End of the section generated by Hermes.";
+
+/**
+ * Get the content to write to a site file given its current content, or
+ * `undefined` to leave it alone; `edited` tells whether generated content
+ * was kept because the user changed it
+ */
+export function updateSiteFile(
+	file: SiteFile,
+	previousContent: string | undefined,
+): { content?: string; edited: boolean } {
+	if (previousContent === undefined) {
+		return {
+			content:
+				file.kind === "section"
+					? `${file.scaffold}${file.content}`
+					: file.content,
+			edited: false,
+		};
+	}
+
+	switch (file.kind) {
+		case "scaffold":
+			return { edited: false };
+		case "generated":
+			return previousContent.includes(GENERATED_MARKER)
+				? { content: file.content, edited: false }
+				: { edited: true };
+		case "section": {
+			const lines = previousContent.split("\n");
+			const start = lines.findIndex((line) => line.includes(GENERATED_MARKER));
+			const end = lines.findIndex(
+				(line, index) => index > start && line.includes(SECTION_END_MARKER),
+			);
+
+			if (start !== -1 && end !== -1) {
+				lines.splice(start, end - start + 1, file.content.replace(/\n$/, ""));
+				return { content: lines.join("\n"), edited: false };
+			}
+
+			if (file.conflict.test(previousContent)) {
+				return { edited: true };
+			}
+
+			const separator = previousContent.endsWith("\n") ? "\n" : "\n\n";
+			return {
+				content: `${previousContent}${separator}${file.content}`,
+				edited: false,
+			};
+		}
+	}
+}
+
+/**
+ * Get the navigation of the pages: the index, then the pages by path, with
+ * directories as categories
+ *
+ * In the symbol layout, pages are ordered like the table of contents and
+ * each kind is a category linking to its index page.
+ */
+export function getSiteNavigation({
+	config,
+	pagePaths,
+}: SiteContext): SiteNavItem[] {
+	const isSymbolLayout = config.layout === "symbol";
+	const navigation: SiteNavItem[] = [
+		{ label: "Overview", pagePath: `${INDEX_NAME}.md`, children: [] },
+	];
+
+	// The first item documented on each page
+	const pages = new Map<string, DocItem>();
+	for (const item of isSymbolLayout
+		? sortItems([...pagePaths.keys()])
+		: [...pagePaths.keys()]) {
+		const pagePath = pagePaths.get(item) ?? "";
+		if (!pages.has(pagePath)) {
+			pages.set(pagePath, item);
+		}
+	}
+
+	const pagePathOrder = [...pages.keys()];
+	if (!isSymbolLayout) {
+		pagePathOrder.sort();
+	}
+
+	const categories = new Map<string, SiteNavItem>();
+
+	for (const pagePath of pagePathOrder) {
+		const item = pages.get(pagePath) as DocItem;
+		const segments = pagePath.replace(/\.md$/, "").split("/");
+		let siblings = navigation;
+
+		for (let index = 0; index < segments.length - 1; index++) {
+			const directory = segments.slice(0, index + 1).join("/");
+			let category = categories.get(directory);
+
+			if (!category) {
+				category = isSymbolLayout
+					? {
+							label: getKindHeading(item.kind),
+							pagePath: `${directory}.md`,
+							directory,
+							children: [],
+						}
+					: { label: segments[index], directory, children: [] };
+				categories.set(directory, category);
+				siblings.push(category);
+			}
+
+			siblings = category.children;
+		}
+
+		siblings.push({
+			label: isSymbolLayout ? item.name : segments[segments.length - 1],
+			pagePath,
+			children: [],
+		});
+	}
+
+	return navigation;
+}
+
+/**
+ * Get the navigation entry of every page by its path
+ */
+export function getSitePages(
+	navigation: SiteNavItem[],
+): Map<string, SiteNavItem> {
+	const sitePages = new Map<string, SiteNavItem>();
+
+	const visit = (items: SiteNavItem[]) => {
+		for (const item of items) {
+			if (item.pagePath) {
+				sitePages.set(item.pagePath, item);
+			}
+			visit(item.children);
+		}
+	};
+	visit(navigation);
+
+	return sitePages;
+}
+
+/**
+ * Get the path of a page relative to the site root, with `/` separators
+ */
+export function getSitePath(context: SiteContext, pagePath: string): string {
+	return path
+		.relative(context.siteRoot, path.join(context.outputDir, pagePath))
+		.split(path.sep)
+		.join("/");
+}
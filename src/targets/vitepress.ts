@@ -0,0 +1,62 @@
+import { INDEX_NAME } from "../generator/layout";
+import {
+	GENERATED_MARKER,
+	type SiteContext,
+	type SiteFile,
+	type SiteNavItem,
+	getSiteNavigation,
+	getSitePath,
+} from "./site";
+
+/**
+ * Get the VitePress sidebar module of the output directory
+ *
+ * `sidebar.mjs` exports the navigation as sidebar items, to import from
+ * `.vitepress/config.mjs` as `themeConfig.sidebar` or a part of it.
+ */
+export function getVitePressFiles(context: SiteContext): SiteFile[] {
+	const sidebar = getSiteNavigation(context).map((item) =>
+		getSidebarItem(item, context),
+	);
+
+	return [
+		{
+			fileName: "sidebar.mjs",
+			content: `// ${GENERATED_MARKER}
+/** @type {import("vitepress").DefaultTheme.SidebarItem[]} */
+export default ${JSON.stringify(sidebar, null, 2)};
+`,
+			kind: "generated",
+		},
+	];
+}
+
+/**
+ * Get the sidebar item of a navigation entry
+ */
+function getSidebarItem(
+	item: SiteNavItem,
+	context: SiteContext,
+): Record<string, unknown> {
+	return {
+		text: item.label,
+		...(item.pagePath ? { link: getLink(item.pagePath, context) } : {}),
+		...(item.children.length > 0
+			? {
+					items: item.children.map((child) => getSidebarItem(child, context)),
+				}
+			: {}),
+	};
+}
+
+/**
+ * Get the link of a page from the site root: its path without extension,
+ * with index pages linking to their directory
+ */
+function getLink(pagePath: string, context: SiteContext): string {
+	const link = `/${getSitePath(context, pagePath).replace(/\.md$/, "")}`;
+
+	return link.endsWith(`/${INDEX_NAME}`)
+		? link.slice(0, -INDEX_NAME.length)
+		: link;
+}
@@ -0,0 +1,185 @@
+import { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+
+import { extractDocumentation } from "../src/parser/traversal";
+import { diffApi, formatApiDiff } from "../src/report";
+
+function extract(code: string) {
+	const project = new Project();
+	const sourceFile = project.createSourceFile("api.ts", code);
+	return extractDocumentation(sourceFile);
+}
+
+function diffSources(oldCode: string, newCode: string) {
+	return diffApi(extract(oldCode), extract(newCode));
+}
+
+describe("api-diff.ts", () => {
+	describe("diffApi", () => {
+		it("should report no changes for the same API", () => {
+			const code = "export function run(value: string): void {}";
+			expect(diffSources(code, code)).toEqual({ changes: [], bump: "none" });
+		});
+
+		it("should classify removed and added exports", () => {
+			const diff = diffSources(
+				"export function old(): void {}\nexport interface Kept {}",
+				"export function added(): void {}\nexport interface Kept {}",
+			);
+
+			expect(
+				diff.changes.map(({ impact, message }) => [impact, message]),
+			).toEqual([
+				["major", "Removed function `old`"],
+				["minor", "Added function `added`"],
+			]);
+			expect(diff.bump).toBe("major");
+		});
+
+		it("should classify parameter changes", () => {
+			const diff = diffSources(
+				`
+export function format(value: string | number, radix?: number): string {
+	return "";
+}
+export function parse(input: string): number {
+	return 0;
+}
+export function log(message: string): void {}
+`,
+				`
+export function format(value: string, radix: number): string {
+	return "";
+}
+export function parse(input: string | string[], strict?: boolean): number {
+	return 0;
+}
+export function log(message: string, level: number): void {}
+`,
+			);
+
+			expect(
+				diff.changes.map(({ impact, message }) => [impact, message]),
+			).toEqual([
+				[
+					"major",
+					"Type of parameter `value` of `format` narrowed from `string | number` to `string`",
+				],
+				["major", "Parameter `radix` of `format` is now required"],
+				["major", "Added required parameter `level` to `log`"],
+				[
+					"minor",
+					"Type of parameter `input` of `parse` widened from `string` to `string | string[]`",
+				],
+				["minor", "Added optional parameter `strict` to `parse`"],
+			]);
+		});
+
+		it("should classify return type changes", () => {
+			const diff = diffSources(
+				`
+export function first(): string | number {
+	return 0;
+}
+export function second(): string {
+	return "";
+}
+`,
+				`
+export function first(): string {
+	return "";
+}
+export function second(): string | number {
+	return 0;
+}
+`,
+			);
+
+			expect(
+				diff.changes.map(({ impact, symbol }) => [impact, symbol]),
+			).toEqual([
+				["major", "second"],
+				["minor", "first"],
+			]);
+		});
+
+		it("should compare class and interface members", () => {
+			const diff = diffSources(
+				`
+export class Parser {
+	/** Parses input */
+	parse(input: string): void {}
+	reset(): void {}
+}
+export interface Options {
+	strict: boolean;
+}
+`,
+				`
+export class Parser {
+	/** Parses the input */
+	parse(input: string): void {}
+	/** @deprecated Use a new parser */
+	reset(): void {}
+	protected validate(): void {}
+}
+export interface Options {
+	strict: boolean;
+	mode: string;
+	verbose?: boolean;
+}
+`,
+			);
+
+			expect(
+				diff.changes.map(({ impact, message }) => [impact, message]),
+			).toEqual([
+				["major", "Added required property `Options.mode`"],
+				["minor", "Added property `Options.verbose`"],
+				["minor", "Deprecated `Parser.reset`"],
+				["minor", "Added method `Parser.validate`"],
+				["patch", "Documentation of `Parser.parse` changed"],
+			]);
+		});
+
+		it("should compare enums and type aliases", () => {
+			const diff = diffSources(
+				`
+export enum Level { Low = 1, High = 2 }
+export type Mode = "fast" | "safe";
+export type Id = string | number;
+`,
+				`
+export enum Level { Low = 1, High = 3, Medium = 2 }
+export type Mode = "fast" | "safe" | "auto";
+export type Id = string;
+`,
+			);
+
+			expect(
+				diff.changes.map(({ impact, message }) => [impact, message]),
+			).toEqual([
+				["major", "Type `Id` narrowed from `string | number` to `string`"],
+				["major", "Value of `Level.High` changed from `2` to `3`"],
+				["minor", "Added enum member `Level.Medium`"],
+				[
+					"minor",
+					'Type `Mode` widened from `"fast" | "safe"` to `"fast" | "safe" | "auto"`',
+				],
+			]);
+		});
+	});
+
+	describe("formatApiDiff", () => {
+		it("should group changes by impact and recommend a bump", () => {
+			const diff = diffSources(
+				"export function run(): void {}",
+				"export function run(): void {}\nexport const version = 1;",
+			);
+
+			expect(formatApiDiff(diff)).toBe(
+				"Minor changes:\n  - Added variable `version`\n\nRecommended version bump: minor\n",
+			);
+		});
+	});
+});
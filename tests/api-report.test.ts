@@ -0,0 +1,168 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { defaultConfig } from "../src/config";
+import { DocumentationGenerator } from "../src/generator";
+import {
+	checkApiReport,
+	formatApiReport,
+	formatUnifiedDiff,
+} from "../src/report";
+
+describe("API report", () => {
+	let tempDir: string;
+
+	beforeAll(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "hermes-api-test-"));
+
+		await fs.writeFile(
+			path.join(tempDir, "shapes.ts"),
+			`
+/**
+ * A square shape
+ */
+export class Square {
+	private cache = 0;
+
+	constructor(public readonly side: number) {}
+
+	/**
+	 * Scales the square
+	 */
+	scale(factor: number): Square {
+		return new Square(this.side * factor);
+	}
+
+	/** @deprecated Use scale instead */
+	grow(): void {}
+}
+
+export type Shape = Square | { radius: number };
+
+export function area(shape: Shape): number;
+export function area(side: number): number;
+export function area(value: Shape | number): number {
+	return 0;
+}
+
+function helper(): void {}
+`,
+			"utf8",
+		);
+	});
+
+	afterAll(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	async function generateReport(): Promise<string> {
+		const generator = new DocumentationGenerator(defaultConfig);
+		const itemsResult = await generator.extract(
+			[path.join(tempDir, "shapes.ts")],
+			{ exportedOnly: true },
+		);
+		expect(itemsResult.isOk()).toBe(true);
+
+		return formatApiReport(itemsResult._unsafeUnwrap(), {
+			title: "Shapes",
+			rootDir: tempDir,
+		});
+	}
+
+	it("should summarize exported signatures by file", async () => {
+		const report = await generateReport();
+
+		expect(report).toContain('## API Report File for "Shapes"');
+		expect(report).toContain("// shapes.ts\n");
+		// Overloads are listed instead of the implementation
+		expect(report).toContain(
+			"export function area(\n  shape: Shape\n): number;\nexport function area(\n  side: number\n): number;\n",
+		);
+		expect(report).toContain(
+			"export class Square {\n  constructor(\n    side: number\n  ): Square;\n  /** @deprecated */\n  grow(): void;\n",
+		);
+		expect(report).toContain("  scale(\n    factor: number\n  ): Square;\n");
+		expect(report).toContain(
+			"export type Shape = Square | { radius: number; };",
+		);
+		// Private members and unexported declarations are not part of the API
+		expect(report).not.toContain("cache");
+		expect(report).not.toContain("helper");
+		expect(report).not.toContain(tempDir);
+
+		// Regenerating gives the same report
+		expect(await generateReport()).toBe(report);
+	});
+
+	it("should compare the report with the committed copy", async () => {
+		const report = await generateReport();
+		const reportPath = path.join(tempDir, "api-report.api.md");
+
+		expect((await checkApiReport(reportPath, report))._unsafeUnwrap()).toEqual({
+			status: "missing",
+		});
+
+		await fs.writeFile(reportPath, report.replace(/\n/g, "\r\n"), "utf8");
+		expect((await checkApiReport(reportPath, report))._unsafeUnwrap()).toEqual({
+			status: "unchanged",
+		});
+
+		await fs.writeFile(
+			reportPath,
+			report.replace("factor: number", "factor: string"),
+			"utf8",
+		);
+		const result = (await checkApiReport(reportPath, report))._unsafeUnwrap();
+		expect(result.status).toBe("changed");
+		expect(result.status === "changed" && result.diff).toContain(
+			"-    factor: string\n+    factor: number\n",
+		);
+	});
+
+	describe("formatUnifiedDiff", () => {
+		it("should return an empty string for equal texts", () => {
+			expect(formatUnifiedDiff("a\nb\n", "a\nb\n", "old", "new")).toBe("");
+		});
+
+		it("should show changes with context in hunks", () => {
+			const oldText = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join(
+				"\n",
+			);
+			const newText = [
+				"1",
+				"2",
+				"3",
+				"4",
+				"five",
+				"6",
+				"7",
+				"8",
+				"9",
+				"10",
+				"11",
+			].join("\n");
+
+			expect(formatUnifiedDiff(oldText, newText, "old", "new")).toBe(
+				[
+					"--- old",
+					"+++ new",
+					"@@ -2,9 +2,10 @@",
+					" 2",
+					" 3",
+					" 4",
+					"-5",
+					"+five",
+					" 6",
+					" 7",
+					" 8",
+					" 9",
+					" 10",
+					"+11",
+					"",
+				].join("\n"),
+			);
+		});
+	});
+});
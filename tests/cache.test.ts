@@ -0,0 +1,127 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { type HermesConfig, defaultConfig } from "../src/config";
+import {
+	DocumentationGenerator,
+	type GenerationSummary,
+} from "../src/generator";
+
+describe("incremental generation", () => {
+	let tempDir: string;
+	let config: HermesConfig;
+
+	const generate = async () => {
+		let summary: GenerationSummary | undefined;
+		const result = await new DocumentationGenerator(config).generate(
+			[path.join(tempDir, "src/*.ts")],
+			{
+				onSummary: (runSummary) => {
+					summary = runSummary;
+				},
+			},
+		);
+
+		expect(result.isOk()).toBe(true);
+		return summary;
+	};
+
+	beforeAll(async () => {
+		tempDir = await fs.realpath(
+			await fs.mkdtemp(path.join(os.tmpdir(), "hermes-cache-test-")),
+		);
+		await fs.mkdir(path.join(tempDir, "src"));
+		await fs.writeFile(
+			path.join(tempDir, "src/options.ts"),
+			"/** Options of the parser */\nexport interface Options {\n\tstrict: boolean;\n}\n",
+		);
+		await fs.writeFile(
+			path.join(tempDir, "src/parser.ts"),
+			`import type { Options } from "./options";
+
+/** Parses the input */
+export function parse(input: string, options: Options) {
+	return { input, options };
+}
+`,
+		);
+		await fs.writeFile(
+			path.join(tempDir, "src/format.ts"),
+			"/** Formats a value */\nexport function format(value: string): string {\n\treturn value;\n}\n",
+		);
+
+		config = {
+			...defaultConfig,
+			outDir: path.join(tempDir, "docs"),
+			cacheDir: path.join(tempDir, ".cache"),
+		};
+	});
+
+	afterAll(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it("should reuse the items of unchanged files and leave unchanged output alone", async () => {
+		expect(await generate()).toEqual({
+			reused: 0,
+			extracted: 3,
+			regenerated: 4,
+			untouched: 0,
+		});
+
+		const formatPage = path.join(tempDir, "docs/format.md");
+		const { mtimeMs } = await fs.stat(formatPage);
+
+		expect(await generate()).toEqual({
+			reused: 3,
+			extracted: 0,
+			regenerated: 0,
+			untouched: 4,
+		});
+		expect((await fs.stat(formatPage)).mtimeMs).toBe(mtimeMs);
+		expect(await fs.readdir(path.join(tempDir, ".cache/items"))).toHaveLength(
+			3,
+		);
+	});
+
+	it("should extract files again when a file they import changes", async () => {
+		await fs.writeFile(
+			path.join(tempDir, "src/options.ts"),
+			"/** Options of the parser */\nexport interface Options {\n\tstrict: boolean;\n\tverbose: boolean;\n}\n",
+		);
+
+		// `parse` uses `Options`, so its file is extracted again
+		expect(await generate()).toEqual({
+			reused: 1,
+			extracted: 2,
+			regenerated: 1,
+			untouched: 3,
+		});
+		expect(
+			await fs.readFile(path.join(tempDir, "docs/options.md"), "utf8"),
+		).toContain("verbose");
+
+		// Entries of the previous versions are removed
+		expect(await fs.readdir(path.join(tempDir, ".cache/items"))).toHaveLength(
+			3,
+		);
+	});
+
+	it("should generate the same documentation as without the cache", async () => {
+		const cachedPage = await fs.readFile(
+			path.join(tempDir, "docs/parser.md"),
+			"utf8",
+		);
+
+		await new DocumentationGenerator({
+			...config,
+			cacheDir: undefined,
+		}).generate([path.join(tempDir, "src/*.ts")]);
+
+		expect(
+			await fs.readFile(path.join(tempDir, "docs/parser.md"), "utf8"),
+		).toBe(cachedPage);
+	});
+});
@@ -0,0 +1,131 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { generateChangelog } from "../src/changelog";
+import { defaultConfig } from "../src/config";
+
+describe("changelog", () => {
+	let repoDir: string;
+
+	const git = (...args: string[]) =>
+		execFileSync(
+			"git",
+			["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+			{ cwd: repoDir, stdio: "pipe" },
+		);
+
+	const commit = async (files: Record<string, string>, message: string) => {
+		for (const [fileName, content] of Object.entries(files)) {
+			await fs.mkdir(path.dirname(path.join(repoDir, fileName)), {
+				recursive: true,
+			});
+			await fs.writeFile(path.join(repoDir, fileName), content, "utf8");
+		}
+		git("add", "-A");
+		git("commit", "-q", "-m", message);
+	};
+
+	beforeAll(async () => {
+		repoDir = await fs.realpath(
+			await fs.mkdtemp(path.join(os.tmpdir(), "hermes-changelog-test-")),
+		);
+		git("init", "-q");
+
+		await commit(
+			{
+				"src/parser.ts": `
+export class Parser {
+	parse(input: string): void {}
+	reset(): void {}
+}
+
+export function tokenize(input: string): string[] {
+	return [];
+}
+`,
+			},
+			"Initial version",
+		);
+		git("tag", "v1.0.0");
+
+		await commit(
+			{
+				"src/parser.ts": `
+export class Parser {
+	parse(input: string, strict: boolean): void {}
+	/** @deprecated Create a new parser instead */
+	reset(): void {}
+}
+
+/** Formats the tokens */
+export function format(tokens: string[]): string {
+	return "";
+}
+`,
+			},
+			"Second version",
+		);
+	});
+
+	afterAll(async () => {
+		await fs.rm(repoDir, { recursive: true, force: true });
+	});
+
+	it("should list the API changes between two revisions", async () => {
+		const result = await generateChangelog(defaultConfig, ["src/**/*.ts"], {
+			from: "v1.0.0",
+			to: "HEAD",
+			cwd: repoDir,
+			outputPath: path.join(repoDir, "CHANGELOG.md"),
+			docsDir: path.join(repoDir, "docs"),
+		});
+
+		expect(result._unsafeUnwrap()).toBe(
+			[
+				"## API changes",
+				"",
+				"Changes from `v1.0.0` to `HEAD`. Recommended version bump: **major**.",
+				"",
+				"### Added",
+				"",
+				"- [`format`](docs/parser.md#format) (function)",
+				"",
+				"### Removed",
+				"",
+				"- `tokenize` (function) **(breaking)**",
+				"",
+				"### Deprecated",
+				"",
+				"- [`Parser.reset`](docs/parser.md#parser-reset) (method)",
+				"",
+				"### Changed",
+				"",
+				"- [`Parser.parse`](docs/parser.md#parser-parse): Added required parameter `strict` to `Parser.parse` **(breaking)**",
+				"",
+			].join("\n"),
+		);
+
+		// The temporary worktrees are removed again
+		expect(git("worktree", "list").toString().trim().split("\n")).toHaveLength(
+			1,
+		);
+	});
+
+	it("should fail for unknown revisions", async () => {
+		const result = await generateChangelog(defaultConfig, ["src/**/*.ts"], {
+			from: "v0.0.0",
+			to: "HEAD",
+			cwd: repoDir,
+			outputPath: path.join(repoDir, "CHANGELOG.md"),
+			docsDir: path.join(repoDir, "docs"),
+		});
+
+		expect(result._unsafeUnwrapErr()).toEqual({
+			type: "unknown_revision",
+			ref: "v0.0.0",
+		});
+	});
+});
@@ -79,6 +79,7 @@ describe("CLI Commands", () => {
 		expect(defaultConfig.markdownOptions.tocDepth).toBe(3);
 		expect(defaultConfig.markdownOptions.linkReferences).toBe(true);
 		expect(defaultConfig.markdownOptions.includeTypes).toBe(true);
+		expect(defaultConfig.markdownOptions.visibility).toEqual(["public", "protected"]);
 
 		// Check AI settings
 		expect(defaultConfig.ai.enabled).toBe(true);
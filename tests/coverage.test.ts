@@ -0,0 +1,159 @@
+import { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+
+import {
+	checkCoverageThresholds,
+	computeCoverage,
+	formatCoverageMarkdown,
+	formatCoverageTable,
+} from "../src/coverage";
+import { extractDocumentation } from "../src/parser/traversal";
+
+function computeSourceCoverage(code: string) {
+	const project = new Project();
+	const sourceFile = project.createSourceFile("/project/src/api.ts", code);
+	return computeCoverage(extractDocumentation(sourceFile), {
+		rootDir: "/project",
+		visibility: ["public", "protected"],
+	});
+}
+
+const SOURCE = `
+/**
+ * Parses input
+ */
+export class Parser {
+	/** Whether parsing is strict */
+	strict = false;
+
+	private cache = new Map<string, string>();
+
+	constructor(options: string) {}
+
+	/**
+	 * Parses the input
+	 * @param input - Text to parse
+	 */
+	parse(input: string, offset: number): string[] {
+		return [];
+	}
+
+	reset(): void {}
+}
+
+export enum Level {
+	/** Lowest level */
+	Low,
+	High,
+}
+
+/**
+ * Adds two numbers
+ * @param a - First number
+ * @param b - Second number
+ * @returns The sum
+ */
+export function add(a: number, b: number): number {
+	return a + b;
+}
+`;
+
+describe("coverage", () => {
+	describe("computeCoverage", () => {
+		it("should count documented symbols, members, parameters and returns", () => {
+			const report = computeSourceCoverage(SOURCE);
+
+			expect(report.categories).toEqual({
+				symbols: { documented: 2, total: 3 },
+				members: { documented: 3, total: 5 },
+				parameters: { documented: 3, total: 5 },
+				returns: { documented: 1, total: 2 },
+			});
+			expect(report.total).toEqual({ documented: 9, total: 15 });
+			expect(report.files).toEqual({
+				"src/api.ts": { documented: 9, total: 15 },
+			});
+			expect(report.kinds).toEqual({
+				class: { documented: 1, total: 1 },
+				enum: { documented: 1, total: 3 },
+				function: { documented: 4, total: 4 },
+				method: { documented: 2, total: 6 },
+				property: { documented: 1, total: 1 },
+			});
+		});
+
+		it("should list the missing descriptions by location", () => {
+			const report = computeSourceCoverage(SOURCE);
+
+			expect(
+				report.undocumented.map(({ category, name, parameter, location }) => [
+					category,
+					name,
+					parameter,
+					location.line,
+				]),
+			).toEqual([
+				["parameters", "Parser", "options", 11],
+				["parameters", "Parser.parse", "offset", 17],
+				["returns", "Parser.parse", undefined, 17],
+				["members", "Parser.reset", undefined, 21],
+				["symbols", "Level", undefined, 24],
+				["members", "Level.High", undefined, 24],
+			]);
+			expect(report.undocumented[0].location.filePath).toBe("src/api.ts");
+		});
+
+		it("should count nothing to document as fully documented", () => {
+			const report = computeSourceCoverage("");
+
+			expect(report.total).toEqual({ documented: 0, total: 0 });
+			expect(checkCoverageThresholds(report, { total: 100 })).toEqual([]);
+		});
+	});
+
+	describe("checkCoverageThresholds", () => {
+		it("should report the categories below their thresholds", () => {
+			const report = computeSourceCoverage(SOURCE);
+
+			expect(
+				checkCoverageThresholds(report, {
+					total: 50,
+					symbols: 60,
+					parameters: 80,
+				}),
+			).toEqual([{ category: "parameters", percentage: 60, minimum: 80 }]);
+		});
+	});
+
+	describe("formatting", () => {
+		it("should format the report as tables", () => {
+			const report = computeSourceCoverage(SOURCE);
+			const table = formatCoverageTable(report, [
+				{ category: "total", percentage: 60, minimum: 80 },
+			]);
+
+			expect(table).toContain("Documentation coverage: 60.0% (9/15)\n");
+			expect(table).toContain(
+				"Category    Documented  Total  Coverage\nSymbols              2      3     66.7%\n",
+			);
+			expect(table).toContain("src/api.ts           9     15     60.0%\n");
+			expect(table).toContain(
+				"  src/api.ts:17: parameter `offset` of `Parser.parse`\n",
+			);
+			expect(table).toContain("  src/api.ts:24: enum member `Level.High`\n");
+			expect(table).toContain(
+				"Coverage of total is 60%, below the threshold of 80%\n",
+			);
+		});
+
+		it("should format a Markdown summary with a badge", () => {
+			const markdown = formatCoverageMarkdown(computeSourceCoverage(SOURCE));
+
+			expect(markdown).toContain(
+				"![Documentation coverage: 60%](https://img.shields.io/badge/docs%20coverage-60%25-yellow)",
+			);
+			expect(markdown).toContain("| Returns | 1 | 2 | 50.0% |\n");
+			expect(markdown).toContain("| **Total** | 9 | 15 | **60.0%** |\n");
+		});
+	});
+});
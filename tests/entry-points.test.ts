@@ -0,0 +1,194 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { type HermesConfig, defaultConfig } from "../src/config";
+import { DocumentationGenerator } from "../src/generator";
+import { TypeScriptParser } from "../src/parser";
+import {
+	collectPackageEntryPoints,
+	resolveEntryPoints,
+	resolveSourcePath,
+} from "../src/parser/entry-points";
+import { extractExportedDocumentation } from "../src/parser/traversal";
+
+describe("Entry points", () => {
+	let tempDir: string;
+
+	beforeAll(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "hermes-entry-test-"));
+		await fs.mkdir(path.join(tempDir, "src"), { recursive: true });
+
+		await fs.writeFile(
+			path.join(tempDir, "package.json"),
+			JSON.stringify({
+				name: "fixture",
+				main: "./dist/index.js",
+				exports: {
+					".": {
+						types: "./dist/index.d.ts",
+						require: "./dist/index.js",
+					},
+					"./features/*": "./dist/features/*.js",
+				},
+			}),
+			"utf8",
+		);
+
+		await fs.writeFile(
+			path.join(tempDir, "src", "index.ts"),
+			`
+export * from "./math";
+export { helper as publicHelper } from "./helpers";
+`,
+			"utf8",
+		);
+
+		await fs.writeFile(
+			path.join(tempDir, "src", "math.ts"),
+			`
+/**
+ * Adds two numbers
+ */
+export function add(a: number, b: number): number {
+	return internalAdd(a, b);
+}
+
+function internalAdd(a: number, b: number): number {
+	return a + b;
+}
+
+/**
+ * Supported operations
+ */
+export type Operation = "add";
+`,
+			"utf8",
+		);
+
+		await fs.writeFile(
+			path.join(tempDir, "src", "helpers.ts"),
+			`
+/**
+ * A helper that is re-exported under another name
+ */
+export const helper = (value: string): string => value;
+
+/**
+ * A helper that is never re-exported
+ */
+export function privateHelper(): void {}
+`,
+			"utf8",
+		);
+	});
+
+	afterAll(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	describe("collectPackageEntryPoints", () => {
+		it("should collect types, exports and main targets without wildcards", () => {
+			const targets = collectPackageEntryPoints({
+				main: "./dist/index.js",
+				types: "./dist/index.d.ts",
+				exports: {
+					".": { import: "./dist/index.mjs", types: "./dist/index.d.ts" },
+					"./*": "./dist/*.js",
+				},
+			});
+
+			expect(targets).toEqual([
+				"./dist/index.d.ts",
+				"./dist/index.mjs",
+				"./dist/index.js",
+			]);
+		});
+	});
+
+	describe("resolveSourcePath", () => {
+		it("should map build output paths back to source files", () => {
+			expect(resolveSourcePath("./dist/index.d.ts", tempDir)).toBe(
+				path.join(tempDir, "src", "index.ts"),
+			);
+			expect(resolveSourcePath("src/math.js", tempDir)).toBe(
+				path.join(tempDir, "src", "math.ts"),
+			);
+			expect(resolveSourcePath("./dist/missing.js", tempDir)).toBeUndefined();
+		});
+	});
+
+	describe("resolveEntryPoints", () => {
+		it("should resolve a package.json to its source entry file", () => {
+			const result = resolveEntryPoints(["package.json"], tempDir);
+
+			expect(result.isOk()).toBe(true);
+			if (result.isOk()) {
+				expect(result.value).toEqual([path.join(tempDir, "src", "index.ts")]);
+			}
+		});
+
+		it("should report entry points that cannot be found", () => {
+			const result = resolveEntryPoints(["src/nope.ts"], tempDir);
+
+			expect(result.isErr()).toBe(true);
+			if (result.isErr()) {
+				expect(result.error).toEqual({
+					type: "entry_point_not_found",
+					entryPoint: "src/nope.ts",
+				});
+			}
+		});
+	});
+
+	describe("extractExportedDocumentation", () => {
+		it("should document only symbols reachable from the entry point", () => {
+			const parser = new TypeScriptParser();
+			const filesResult = parser.addEntryPoints(["src/index.ts"], tempDir);
+
+			expect(filesResult.isOk()).toBe(true);
+			if (filesResult.isOk()) {
+				const items = extractExportedDocumentation(filesResult.value[0]);
+				const names = items.map((item) => item.name).sort();
+
+				expect(names).toEqual(["Operation", "add", "publicHelper"]);
+
+				const helper = items.find((item) => item.name === "publicHelper");
+				expect(helper?.description).toBe(
+					"A helper that is re-exported under another name",
+				);
+				expect(helper?.location.filePath).toBe(
+					path.join(tempDir, "src", "helpers.ts"),
+				);
+			}
+		});
+	});
+
+	describe("DocumentationGenerator", () => {
+		it("should generate docs for the public API when entry points are set", async () => {
+			const outputDir = path.join(tempDir, "docs");
+			const config: HermesConfig = {
+				...defaultConfig,
+				outDir: outputDir,
+				entryPoints: [path.join(tempDir, "package.json")],
+			};
+
+			const generator = new DocumentationGenerator(config);
+			const result = await generator.generate([]);
+
+			expect(result.isOk()).toBe(true);
+
+			const helpers = await fs.readFile(
+				path.join(outputDir, "helpers.md"),
+				"utf8",
+			);
+			expect(helpers).toContain("## publicHelper");
+			expect(helpers).not.toContain("privateHelper");
+
+			const math = await fs.readFile(path.join(outputDir, "math.md"), "utf8");
+			expect(math).toContain("## add");
+			expect(math).not.toContain("internalAdd");
+		});
+	});
+});
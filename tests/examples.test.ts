@@ -0,0 +1,166 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Project, type SourceFile } from "ts-morph";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import {
+	checkExample,
+	collectExamples,
+	formatExampleResults,
+	runExample,
+	testExamples,
+} from "../src/examples";
+
+describe("examples", () => {
+	let projectDir: string;
+	let sourceFile: SourceFile;
+
+	beforeAll(async () => {
+		projectDir = await fs.realpath(
+			await fs.mkdtemp(path.join(os.tmpdir(), "hermes-examples-test-")),
+		);
+		await fs.writeFile(
+			path.join(projectDir, "format.ts"),
+			`export function pad(text: string, width: number): string {
+	return text.padStart(width);
+}
+`,
+			"utf8",
+		);
+		await fs.writeFile(
+			path.join(projectDir, "math.ts"),
+			`import { pad } from "./format";
+
+/**
+ * Adds two numbers
+ * @example
+ * \`\`\`ts
+ * add(1, 2) // => 3
+ * const sum = add(2, 2); // => 5
+ * \`\`\`
+ * @example
+ * add("1", 2);
+ */
+export function add(a: number, b: number): number {
+	return a + b;
+}
+
+/**
+ * Formats a number
+ * @example
+ * \`\`\`ts
+ * const add = (a: number) => a;
+ * formatNumber(add(5), 3) // => '  5'
+ * await Promise.resolve(formatNumber(1, 2)) // => " 1"
+ * \`\`\`
+ * @example
+ * \`\`\`sh
+ * not typescript
+ * \`\`\`
+ */
+export function formatNumber(value: number, width: number): string {
+	return pad(String(value), width);
+}
+
+/** A counter */
+export class Counter {
+	/**
+	 * Increments the count
+	 * @example
+	 * new Counter().fail();
+	 */
+	fail(): void {
+		throw new Error("Counter is broken");
+	}
+}
+`,
+			"utf8",
+		);
+
+		const project = new Project({ compilerOptions: { strict: true } });
+		sourceFile = project.addSourceFileAtPath(path.join(projectDir, "math.ts"));
+	});
+
+	afterAll(async () => {
+		await fs.rm(projectDir, { recursive: true, force: true });
+	});
+
+	it("should collect TypeScript examples with their locations", () => {
+		expect(
+			collectExamples(sourceFile).map(({ name, index, location }) => [
+				name,
+				index,
+				location.line,
+			]),
+		).toEqual([
+			["add", 1, 7],
+			["add", 2, 11],
+			["formatNumber", 1, 21],
+			["Counter.fail", 1, 39],
+		]);
+	});
+
+	it("should report type errors at their line in the comment", () => {
+		const [, invalid] = collectExamples(sourceFile);
+		const fileCount = sourceFile.getProject().getSourceFiles().length;
+		const problems = checkExample(sourceFile, invalid);
+
+		expect(problems).toHaveLength(1);
+		expect(problems[0].type).toBe("type_error");
+		expect(problems[0].location.line).toBe(11);
+		expect(problems[0].message).toContain(
+			"Argument of type 'string' is not assignable to parameter of type 'number'",
+		);
+		// The example file is removed from the project
+		expect(sourceFile.getProject().getSourceFiles()).toHaveLength(fileCount);
+	});
+
+	it("should compare values with the expected output", async () => {
+		const [add, , formatNumber] = collectExamples(sourceFile);
+
+		expect(
+			await runExample(sourceFile, formatNumber, { timeout: 1000 }),
+		).toEqual([]);
+		expect(
+			(await runExample(sourceFile, add, { timeout: 1000 })).map(
+				({ type, message, location }) => [type, message, location.line],
+			),
+		).toEqual([["assertion_failed", "Expected 5 but got 4", 8]]);
+	});
+
+	it("should report examples that throw or time out", async () => {
+		const [, , , fail] = collectExamples(sourceFile);
+		const problems = await runExample(sourceFile, fail, { timeout: 1000 });
+
+		expect(problems.map(({ type, message }) => [type, message])).toEqual([
+			["runtime_error", "Counter is broken"],
+		]);
+
+		const loop = { ...fail, code: "while (true) {}" };
+		expect(
+			(await runExample(sourceFile, loop, { timeout: 100 }))[0].message,
+		).toContain("timed out");
+	});
+
+	it("should format the results of testing examples", async () => {
+		const results = await testExamples([sourceFile], {
+			run: true,
+			timeout: 1000,
+		});
+
+		expect(formatExampleResults(results, { baseDir: projectDir })).toBe(
+			[
+				"math.ts:8: assertion failed: Expected 5 but got 4 (example 1 of `add`)",
+				"math.ts:11: type error: Argument of type 'string' is not assignable to parameter of type 'number'. (example 2 of `add`)",
+				"math.ts:39: runtime error: Counter is broken (example 1 of `Counter.fail`)",
+				"",
+				"3 problems in 3 of 4 examples",
+				"",
+			].join("\n"),
+		);
+		expect(
+			formatExampleResults({ examples: 2, problems: [] }, { baseDir: "/" }),
+		).toBe("2 examples passed.\n");
+	});
+});
@@ -11,6 +11,8 @@ import {
 	ParameterDoc,
 	PropertyDoc,
 	TypeAliasDoc,
+	VariableDoc,
+	NamespaceDoc,
 	MarkdownOptions
 } from "../src/parser/models";
 
@@ -23,7 +25,9 @@ import {
 	formatClass,
 	formatInterface,
 	formatEnum,
-	formatTypeAlias
+	formatTypeAlias,
+	formatVariable,
+	formatNamespace
 } from "../src/markdown/formatters/items";
 import {
 	formatFunctionSignature,
@@ -311,7 +315,122 @@ describe("Markdown Formatter", () => {
 		});
 	});
 
+	describe("overloads", () => {
+		function createSignature(type: string, description: string) {
+			return {
+				description,
+				parameters: [{
+					name: "input",
+					kind: DocItemKind.Parameter,
+					type,
+					isOptional: false,
+					location: { filePath: "/test/file.ts", line: 1 }
+				} as ParameterDoc],
+				returnType: `${type}[]`,
+				location: { filePath: "/test/file.ts", line: 1 }
+			};
+		}
+
+		it("should render each function overload instead of the implementation", () => {
+			const func: FunctionDoc = {
+				name: "parse",
+				kind: DocItemKind.Function,
+				description: "Parses input",
+				parameters: [{
+					name: "input",
+					kind: DocItemKind.Parameter,
+					type: "any",
+					isOptional: false,
+					location: { filePath: "/test/file.ts", line: 3 }
+				}],
+				returnType: "any[]",
+				signatures: [
+					createSignature("string", "Parses a string"),
+					createSignature("number", "Parses a number")
+				],
+				location: { filePath: "/test/file.ts", line: 1 }
+			};
+
+			const result = formatFunction(func, createOptions());
+
+			expect(result).toContain("### Overload 1");
+			expect(result).toContain("### Overload 2");
+			expect(result).toContain("Parses a string");
+			expect(result).toContain("input: string\n): string[]");
+			expect(result).toContain("input: number\n): number[]");
+			expect(result).toContain("#### Parameters");
+			expect(result).toContain("#### Returns");
+			expect(result).not.toContain("input: any");
+			expect(result).not.toContain("`any[]`");
+		});
+
+		it("should render each method overload", () => {
+			const method: MethodDoc = {
+				name: "parse",
+				kind: DocItemKind.Method,
+				parameters: [],
+				returnType: "any[]",
+				isStatic: true,
+				isAsync: false,
+				signatures: [
+					createSignature("string", "Parses a string"),
+					createSignature("number", "Parses a number")
+				],
+				location: { filePath: "/test/file.ts", line: 1 }
+			};
+
+			const result = formatMethod(method, "Parser", createOptions());
+
+			expect(result).toContain("##### Overload 1");
+			expect(result).toContain("##### Overload 2");
+			expect(result).toContain("static parse(");
+			expect(result).toContain("###### Parameters");
+			expect(result).toContain("###### Returns");
+			expect(result).not.toContain("`any[]`");
+		});
+	});
+
 	describe("formatClass", () => {
+		it("should list inherited members and mark overrides when enabled", () => {
+			const location = { filePath: "/test/file.ts", line: 1 };
+			const cls: ClassDoc = {
+				name: "Square",
+				kind: DocItemKind.Class,
+				properties: [],
+				methods: [{
+					name: "area",
+					kind: DocItemKind.Method,
+					parameters: [],
+					returnType: "number",
+					isStatic: false,
+					isAsync: false,
+					location,
+					overrides: { name: "Shape", filePath: "/test/shape.ts", line: 1, href: "shape.md#shape" },
+				}],
+				constructors: [],
+				inheritedProperties: [{
+					name: "name",
+					kind: DocItemKind.Property,
+					type: "string",
+					isStatic: false,
+					isReadonly: false,
+					isOptional: false,
+					location,
+					inheritedFrom: { name: "Shape", filePath: "/test/shape.ts", line: 1 },
+				}],
+				inheritedMethods: [],
+				location,
+			};
+
+			const result = formatClass(cls, createOptions({ includeInherited: true }));
+			expect(result).toContain("#### area\n\n*Overrides [`Shape`](shape.md#shape)*");
+			expect(result).toContain('<a id="square-name"></a>\n\n#### name\n\n*Inherited from `Shape`*');
+
+			const withoutInherited = formatClass(cls, createOptions());
+			expect(withoutInherited).not.toContain("#### name");
+			expect(withoutInherited).not.toContain("Overrides");
+		});
+
 		it("should format a basic class", () => {
 			const cls: ClassDoc = {
 				name: "TestClass",
@@ -428,6 +547,58 @@ describe("Markdown Formatter", () => {
 		});
 	});
 
+	describe("member visibility", () => {
+		function createClassWithMembers(): ClassDoc {
+			const location = { filePath: "/test/file.ts", line: 1 };
+			return {
+				name: "Widget",
+				kind: DocItemKind.Class,
+				properties: [
+					{ name: "title", kind: DocItemKind.Property, type: "string", isStatic: false, isReadonly: false, isOptional: false, visibility: "public", location },
+					{ name: "cache", kind: DocItemKind.Property, type: "string[]", isStatic: false, isReadonly: true, isOptional: false, visibility: "protected", location },
+					{ name: "secret", kind: DocItemKind.Property, type: "number", isStatic: true, isReadonly: false, isOptional: false, visibility: "private", location },
+					{ name: "#count", kind: DocItemKind.Property, type: "number", isStatic: false, isReadonly: false, isOptional: false, visibility: "#private", location }
+				],
+				methods: [
+					{ name: "render", kind: DocItemKind.Method, parameters: [], returnType: "string", isStatic: false, isAsync: true, visibility: "protected", isOverride: true, location },
+					{ name: "layout", kind: DocItemKind.Method, parameters: [], returnType: "void", isStatic: false, isAsync: false, visibility: "public", isAbstract: true, location }
+				],
+				constructors: [],
+				location
+			};
+		}
+
+		it("should print access and override modifiers", () => {
+			const result = formatClass(createClassWithMembers(), createOptions());
+
+			expect(result).toContain("title: string;");
+			expect(result).not.toContain("public title");
+			expect(result).toContain("protected readonly cache: string[];");
+			expect(result).toContain("private static secret: number;");
+			expect(result).toContain("#count: number;");
+			expect(result).toContain("protected override async render()");
+			expect(result).toContain("abstract layout()");
+		});
+
+		it("should only render the configured visibilities", () => {
+			const options = createOptions({ visibility: ["public", "protected"] });
+			const result = formatMarkdown([createClassWithMembers()], options);
+
+			expect(result).toContain("#### title");
+			expect(result).toContain("#### cache");
+			expect(result).toContain("#### render");
+			expect(result).not.toContain("secret");
+			expect(result).not.toContain("#count");
+		});
+
+		it("should render all members when no visibility is configured", () => {
+			const result = formatMarkdown([createClassWithMembers()], createOptions());
+
+			expect(result).toContain("#### secret");
+			expect(result).toContain("#### #count");
+		});
+	});
+
 	describe("formatInterface", () => {
 		it("should format a basic interface", () => {
 			const iface: InterfaceDoc = {
@@ -624,6 +795,205 @@ describe("Markdown Formatter", () => {
 		});
 	});
 
+	describe("formatVariable", () => {
+		it("should format a constant with its value", () => {
+			const variable: VariableDoc = {
+				name: "DEFAULTS",
+				kind: DocItemKind.Variable,
+				description: "Default settings",
+				type: "{ retries: number; }",
+				declarationKind: "const",
+				isConst: true,
+				isCallable: false,
+				initializer: "{ retries: 3 }",
+				location: {
+					filePath: "/test/file.ts",
+					line: 1
+				}
+			};
+
+			const options = createOptions();
+			const result = formatVariable(variable, options);
+
+			expect(result).toContain("## DEFAULTS");
+			expect(result).toContain("Default settings");
+			expect(result).toContain("const DEFAULTS: { retries: number; };");
+			expect(result).toContain("### Value");
+			expect(result).toContain("{ retries: 3 }");
+			expect(result).not.toContain("### Returns");
+			expect(result).toContain("### Source");
+		});
+
+		it("should format a var declaration with its keyword", () => {
+			const variable: VariableDoc = {
+				name: "legacyMode",
+				kind: DocItemKind.Variable,
+				type: "boolean",
+				declarationKind: "var",
+				isConst: false,
+				isCallable: false,
+				location: {
+					filePath: "/test/file.ts",
+					line: 1
+				}
+			};
+
+			const result = formatVariable(variable, createOptions());
+
+			expect(result).toContain("var legacyMode: boolean;");
+			expect(result).not.toContain("let legacyMode");
+		});
+
+		it("should format a callable variable like a function", () => {
+			const variable: VariableDoc = {
+				name: "createClient",
+				kind: DocItemKind.Variable,
+				description: "Creates a client",
+				type: "(url: string) => Client",
+				declarationKind: "const",
+				isConst: true,
+				isCallable: true,
+				parameters: [{
+					name: "url",
+					kind: DocItemKind.Parameter,
+					type: "string",
+					isOptional: false,
+					description: "The server URL",
+					location: {
+						filePath: "/test/file.ts",
+						line: 1
+					}
+				}],
+				returnType: "Client",
+				location: {
+					filePath: "/test/file.ts",
+					line: 1
+				}
+			};
+
+			const options = createOptions();
+			const result = formatVariable(variable, options);
+
+			expect(result).toContain("const createClient: (");
+			expect(result).toContain(") => Client;");
+			expect(result).toContain("### Parameters");
+			expect(result).toContain("- `url: string` - The server URL");
+			expect(result).toContain("### Returns");
+			expect(result).toContain("`Client`");
+			expect(result).not.toContain("### Value");
+		});
+
+		it("should list variables in the table of contents", () => {
+			const items = [{
+				name: "DEFAULTS",
+				kind: DocItemKind.Variable,
+				type: "object",
+				declarationKind: "const",
+				isConst: true,
+				isCallable: false,
+				location: { filePath: "/test/file.ts", line: 1 }
+			} as VariableDoc];
+
+			const result = formatMarkdown(items, createOptions());
+			expect(result).toContain("## Variables");
+			expect(result).toContain("- [DEFAULTS](#defaults)");
+			expect(result).toContain("## DEFAULTS");
+		});
+	});
+
+	describe("formatNamespace", () => {
+		function createNamespace(): NamespaceDoc {
+			return {
+				name: "Sdk",
+				kind: DocItemKind.Namespace,
+				description: "Groups SDK types",
+				declarationKind: "namespace",
+				members: [
+					{
+						name: "Errors",
+						kind: DocItemKind.Namespace,
+						parent: "Sdk",
+						declarationKind: "namespace",
+						members: [{
+							name: "NotFound",
+							kind: DocItemKind.Class,
+							parent: "Sdk.Errors",
+							properties: [],
+							methods: [{
+								name: "describe",
+								kind: DocItemKind.Method,
+								parameters: [],
+								returnType: "string",
+								isStatic: false,
+								isAsync: false,
+								location: { filePath: "/test/file.ts", line: 5 }
+							}],
+							constructors: [],
+							location: { filePath: "/test/file.ts", line: 4 }
+						} as ClassDoc],
+						location: { filePath: "/test/file.ts", line: 3 }
+					} as NamespaceDoc,
+					{
+						name: "Options",
+						kind: DocItemKind.Interface,
+						parent: "Sdk",
+						properties: [],
+						methods: [],
+						location: { filePath: "/test/file.ts", line: 2 }
+					} as InterfaceDoc
+				],
+				location: { filePath: "/test/file.ts", line: 1 }
+			};
+		}
+
+		it("should render members as sections with qualified names", () => {
+			const result = formatNamespace(createNamespace(), createOptions());
+
+			expect(result).toContain("## Sdk");
+			expect(result).toContain("namespace Sdk {");
+			expect(result).toContain("### Members");
+			expect(result).toContain("- [Sdk.Options](#sdkoptions)");
+			expect(result).toContain("## Sdk.Options");
+			expect(result).toContain("## Sdk.Errors.NotFound");
+			expect(result).toContain('<a id="sdkerrorsnotfound-describe"></a>');
+
+			// Interfaces are sorted before namespaces
+			expect(result.indexOf("## Sdk.Options")).toBeLessThan(
+				result.indexOf("## Sdk.Errors")
+			);
+		});
+
+		it("should render ambient module declarations", () => {
+			const namespace: NamespaceDoc = {
+				...createNamespace(),
+				name: "express",
+				declarationKind: "module",
+				members: []
+			};
+
+			const result = formatNamespace(namespace, createOptions());
+			expect(result).toContain('declare module "express" {');
+		});
+
+		it("should nest namespace members in the TOC respecting depth", () => {
+			const items = [createNamespace()];
+
+			const shallow = formatTableOfContents(items, 1);
+			expect(shallow).toContain("## Namespaces");
+			expect(shallow).toContain("- [Sdk](#sdk)");
+			expect(shallow).not.toContain("Sdk.Options");
+
+			const medium = formatTableOfContents(items, 2);
+			expect(medium).toContain("  - [Sdk.Options](#sdkoptions)");
+			expect(medium).toContain("  - [Sdk.Errors](#sdkerrors)");
+			expect(medium).not.toContain("Sdk.Errors.NotFound");
+
+			const deep = formatTableOfContents(items, 4);
+			expect(deep).toContain("    - [Sdk.Errors.NotFound](#sdkerrorsnotfound)");
+			expect(deep).toContain("        - [describe](#sdkerrorsnotfound-describe)");
+		});
+	});
+
 	describe("Helper Functions", () => {
 		describe("getSlug", () => {
 			it("should convert text to lowercase", () => {
@@ -714,6 +1084,48 @@ describe("Markdown Formatter", () => {
 			});
 		});
 
+		describe("accessor properties", () => {
+			function createAccessor(hasGetter: boolean, hasSetter: boolean): PropertyDoc {
+				return {
+					name: "value",
+					kind: DocItemKind.Property,
+					type: "string",
+					isStatic: false,
+					isReadonly: !hasSetter,
+					isOptional: false,
+					accessor: { hasGetter, hasSetter },
+					location: {
+						filePath: "/test/file.ts",
+						line: 1
+					}
+				};
+			}
+
+			it("should render a getter/setter pair", () => {
+				const result = formatProperty(createAccessor(true, true), "Store", createOptions());
+
+				expect(result).toContain("*Accessor (read/write)*");
+				expect(result).toContain("get value(): string;");
+				expect(result).toContain("set value(value: string);");
+			});
+
+			it("should mark getters without setters as read-only", () => {
+				const result = formatProperty(createAccessor(true, false), "Store", createOptions());
+
+				expect(result).toContain("*Accessor (read-only)*");
+				expect(result).toContain("get value(): string;");
+				expect(result).not.toContain("set value");
+				expect(result).not.toContain("readonly");
+			});
+
+			it("should mark setters without getters as write-only", () => {
+				const result = formatProperty(createAccessor(false, true), "Store", createOptions());
+
+				expect(result).toContain("*Accessor (write-only)*");
+				expect(result).toContain("set value(value: string);");
+			});
+		});
+
 		describe("formatMethod", () => {
 			it("should format a basic method", () => {
 				const method: MethodDoc = {
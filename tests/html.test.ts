@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	getSearchEntries,
+	highlightCode,
+	markdownToHtml,
+	renderHtmlPage,
+	renderSidebar,
+	toHtmlHref,
+} from "../src/html";
+import { DocItemKind, type InterfaceDoc } from "../src/parser/traversal";
+
+describe("HTML rendering", () => {
+	it("should convert block-level Markdown", () => {
+		const markdown = `<a id="greet"></a>
+
+## greet
+
+Says *hello* to **someone**.
+
+\`\`\`typescript
+function greet(name: string): string
+\`\`\`
+
+| Name | Type |
+| --- | :---: |
+| \`name\` | string |
+
+> Deprecated since 2.0
+
+---
+`;
+
+		expect(markdownToHtml(markdown)).toBe(`<a id="greet"></a>
+<h2>greet</h2>
+<p>Says <em>hello</em> to <strong>someone</strong>.</p>
+<pre><code class="language-typescript">function greet(name: string): string
+</code></pre>
+<table>
+<thead>
+<tr><th>Name</th><th style="text-align: center">Type</th></tr>
+</thead>
+<tbody>
+<tr><td><code>name</code></td><td style="text-align: center">string</td></tr>
+</tbody>
+</table>
+<blockquote>
+<p>Deprecated since 2.0</p>
+</blockquote>
+<hr>
+`);
+	});
+
+	it("should convert nested lists", () => {
+		const markdown =
+			"- [Shape](#shape)\n  - Methods\n    - [area](#shape-area)\n- Other\n";
+
+		expect(markdownToHtml(markdown)).toBe(`<ul>
+<li><a href="#shape">Shape</a>
+<ul>
+<li>Methods
+<ul>
+<li><a href="#shape-area">area</a></li>
+</ul></li>
+</ul></li>
+<li>Other</li>
+</ul>
+`);
+	});
+
+	it("should escape HTML outside of HTML blocks", () => {
+		expect(markdownToHtml("Returns `Array<T>` or <b>nothing</b> & more")).toBe(
+			"<p>Returns <code>Array&lt;T&gt;</code> or &lt;b&gt;nothing&lt;/b&gt; &amp; more</p>\n",
+		);
+	});
+
+	it("should rewrite links to Markdown files", () => {
+		expect(toHtmlHref("shape.md")).toBe("shape.html");
+		expect(toHtmlHref("../classes/Shape.md#shape-area")).toBe(
+			"../classes/Shape.html#shape-area",
+		);
+		expect(toHtmlHref("https://example.com/README.md")).toBe(
+			"https://example.com/README.md",
+		);
+		expect(toHtmlHref("#shape")).toBe("#shape");
+
+		expect(
+			markdownToHtml("See [Shape](shape.md#shape).", {
+				rewriteHref: toHtmlHref,
+			}),
+		).toBe('<p>See <a href="shape.html#shape">Shape</a>.</p>\n');
+	});
+
+	it("should render pages with a sidebar", () => {
+		const sidebar = [
+			{
+				heading: "Interfaces",
+				entries: [
+					{
+						title: "Shape",
+						href: "/shape.html#shape",
+						children: [{ title: "Methods", children: [] }],
+					},
+				],
+			},
+		];
+
+		expect(renderSidebar(sidebar)).toBe(`<nav>
+<h2>Interfaces</h2>
+<ul>
+<li><a href="/shape.html#shape">Shape</a>
+<ul>
+<li><span>Methods</span></li>
+</ul>
+</li>
+</ul>
+</nav>
+`);
+
+		const page = renderHtmlPage({
+			title: "shape",
+			siteTitle: "Shapes & Sizes",
+			homeHref: "/",
+			content: "<h1>Shape</h1>\n",
+			sidebar,
+			scripts: ["console.log(1);"],
+		});
+
+		expect(page).toContain("<title>shape - Shapes &amp; Sizes</title>");
+		expect(page).toContain(renderSidebar(sidebar));
+		expect(page).toContain("<main>\n<h1>Shape</h1>\n</main>");
+		expect(page).toContain("<script>console.log(1);</script>");
+		expect(page).not.toMatch(/(src|href)="https?:/);
+	});
+
+	it("should highlight TypeScript code", () => {
+		expect(
+			highlightCode(
+				'function greet(name: string = "a<b>"): Promise<void> // 2',
+				"typescript",
+			),
+		).toBe(
+			'<span class="hl-keyword">function</span> greet(name: <span class="hl-keyword">string</span> = <span class="hl-string">&quot;a&lt;b&gt;&quot;</span>): <span class="hl-type">Promise</span>&lt;<span class="hl-keyword">void</span>&gt; <span class="hl-comment">// 2</span>',
+		);
+		expect(highlightCode("const x = 1", "bash")).toBe("const x = 1");
+	});
+
+	it("should list items and their members in the search index", () => {
+		const location = { filePath: "shape.ts", line: 1 };
+		const shape: InterfaceDoc = {
+			name: "Shape",
+			kind: DocItemKind.Interface,
+			description: "A shape\nwith an area.\n\nMore details.",
+			location,
+			properties: [],
+			methods: [
+				{
+					name: "area",
+					kind: DocItemKind.Method,
+					location,
+					parameters: [],
+					returnType: "number",
+					signature: "area(): number",
+				},
+			],
+		};
+
+		expect(getSearchEntries(new Map([["shapes/shape.html", [shape]]]))).toEqual(
+			[
+				{
+					name: "Shape",
+					kind: "interface",
+					description: "A shape with an area.",
+					href: "shapes/shape.html#shape",
+				},
+				{
+					name: "Shape.area",
+					kind: "method",
+					href: "shapes/shape.html#shape-area",
+				},
+			],
+		);
+	});
+
+	it("should index descriptions without inline link tags", () => {
+		const square: InterfaceDoc = {
+			name: "Square",
+			kind: DocItemKind.Interface,
+			description:
+				"A square with {@link scale} and {@linkcode Shape.area | its area}.",
+			location: { filePath: "shape.ts", line: 1 },
+			properties: [],
+			methods: [],
+		};
+
+		expect(
+			getSearchEntries(new Map([["shape.html", [square]]]))[0].description,
+		).toBe("A square with scale and its area.");
+	});
+});
@@ -3,7 +3,7 @@ import os from "node:os";
 import path from "node:path";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
 
-import type { HermesConfig } from "../src/config";
+import { type HermesConfig, defaultConfig } from "../src/config";
 import { DocumentationGenerator } from "../src/generator";
 
 describe("Integration Tests", () => {
@@ -137,4 +137,213 @@ export class Calculator {
 			expect(sampleContent).toContain("): number");
 		}
 	});
+
+	/**
+	 * Test that the tree layout mirrors source directories without collisions
+	 */
+	it("should mirror the source directory tree in the tree layout", async () => {
+		const srcDir = path.join(tempDir, "src");
+		await fs.mkdir(path.join(srcDir, "config"), { recursive: true });
+		await fs.mkdir(path.join(srcDir, "markdown"), { recursive: true });
+
+		await fs.writeFile(
+			path.join(srcDir, "index.ts"),
+			"/** Runs the CLI */\nexport function main(): void {}\n",
+			"utf8",
+		);
+		await fs.writeFile(
+			path.join(srcDir, "config", "index.ts"),
+			"/** Loads configuration */\nexport function loadConfig(): void {}\n",
+			"utf8",
+		);
+		await fs.writeFile(
+			path.join(srcDir, "markdown", "index.ts"),
+			"/** Formats Markdown */\nexport function formatMarkdown(): void {}\n",
+			"utf8",
+		);
+
+		const treeOutputDir = path.join(tempDir, "tree-docs");
+		const config: HermesConfig = {
+			...defaultConfig,
+			outDir: treeOutputDir,
+			layout: "tree",
+			rootDir: srcDir,
+		};
+
+		const generator = new DocumentationGenerator(config);
+		const result = await generator.generate([path.join(srcDir, "**/*.ts")]);
+
+		expect(result.isOk()).toBe(true);
+
+		const configDocs = await fs.readFile(
+			path.join(treeOutputDir, "config", "index.md"),
+			"utf8",
+		);
+		expect(configDocs).toContain("## loadConfig");
+		expect(configDocs).not.toContain("formatMarkdown");
+		// Source links are relative to the output file
+		expect(configDocs).toContain("(../../src/config/index.ts#L2)");
+
+		const markdownDocs = await fs.readFile(
+			path.join(treeOutputDir, "markdown", "index.md"),
+			"utf8",
+		);
+		expect(markdownDocs).toContain("## formatMarkdown");
+
+		// The root index module does not overwrite the generated index
+		const moduleDocs = await fs.readFile(
+			path.join(treeOutputDir, "index-module.md"),
+			"utf8",
+		);
+		expect(moduleDocs).toContain("## main");
+
+		const index = await fs.readFile(
+			path.join(treeOutputDir, "index.md"),
+			"utf8",
+		);
+		expect(index).toContain("- [config/index](config/index.md) (1 items)");
+		expect(index).toContain("- [markdown/index](markdown/index.md) (1 items)");
+		expect(index).toContain("- [index-module](index-module.md) (1 items)");
+	});
+
+	/**
+	 * Test that the symbol layout writes a page per item with kind indexes
+	 */
+	it("should write one page per symbol in the symbol layout", async () => {
+		const symbolsDir = path.join(tempDir, "symbols");
+		await fs.mkdir(symbolsDir, { recursive: true });
+
+		await fs.writeFile(
+			path.join(symbolsDir, "shapes.ts"),
+			`
+/**
+ * Computes areas of shapes, see {@link Square}
+ */
+export function area(side: number): number {
+	return side * side;
+}
+
+/**
+ * A square shape
+ */
+export class Square {
+	/**
+	 * Scales the square
+	 */
+	scale(factor: number): void {}
+}
+`,
+			"utf8",
+		);
+
+		const symbolOutputDir = path.join(tempDir, "symbol-docs");
+		const config: HermesConfig = {
+			...defaultConfig,
+			outDir: symbolOutputDir,
+			layout: "symbol",
+		};
+
+		const generator = new DocumentationGenerator(config);
+		const result = await generator.generate([
+			path.join(symbolsDir, "shapes.ts"),
+		]);
+
+		expect(result.isOk()).toBe(true);
+
+		const squarePage = await fs.readFile(
+			path.join(symbolOutputDir, "classes", "Square.md"),
+			"utf8",
+		);
+		expect(squarePage).toContain("## Square");
+		expect(squarePage).toContain("scale");
+		expect(squarePage).not.toContain("## area");
+
+		// Links between pages are relative to the linking page
+		const areaPage = await fs.readFile(
+			path.join(symbolOutputDir, "functions", "area.md"),
+			"utf8",
+		);
+		expect(areaPage).toContain(
+			"Computes areas of shapes, see [Square](../classes/Square.md#square)",
+		);
+
+		const classesIndex = await fs.readFile(
+			path.join(symbolOutputDir, "classes.md"),
+			"utf8",
+		);
+		expect(classesIndex).toContain(
+			"# Classes\n\n- [Square](classes/Square.md) - A square shape",
+		);
+
+		const index = await fs.readFile(
+			path.join(symbolOutputDir, "index.md"),
+			"utf8",
+		);
+		expect(index).toContain("- [Classes](classes.md) (1 items)");
+		expect(index).toContain("- [Functions](functions.md) (1 items)");
+		// The table of contents links into the symbol pages
+		expect(index).toContain("[Square](classes/Square.md#square)");
+		expect(index).toContain("[area](functions/area.md#area)");
+	});
+
+	it("should write a static HTML site with a search index", async () => {
+		const htmlOutputDir = path.join(tempDir, "html-docs");
+		const config: HermesConfig = {
+			...defaultConfig,
+			outDir: htmlOutputDir,
+			layout: "symbol",
+			format: "html",
+		};
+
+		// Uses the source file of the symbol layout test
+		const generator = new DocumentationGenerator(config);
+		const result = await generator.generate([
+			path.join(tempDir, "symbols", "shapes.ts"),
+		]);
+
+		expect(result.isOk()).toBe(true);
+
+		const squarePage = await fs.readFile(
+			path.join(htmlOutputDir, "classes", "Square.html"),
+			"utf8",
+		);
+		// Anchors match the slugs that links point at
+		expect(squarePage).toContain('<a id="square-scale"></a>\n<h4>scale</h4>');
+		expect(squarePage).toContain(
+			'<span class="hl-keyword">class</span> <span class="hl-type">Square</span>',
+		);
+		// Sidebar links and site files are relative to the page
+		expect(squarePage).toContain(
+			'<li><a href="../functions/area.html#area">area</a></li>',
+		);
+		expect(squarePage).toContain('data-index="../search-index.json"');
+		expect(squarePage).toContain('<script src="../search.js"></script>');
+
+		const areaPage = await fs.readFile(
+			path.join(htmlOutputDir, "functions", "area.html"),
+			"utf8",
+		);
+		expect(areaPage).toContain(
+			'see <a href="../classes/Square.html#square">Square</a>',
+		);
+
+		const index = await fs.readFile(
+			path.join(htmlOutputDir, "index.html"),
+			"utf8",
+		);
+		expect(index).toContain('<a href="classes.html">Classes</a>');
+
+		const searchIndex = JSON.parse(
+			await fs.readFile(path.join(htmlOutputDir, "search-index.json"), "utf8"),
+		);
+		expect(searchIndex).toContainEqual({
+			name: "Square.scale",
+			kind: "method",
+			description: "Scales the square",
+			href: "classes/Square.html#square-scale",
+		});
+		expect(
+			await fs.readFile(path.join(htmlOutputDir, "search.js"), "utf8"),
+		).toContain("fetch(indexUrl)");
+	});
 });
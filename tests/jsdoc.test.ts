@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import { Project } from "ts-morph";
+
+import {
+	extractJSDocInfo,
+	parseExample,
+	parseTagContent,
+} from "../src/parser/extractors/jsdoc";
+import { formatFunction } from "../src/markdown/formatters";
+import { type FunctionDoc, extractDocumentation } from "../src/parser/traversal";
+
+const options = {
+	tocDepth: 3,
+	linkReferences: false,
+	includeTypes: true,
+	includeExamples: true,
+};
+
+function getFunctionJsDocs(code: string) {
+	const project = new Project();
+	const sourceFile = project.createSourceFile("test.ts", code);
+	return sourceFile.getFunctions()[0].getJsDocs();
+}
+
+describe("jsdoc.ts", () => {
+	describe("extractJSDocInfo", () => {
+		it("should parse TSDoc block tags into structured fields", () => {
+			const info = extractJSDocInfo(
+				getFunctionJsDocs(`
+/**
+ * Divides two numbers
+ *
+ * @remarks
+ * Uses floating point division.
+ *
+ * @typeParam T - The numeric type
+ * @param a - The dividend
+ * @param {number} [b=1] - The divisor
+ * @returns The quotient
+ * @throws {RangeError} When the divisor is zero
+ * @throws {@link TypeError} When an argument is not a number
+ * @deprecated Use \`safeDivide\` instead
+ * @since 1.2.0
+ * @see safeDivide
+ * @see https://example.com/math
+ * @beta
+ */
+export function divide<T>(a: T, b = 1): number {
+	return Number(a) / b;
+}
+`),
+			);
+
+			expect(info?.description).toBe("Divides two numbers");
+			expect(info?.remarks).toBe("Uses floating point division.");
+			expect(info?.typeParams).toEqual([
+				{ name: "T", description: "The numeric type" },
+			]);
+			expect(info?.tags.filter((tag) => tag.tag === "param")).toEqual([
+				{ tag: "param", name: "a", description: "The dividend" },
+				{ tag: "param", name: "b", type: "number", description: "The divisor" },
+			]);
+			expect(info?.returns).toBe("The quotient");
+			expect(info?.throws).toEqual([
+				{ type: "RangeError", description: "When the divisor is zero" },
+				{ type: "TypeError", description: "When an argument is not a number" },
+			]);
+			expect(info?.deprecated).toBe("Use `safeDivide` instead");
+			expect(info?.since).toBe("1.2.0");
+			expect(info?.see).toEqual(["safeDivide", "https://example.com/math"]);
+			expect(info?.customTags).toEqual([{ tag: "beta", description: "" }]);
+		});
+
+		it("should preserve fenced example code and captions", () => {
+			const info = extractJSDocInfo(
+				getFunctionJsDocs(`
+/**
+ * Adds two numbers
+ * @example Basic usage
+ * \`\`\`ts
+ * const sum = add(1, 2);
+ *   // indented
+ * \`\`\`
+ * @example
+ * add(3, 4);
+ */
+export function add(a: number, b: number): number {
+	return a + b;
+}
+`),
+			);
+
+			expect(info?.examples).toEqual([
+				{
+					caption: "Basic usage",
+					language: "ts",
+					code: "const sum = add(1, 2);\n  // indented",
+				},
+				{ caption: undefined, code: "add(3, 4);" },
+			]);
+		});
+
+		it("should combine tags from every JSDoc block", () => {
+			const info = extractJSDocInfo(
+				getFunctionJsDocs(`
+/**
+ * Old description
+ * @since 1.0.0
+ */
+/**
+ * Current description
+ * @deprecated
+ */
+export function legacy(): void {}
+`),
+			);
+
+			expect(info?.description).toBe("Current description");
+			expect(info?.since).toBe("1.0.0");
+			expect(info?.deprecated).toBe("");
+		});
+
+		it("should describe items with the description of the last block", () => {
+			const project = new Project();
+			const sourceFile = project.createSourceFile(
+				"test.ts",
+				`
+/** Old shape */
+/** Current shape */
+export interface Shape {
+	/** Old area */
+	/** Current area */
+	area: number;
+}
+
+/** Old scale */
+/** Current scale */
+export function scale(): void {}
+`,
+			);
+
+			const items = extractDocumentation(sourceFile) as any[];
+			const shape = items.find((item) => item.name === "Shape");
+			const scale = items.find((item) => item.name === "scale");
+			expect(shape.description).toBe("Current shape");
+			expect(shape.description).toBe(shape.jsDoc.description);
+			expect(shape.properties[0].description).toBe("Current area");
+			expect(scale.description).toBe("Current scale");
+		});
+	});
+
+	describe("parseTagContent", () => {
+		it("should strip the hyphen separating a name from its description", () => {
+			expect(parseTagContent("param", "value - The value")).toEqual({
+				tag: "param",
+				name: "value",
+				description: "The value",
+			});
+		});
+	});
+
+	describe("parseExample", () => {
+		it("should read JSDoc caption elements", () => {
+			expect(parseExample("<caption>Caption</caption>\nrun();")).toEqual({
+				caption: "Caption",
+				code: "run();",
+			});
+		});
+
+		it("should treat a single line as code", () => {
+			expect(parseExample("run();")).toEqual({ code: "run();" });
+		});
+	});
+
+	describe("formatting", () => {
+		it("should render deprecation, throws, examples and see also sections", () => {
+			const project = new Project();
+			const sourceFile = project.createSourceFile(
+				"test.ts",
+				`
+/**
+ * Parses a value
+ * @param input - Raw input
+ * @returns The parsed value
+ * @throws {SyntaxError} When the input is malformed
+ * @example Parse a number
+ * \`\`\`ts
+ * parse("1");
+ * \`\`\`
+ * @see format
+ * @deprecated Use \`read\` instead
+ */
+export function parse(input: string): unknown {
+	return JSON.parse(input);
+}
+`,
+			);
+
+			const [func] = extractDocumentation(sourceFile) as FunctionDoc[];
+			const markdown = formatFunction(func, options);
+
+			expect(markdown).toContain("> **Deprecated:** Use `read` instead");
+			expect(markdown).toContain("`unknown` - The parsed value");
+			expect(markdown).toContain(
+				"### Throws\n\n- `SyntaxError` - When the input is malformed",
+			);
+			expect(markdown).toContain(
+				'### Examples\n\nParse a number\n\n```ts\nparse("1");\n```',
+			);
+			expect(markdown).toContain("### See also\n\n- format");
+
+			const withoutExamples = formatFunction(func, {
+				...options,
+				includeExamples: false,
+			});
+			expect(withoutExamples).not.toContain("### Examples");
+		});
+	});
+});
@@ -0,0 +1,206 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { type HermesConfig, defaultConfig } from "../src/config";
+import { DocumentationGenerator } from "../src/generator";
+import {
+	type DocumentationJson,
+	JSON_SCHEMA_VERSION,
+	loadDocumentation,
+	parseDocumentation,
+} from "../src/json";
+import type { ClassDoc, NamespaceDoc } from "../src/parser/traversal";
+
+describe("JSON output", () => {
+	let tempDir: string;
+	let srcDir: string;
+
+	beforeAll(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "hermes-json-test-"));
+		srcDir = path.join(tempDir, "src");
+		await fs.mkdir(path.join(srcDir, "shapes"), { recursive: true });
+
+		await fs.writeFile(
+			path.join(srcDir, "shapes", "square.ts"),
+			`
+/**
+ * A square shape
+ */
+export class Square {
+	/**
+	 * Length of a side
+	 */
+	side = 1;
+
+	/**
+	 * Scales the square
+	 * @param factor - The scale factor
+	 */
+	scale(factor: number): Square {
+		return this;
+	}
+}
+`,
+			"utf8",
+		);
+
+		await fs.writeFile(
+			path.join(srcDir, "geometry.ts"),
+			`
+import { Square } from "./shapes/square";
+
+/**
+ * Geometry helpers
+ */
+export namespace Geometry {
+	/**
+	 * Computes the area of a {@link Square}
+	 */
+	export function area(square: Square): number {
+		return square.side * square.side;
+	}
+}
+`,
+			"utf8",
+		);
+	});
+
+	afterAll(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	async function generateJson(): Promise<string> {
+		const outputDir = path.join(tempDir, "json");
+		const config: HermesConfig = {
+			...defaultConfig,
+			outDir: outputDir,
+			format: "json",
+		};
+
+		const result = await new DocumentationGenerator(config).generate([
+			path.join(srcDir, "**/*.ts"),
+		]);
+
+		expect(result.isOk()).toBe(true);
+		expect(result._unsafeUnwrap()).toEqual([
+			path.join(outputDir, "documentation.json"),
+		]);
+
+		return path.join(outputDir, "documentation.json");
+	}
+
+	it("should write versioned JSON with relative paths and stable IDs", async () => {
+		const jsonPath = await generateJson();
+		const json: DocumentationJson = JSON.parse(
+			await fs.readFile(jsonPath, "utf8"),
+		);
+
+		expect(json.schemaVersion).toBe(JSON_SCHEMA_VERSION);
+		expect(json.title).toBe("API Documentation");
+		expect(json.sourceRoot).toBe("../src");
+
+		const square = json.items.find(
+			(item) => item.name === "Square",
+		) as ClassDoc;
+		expect(square.id).toBe("shapes/square.ts#class:Square");
+		expect(square.location).toEqual({ filePath: "shapes/square.ts", line: 5 });
+		expect(square.properties[0].id).toBe(
+			"shapes/square.ts#property:Square.side",
+		);
+		expect(square.methods[0].id).toBe("shapes/square.ts#method:Square.scale");
+		expect(square.methods[0].returnTypeReferences).toEqual([
+			{ name: "Square", filePath: "shapes/square.ts", line: 5 },
+		]);
+
+		const geometry = json.items.find(
+			(item) => item.name === "Geometry",
+		) as NamespaceDoc;
+		expect(geometry.id).toBe("geometry.ts#namespace:Geometry");
+		expect(geometry.members[0].id).toBe("geometry.ts#function:Geometry.area");
+
+		// No absolute paths leak into the output
+		expect(JSON.stringify(json)).not.toContain(tempDir);
+	});
+
+	it("should render the same Markdown from loaded JSON as from sources", async () => {
+		const jsonPath = await generateJson();
+		const loadResult = await loadDocumentation(jsonPath);
+		expect(loadResult.isOk()).toBe(true);
+
+		const documentation = loadResult._unsafeUnwrap();
+		expect(documentation.sourceRoot).toBe(srcDir);
+		expect(
+			documentation.items.map((item) => item.location.filePath).sort(),
+		).toEqual([
+			path.join(srcDir, "geometry.ts"),
+			path.join(srcDir, "shapes", "square.ts"),
+		]);
+
+		const fromSourcesDir = path.join(tempDir, "from-sources");
+		const fromJsonDir = path.join(tempDir, "from-json");
+
+		await new DocumentationGenerator({
+			...defaultConfig,
+			outDir: fromSourcesDir,
+		}).generate([path.join(srcDir, "**/*.ts")]);
+		const renderResult = await new DocumentationGenerator({
+			...defaultConfig,
+			outDir: fromJsonDir,
+		}).renderMarkdown(documentation.items);
+		expect(renderResult.isOk()).toBe(true);
+
+		for (const fileName of ["square.md", "geometry.md", "index.md"]) {
+			expect(await fs.readFile(path.join(fromJsonDir, fileName), "utf8")).toBe(
+				await fs.readFile(path.join(fromSourcesDir, fileName), "utf8"),
+			);
+		}
+	});
+
+	it("should reject malformed and unsupported documents", () => {
+		const jsonPath = path.join(tempDir, "docs", "documentation.json");
+
+		expect(parseDocumentation("{", jsonPath)._unsafeUnwrapErr().type).toBe(
+			"invalid_format",
+		);
+		expect(
+			parseDocumentation(
+				JSON.stringify({ schemaVersion: "1.0", title: "Docs" }),
+				jsonPath,
+			)._unsafeUnwrapErr().type,
+		).toBe("invalid_format");
+		expect(
+			parseDocumentation(
+				JSON.stringify({
+					schemaVersion: "2.0",
+					title: "Docs",
+					sourceRoot: ".",
+					items: [],
+				}),
+				jsonPath,
+			)._unsafeUnwrapErr(),
+		).toEqual({ type: "unsupported_version", path: jsonPath, version: "2.0" });
+	});
+
+	it("should publish a JSON Schema for the current version", async () => {
+		const schema = JSON.parse(
+			await fs.readFile(
+				path.join(__dirname, "..", "schemas", "documentation-v1.schema.json"),
+				"utf8",
+			),
+		);
+
+		expect(
+			new RegExp(schema.properties.schemaVersion.pattern).test(
+				JSON_SCHEMA_VERSION,
+			),
+		).toBe(true);
+		expect(schema.required).toEqual([
+			"schemaVersion",
+			"title",
+			"sourceRoot",
+			"items",
+		]);
+	});
+});
@@ -0,0 +1,258 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { type HermesConfig, defaultConfig } from "../src/config";
+import {
+	type GeneratorWarning,
+	DocumentationGenerator,
+} from "../src/generator";
+import {
+	type LinkContext,
+	type UnresolvedLink,
+	buildSymbolTable,
+	resolveInlineLinks,
+	resolveSeeReference,
+} from "../src/markdown/links";
+import {
+	type ClassDoc,
+	type DocItem,
+	DocItemKind,
+	type FunctionDoc,
+} from "../src/parser/traversal";
+
+const location = { filePath: "/src/math.ts", line: 1 };
+
+const calculator: ClassDoc = {
+	name: "Calculator",
+	kind: DocItemKind.Class,
+	location,
+	properties: [],
+	methods: [
+		{
+			name: "add",
+			kind: DocItemKind.Method,
+			location,
+			parameters: [],
+			returnType: "number",
+			isStatic: false,
+			isAsync: false,
+		},
+	],
+	constructors: [],
+};
+
+const format: FunctionDoc = {
+	name: "format",
+	kind: DocItemKind.Function,
+	location: { filePath: "/src/format.ts", line: 1 },
+	parameters: [],
+	returnType: "string",
+};
+
+function createContext(unresolved: UnresolvedLink[] = []): LinkContext {
+	return {
+		symbols: buildSymbolTable(
+			new Map<string, DocItem[]>([
+				["/docs/math.md", [calculator]],
+				["/docs/format.md", [format]],
+			]),
+		),
+		outputPath: "/docs/math.md",
+		onUnresolved: (link) => unresolved.push(link),
+	};
+}
+
+describe("links.ts", () => {
+	describe("resolveInlineLinks", () => {
+		it("should link symbols in the same and other output files", () => {
+			const context = createContext();
+
+			expect(
+				resolveInlineLinks("See {@link Calculator}.", context, location),
+			).toBe("See [Calculator](#calculator).");
+			expect(resolveInlineLinks("{@link format}", context, location)).toBe(
+				"[format](format.md#format)",
+			);
+		});
+
+		it("should link members and use custom labels", () => {
+			const context = createContext();
+
+			expect(
+				resolveInlineLinks("{@link Calculator.add | adding}", context, location),
+			).toBe("[adding](#calculator-add)");
+			expect(
+				resolveInlineLinks("{@link Calculator#add}", context, location),
+			).toBe("[Calculator#add](#calculator-add)");
+			expect(
+				resolveInlineLinks("{@link add}", context, location, ["Calculator"]),
+			).toBe("[add](#calculator-add)");
+		});
+
+		it("should link URLs and report unresolved symbols", () => {
+			const unresolved: UnresolvedLink[] = [];
+			const context = createContext(unresolved);
+
+			expect(
+				resolveInlineLinks(
+					"{@link https://example.com | the site} and {@link Missing}",
+					context,
+					location,
+				),
+			).toBe("[the site](https://example.com) and Missing");
+			expect(unresolved).toEqual([{ target: "Missing", location }]);
+		});
+
+		it("should render plain labels without a symbol table", () => {
+			expect(
+				resolveInlineLinks(
+					"{@link Calculator | the calculator}",
+					{ outputPath: "/docs/math.md" },
+					location,
+				),
+			).toBe("the calculator");
+		});
+	});
+
+	describe("resolveSeeReference", () => {
+		it("should link a leading symbol name and keep the rest", () => {
+			const unresolved: UnresolvedLink[] = [];
+			const context = createContext(unresolved);
+
+			expect(
+				resolveSeeReference("format() for the output", context, location),
+			).toBe("[format()](format.md#format) for the output");
+			expect(
+				resolveSeeReference("the design notes", context, location),
+			).toBe("the design notes");
+			expect(resolveSeeReference("Unknown", context, location)).toBe(
+				"Unknown",
+			);
+			expect(unresolved).toEqual([{ target: "Unknown", location }]);
+		});
+	});
+
+	describe("DocumentationGenerator", () => {
+		let tempDir: string;
+
+		beforeAll(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "hermes-links-test-"));
+
+			await fs.writeFile(
+				path.join(tempDir, "shapes.ts"),
+				`
+/**
+ * A square, measured by {@link area}
+ * @see Circle
+ */
+export class Square {
+	constructor(public side: number) {}
+}
+
+/**
+ * A circle; see {@link Triangle}
+ */
+export class Circle {}
+`,
+				"utf8",
+			);
+
+			await fs.writeFile(
+				path.join(tempDir, "measure.ts"),
+				`
+import { Circle, Square } from "./shapes";
+
+/**
+ * Result of measuring a shape
+ */
+export interface Measurement {
+	value: number;
+}
+
+/**
+ * Measures shapes
+ * @param shapes - The shapes to measure
+ */
+export function measureAll(
+	shapes: Array<Square | Circle>,
+): Promise<Measurement[]> {
+	return Promise.resolve([]);
+}
+`,
+				"utf8",
+			);
+
+			await fs.writeFile(
+				path.join(tempDir, "area.ts"),
+				`
+/**
+ * Computes the area of a {@link Square | square}
+ */
+export function area(side: number): number {
+	return side * side;
+}
+`,
+				"utf8",
+			);
+		});
+
+		afterAll(async () => {
+			await fs.rm(tempDir, { recursive: true, force: true });
+		});
+
+		it("should resolve references across output files and warn about the rest", async () => {
+			const outputDir = path.join(tempDir, "docs");
+			const config: HermesConfig = { ...defaultConfig, outDir: outputDir };
+			const warnings: GeneratorWarning[] = [];
+
+			const generator = new DocumentationGenerator(config);
+			const result = await generator.generate(
+				["shapes.ts", "area.ts", "measure.ts"].map((file) =>
+					path.join(tempDir, file),
+				),
+				{ onWarning: (warning) => warnings.push(warning) },
+			);
+
+			expect(result.isOk()).toBe(true);
+
+			const shapes = await fs.readFile(
+				path.join(outputDir, "shapes.md"),
+				"utf8",
+			);
+			expect(shapes).toContain("A square, measured by [area](area.md#area)");
+			expect(shapes).toContain("### See also\n\n- [Circle](#circle)");
+			expect(shapes).toContain("A circle; see Triangle");
+
+			const area = await fs.readFile(path.join(outputDir, "area.md"), "utf8");
+			expect(area).toContain(
+				"Computes the area of a [square](shapes.md#square)",
+			);
+
+			const measure = await fs.readFile(
+				path.join(outputDir, "measure.md"),
+				"utf8",
+			);
+			// Types link to their sections outside of code spans
+			expect(measure).toContain(
+				"- `shapes`: `(`[`Square`](shapes.md#square) `|` [`Circle`](shapes.md#circle)`)[]` - The shapes to measure",
+			);
+			expect(measure).toContain(
+				"### Returns\n\n`Promise<`[`Measurement`](#measurement)`[]>`",
+			);
+			// Signatures stay plain code
+			expect(measure).toContain(
+				"function measureAll(\n  shapes: (Square | Circle)[]\n): Promise<Measurement[]>\n```",
+			);
+
+			expect(warnings).toEqual([
+				{
+					type: "unresolved_link",
+					target: "Triangle",
+					location: { filePath: path.join(tempDir, "shapes.ts"), line: 13 },
+				},
+			]);
+		});
+	});
+});
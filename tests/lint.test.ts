@@ -0,0 +1,257 @@
+import { Project } from "ts-morph";
+import { describe, expect, it } from "vitest";
+
+import { defaultConfig } from "../src/config";
+import {
+	type LintRules,
+	formatLintResults,
+	formatLintSarif,
+	lintSourceFile,
+} from "../src/lint";
+
+function lint(code: string, rules: Partial<LintRules> = {}) {
+	const project = new Project();
+	const sourceFile = project.createSourceFile("/project/src/api.ts", code);
+	return lintSourceFile(sourceFile, {
+		...defaultConfig.lint.rules,
+		...rules,
+	});
+}
+
+function summarize(code: string, rules: Partial<LintRules> = {}) {
+	return lint(code, rules).map(({ rule, severity, message, location }) => [
+		location.line,
+		severity,
+		rule,
+		message,
+	]);
+}
+
+describe("lint", () => {
+	it("should check @param tags against the parameters", () => {
+		expect(
+			summarize(`
+/**
+ * Parses the input
+ * @param input - Text to parse
+ * @param strict - Whether to fail on errors
+ * @param options.verbose - Whether to log
+ * @returns The tokens
+ */
+export function parse(input: string, options: object): string[] {
+	return [];
+}
+`),
+		).toEqual([
+			[
+				9,
+				"error",
+				"param-names",
+				"@param `strict` does not match any parameter of `parse`",
+			],
+		]);
+	});
+
+	it("should report parameters without @param tags", () => {
+		expect(
+			summarize(`
+/**
+ * Logs a message
+ * @param message - Message to log
+ */
+export function log(message: string, level: number, { tag }: { tag: string }): void {}
+`),
+		).toEqual([
+			[
+				6,
+				"warn",
+				"require-param",
+				"Parameter `level` of `log` has no @param tag",
+			],
+		]);
+	});
+
+	it("should report undocumented exported symbols", () => {
+		expect(
+			summarize(`
+export interface Options {}
+
+interface Internal {}
+
+/** Runs the task */
+export const run = (): void => {};
+`),
+		).toEqual([
+			[
+				2,
+				"warn",
+				"require-description",
+				"Exported interface `Options` has no description",
+			],
+		]);
+	});
+
+	it("should require @returns for documented functions returning a value", () => {
+		expect(
+			summarize(`
+/** A counter */
+export class Counter {
+	/** Creates a counter */
+	constructor() {}
+
+	/** Current count */
+	get(): number {
+		return 0;
+	}
+
+	/** Resets the count */
+	async reset(): Promise<void> {}
+}
+`),
+		).toEqual([
+			[
+				8,
+				"warn",
+				"require-returns",
+				"`Counter.get` returns `number` but has no @returns tag",
+			],
+		]);
+	});
+
+	it("should check that @throws types exist", () => {
+		expect(
+			summarize(`
+import { Project } from "ts-morph";
+
+class ParseError extends Error {}
+
+/**
+ * Parses the input
+ * @throws {ParseError} When the input is invalid
+ * @throws {TypeError | RangeError} When the input is not a string
+ * @throws {Project} Never
+ * @throws {MissingError} When something is missing
+ */
+export function parse(): void {}
+`),
+		).toEqual([
+			[
+				13,
+				"error",
+				"throws-type",
+				"@throws type `MissingError` of `parse` does not exist",
+			],
+		]);
+	});
+
+	it("should report empty tag descriptions and deprecations without reason", () => {
+		expect(
+			summarize(`
+/**
+ * Formats a value
+ * @param value
+ * @returns
+ * @deprecated
+ */
+export function format(value: string): string {
+	return value;
+}
+`),
+		).toEqual([
+			[
+				8,
+				"warn",
+				"no-empty-description",
+				"@param `value` of `format` has no description",
+			],
+			[
+				8,
+				"warn",
+				"no-empty-description",
+				"@returns of `format` has no description",
+			],
+			[
+				8,
+				"warn",
+				"deprecated-reason",
+				"@deprecated tag of `format` gives no reason",
+			],
+		]);
+	});
+
+	it("should apply the configured severities", () => {
+		const code = `
+/**
+ * Logs a message
+ * @param text - Message to log
+ */
+export function log(message: string): void {}
+`;
+
+		expect(
+			summarize(code, { "param-names": "warn", "require-param": "off" }),
+		).toEqual([
+			[
+				6,
+				"warn",
+				"param-names",
+				"@param `text` does not match any parameter of `log`",
+			],
+		]);
+	});
+
+	describe("formatting", () => {
+		const diagnostics = () =>
+			lint(`
+/**
+ * Logs a message
+ * @param text - Message to log
+ */
+export function log(message: string): void {}
+`);
+
+		it("should format diagnostics with their locations", () => {
+			expect(formatLintResults(diagnostics(), { baseDir: "/project" })).toBe(
+				[
+					"src/api.ts:6: error: @param `text` does not match any parameter of `log` (param-names)",
+					"src/api.ts:6: warning: Parameter `message` of `log` has no @param tag (require-param)",
+					"",
+					"1 error, 1 warning",
+					"",
+				].join("\n"),
+			);
+			expect(formatLintResults([], { baseDir: "/project" })).toBe(
+				"No documentation problems found.\n",
+			);
+		});
+
+		it("should format diagnostics as SARIF", () => {
+			const sarif = JSON.parse(
+				formatLintSarif(diagnostics(), {
+					baseDir: "/project",
+					rules: defaultConfig.lint.rules,
+					version: "1.0.0",
+				}),
+			);
+
+			expect(sarif.version).toBe("2.1.0");
+			expect(sarif.runs[0].tool.driver.rules).toHaveLength(7);
+			expect(sarif.runs[0].results[0]).toEqual({
+				ruleId: "param-names",
+				ruleIndex: 0,
+				level: "error",
+				message: {
+					text: "@param `text` does not match any parameter of `log`",
+				},
+				locations: [
+					{
+						physicalLocation: {
+							artifactLocation: { uri: "src/api.ts" },
+							region: { startLine: 6 },
+						},
+					},
+				],
+			});
+		});
+	});
+});
@@ -0,0 +1,134 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { type HermesConfig, defaultConfig } from "../src/config";
+import { DocumentationServer } from "../src/serve";
+
+describe("preview server", () => {
+	let tempDir: string;
+	let config: HermesConfig;
+
+	const writeSource = (fileName: string, content: string) =>
+		fs.writeFile(path.join(tempDir, "src", fileName), content, "utf8");
+
+	beforeAll(async () => {
+		tempDir = await fs.realpath(
+			await fs.mkdtemp(path.join(os.tmpdir(), "hermes-serve-test-")),
+		);
+		await fs.mkdir(path.join(tempDir, "src"));
+		await writeSource(
+			"shape.ts",
+			"/** A shape */\nexport interface Shape {\n\tarea(): number;\n}\n",
+		);
+		await writeSource(
+			"square.ts",
+			`import type { Shape } from "./shape";
+
+/** A square, see {@link Shape} */
+export class Square implements Shape {
+	area() {
+		return 1;
+	}
+}
+`,
+		);
+
+		config = {
+			...defaultConfig,
+			title: "Shapes",
+			outDir: path.join(tempDir, "docs"),
+		};
+	});
+
+	afterAll(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it("should serve the documentation as HTML pages", async () => {
+		const server = new DocumentationServer(
+			config,
+			[path.join(tempDir, "src/*.ts")],
+			{ port: 0, watch: false },
+		);
+		const url = (await server.start())._unsafeUnwrap();
+
+		try {
+			const index = await fetch(url);
+			expect(index.status).toBe(200);
+			expect(index.headers.get("content-type")).toContain("text/html");
+
+			const indexHtml = await index.text();
+			expect(indexHtml).toContain("<title>Shapes</title>");
+			expect(indexHtml).toContain('<a href="shape.html">shape</a>');
+			expect(indexHtml).toContain(
+				'<li><a href="/square.html#square">Square</a>',
+			);
+			expect(indexHtml).toContain('<a href="/shape.html#shape-area">area</a>');
+
+			const page = await (await fetch(new URL("square.html", url))).text();
+			expect(page).toContain("<title>square - Shapes</title>");
+			expect(page).toContain('<a id="square"></a>');
+			expect(page).toContain('<a href="shape.html#shape">');
+			expect(page).toContain('new EventSource("/__hermes/reload")');
+
+			// The Markdown files are served as they are
+			const markdown = await fetch(new URL("square.md", url));
+			expect(await markdown.text()).toContain("## Square");
+
+			const missing = await fetch(new URL("circle.html", url));
+			expect(missing.status).toBe(404);
+			expect(await missing.text()).toContain("<code>/circle.html</code>");
+
+			const outside = await fetch(new URL("%2e%2e/src/shape.ts", url));
+			expect(outside.status).toBe(404);
+
+			const malformed = await fetch(new URL("%E0%A4%A", url));
+			expect(malformed.status).toBe(404);
+		} finally {
+			await server.close();
+		}
+	});
+
+	it("should tell open pages to reload when sources change", async () => {
+		const updates: string[][] = [];
+		const server = new DocumentationServer(
+			config,
+			[path.join(tempDir, "src/*.ts")],
+			{ port: 0, onUpdate: ({ changedFiles }) => updates.push(changedFiles) },
+		);
+		const url = (await server.start())._unsafeUnwrap();
+
+		try {
+			const events = await fetch(new URL("__hermes/reload", url));
+			expect(events.headers.get("content-type")).toBe("text/event-stream");
+
+			const reader = events.body?.getReader();
+			const decoder = new TextDecoder();
+			let received = decoder.decode((await reader?.read())?.value);
+			expect(received).toContain(": connected");
+
+			await writeSource(
+				"shape.ts",
+				"/** A shape with an area */\nexport interface Shape {\n\tarea(): number;\n}\n",
+			);
+
+			while (!received.includes("event: reload")) {
+				const chunk = await reader?.read();
+				if (!chunk || chunk.done) {
+					break;
+				}
+				received += decoder.decode(chunk.value);
+			}
+
+			expect(received).toContain("event: reload");
+			expect(updates).toContainEqual([path.join(tempDir, "src/shape.ts")]);
+
+			const page = await (await fetch(new URL("shape.html", url))).text();
+			expect(page).toContain("A shape with an area");
+		} finally {
+			await server.close();
+		}
+	});
+});
@@ -0,0 +1,408 @@
+import fs from "node:fs/promises";
+import { createRequire } from "node:module";
+import os from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { type HermesConfig, defaultConfig } from "../src/config";
+import {
+	DocumentationGenerator,
+	type GeneratorWarning,
+} from "../src/generator";
+import { GENERATED_MARKER, SECTION_END_MARKER } from "../src/targets";
+
+describe("site targets", () => {
+	let tempDir: string;
+	let sourcePatterns: string[];
+
+	beforeAll(async () => {
+		tempDir = await fs.realpath(
+			await fs.mkdtemp(path.join(os.tmpdir(), "hermes-targets-test-")),
+		);
+		await fs.mkdir(path.join(tempDir, "src"));
+		await fs.writeFile(
+			path.join(tempDir, "src", "shapes.ts"),
+			`/** A square */
+export class Square {
+	/** Computes the area */
+	area(): number {
+		return 1;
+	}
+}
+
+/** Scales a value */
+export function scale(value: number): number {
+	return value;
+}
+`,
+			"utf8",
+		);
+		await fs.writeFile(
+			path.join(tempDir, "src", "colors.ts"),
+			"/** A color */\nexport type Color = string;\n",
+			"utf8",
+		);
+		sourcePatterns = [path.join(tempDir, "src/*.ts")];
+	});
+
+	afterAll(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	const generate = async (config: HermesConfig) => {
+		const warnings: GeneratorWarning[] = [];
+		const generator = new DocumentationGenerator(config);
+		const result = await generator.generate(sourcePatterns, {
+			onWarning: (warning) => warnings.push(warning),
+		});
+		expect(result.isOk()).toBe(true);
+
+		return warnings;
+	};
+
+	// Create a site project with its configuration files, generating the
+	// docs into `docs/api`
+	const createProject = async (name: string, files: Record<string, string>) => {
+		const projectDir = path.join(tempDir, name);
+		for (const [fileName, content] of Object.entries(files)) {
+			await fs.mkdir(path.dirname(path.join(projectDir, fileName)), {
+				recursive: true,
+			});
+			await fs.writeFile(path.join(projectDir, fileName), content, "utf8");
+		}
+
+		return {
+			projectDir,
+			siteRoot: path.join(projectDir, "docs"),
+			outDir: path.join(projectDir, "docs", "api"),
+		};
+	};
+
+	describe("docsify", () => {
+		it("should scaffold a Docsify site with a generated sidebar", async () => {
+			const outDir = path.join(tempDir, "docsify");
+			await generate({
+				...defaultConfig,
+				outDir,
+				target: "docsify",
+				title: "Shapes",
+				description: "Shapes and colors",
+				markdownOptions: { ...defaultConfig.markdownOptions, tocDepth: 2 },
+			});
+
+			const read = (fileName: string) =>
+				fs.readFile(path.join(outDir, fileName), "utf8");
+
+			expect(await read("_sidebar.md")).toBe(`<!-- ${GENERATED_MARKER} -->
+
+- [Overview](/)
+- **colors**
+  - Type Aliases
+    - [Color](/colors.md#color)
+- **shapes**
+  - Classes
+    - [Square](/shapes.md#square)
+      - Methods
+        - [area](/shapes.md#square-area)
+  - Functions
+    - [scale](/shapes.md#scale)
+`);
+			expect(await read("_coverpage.md")).toBe(`<!-- ${GENERATED_MARKER} -->
+
+# Shapes
+
+> Shapes and colors
+
+[Get Started](#shapes)
+`);
+			expect(await read("index.html")).toContain("loadSidebar: true");
+			expect(await read("index.html")).toContain('homepage: "index.md"');
+			expect(await read(".nojekyll")).toBe("");
+		});
+
+		it("should group symbol pages by module down to tocDepth", async () => {
+			const outDir = path.join(tempDir, "docsify-symbols");
+			await generate({
+				...defaultConfig,
+				outDir,
+				layout: "symbol",
+				target: "docsify",
+				markdownOptions: { ...defaultConfig.markdownOptions, tocDepth: 1 },
+			});
+
+			const sidebar = await fs.readFile(
+				path.join(outDir, "_sidebar.md"),
+				"utf8",
+			);
+			expect(sidebar).toContain(
+				"- **shapes**\n  - Classes\n    - [Square](/classes/Square.md#square)\n",
+			);
+			expect(sidebar).not.toContain("[area]");
+		});
+
+		it("should keep edited files when generating again", async () => {
+			const outDir = path.join(tempDir, "docsify-edited");
+			const config: HermesConfig = {
+				...defaultConfig,
+				outDir,
+				target: "docsify",
+			};
+			await generate(config);
+
+			// index.html is the user's configuration once it exists
+			const indexPath = path.join(outDir, "index.html");
+			await fs.writeFile(indexPath, "<!-- my configuration -->\n", "utf8");
+
+			// Generated files are kept once the marker is removed
+			const coverpagePath = path.join(outDir, "_coverpage.md");
+			await fs.writeFile(coverpagePath, "# My cover\n", "utf8");
+
+			const warnings = await generate({ ...config, title: "Renamed" });
+
+			expect(await fs.readFile(indexPath, "utf8")).toBe(
+				"<!-- my configuration -->\n",
+			);
+			expect(await fs.readFile(coverpagePath, "utf8")).toBe("# My cover\n");
+			expect(warnings).toEqual([
+				{ type: "edited_site_file", path: coverpagePath },
+			]);
+
+			// Deleting an edited file generates it again
+			await fs.rm(coverpagePath);
+			await generate({ ...config, title: "Renamed" });
+			expect(await fs.readFile(coverpagePath, "utf8")).toContain("# Renamed");
+		});
+	});
+
+	describe("docusaurus", () => {
+		it("should write a sidebar with document IDs and categories", async () => {
+			const { projectDir, siteRoot, outDir } = await createProject(
+				"docusaurus",
+				{
+					"docusaurus.config.js": "module.exports = { title: 'Shapes' };\n",
+					"docs/intro.md": "# Intro\n",
+				},
+			);
+			await generate({
+				...defaultConfig,
+				outDir,
+				siteRoot,
+				layout: "symbol",
+				target: "docusaurus",
+				title: "Shapes",
+			});
+
+			const require = createRequire(path.join(projectDir, "index.js"));
+			const sidebars = require(path.join(outDir, "sidebars.js"));
+			expect(sidebars.api).toEqual([
+				{ type: "doc", id: "api/index", label: "Overview" },
+				{
+					type: "category",
+					label: "Classes",
+					link: { type: "doc", id: "api/classes" },
+					items: [{ type: "doc", id: "api/classes/Square", label: "Square" }],
+				},
+				{
+					type: "category",
+					label: "Functions",
+					link: { type: "doc", id: "api/functions" },
+					items: [{ type: "doc", id: "api/functions/scale", label: "scale" }],
+				},
+				{
+					type: "category",
+					label: "Type Aliases",
+					link: { type: "doc", id: "api/type-aliases" },
+					items: [
+						{ type: "doc", id: "api/type-aliases/Color", label: "Color" },
+					],
+				},
+			]);
+
+			// Every document ID is a page of the docs directory
+			const ids = [...JSON.stringify(sidebars).matchAll(/"id":"([^"]+)"/g)];
+			for (const [, id] of ids) {
+				await expect(
+					fs.access(path.join(siteRoot, `${id}.md`)),
+				).resolves.toBeUndefined();
+			}
+
+			expect(
+				await fs.readFile(path.join(outDir, "classes", "Square.md"), "utf8"),
+			).toMatch(
+				/^---\ntitle: "Square"\nsidebar_label: "Square"\ncustom_edit_url: null\n---\n\n/,
+			);
+			expect(await fs.readFile(path.join(outDir, "index.md"), "utf8")).toMatch(
+				/^---\ntitle: "Shapes"\nsidebar_label: "Overview"\n/,
+			);
+
+			const readCategory = async (directory: string) =>
+				JSON.parse(
+					await fs.readFile(
+						path.join(outDir, directory, "_category_.json"),
+						"utf8",
+					),
+				);
+			expect(await readCategory("")).toEqual({
+				label: "Shapes",
+				link: { type: "doc", id: "api/index" },
+				customProps: { generator: GENERATED_MARKER },
+			});
+			expect(await readCategory("classes")).toEqual({
+				label: "Classes",
+				position: 2,
+				link: { type: "doc", id: "api/classes" },
+				customProps: { generator: GENERATED_MARKER },
+			});
+
+			// The user's pages are left alone
+			expect(await fs.readFile(path.join(siteRoot, "intro.md"), "utf8")).toBe(
+				"# Intro\n",
+			);
+		});
+	});
+
+	describe("vitepress", () => {
+		it("should write a sidebar module linking to the pages", async () => {
+			const { siteRoot, outDir } = await createProject("vitepress", {
+				"docs/.vitepress/config.mjs":
+					'import sidebar from "../api/sidebar.mjs";\n\nexport default { themeConfig: { sidebar } };\n',
+				"docs/index.md": "# Home\n",
+			});
+			await generate({
+				...defaultConfig,
+				outDir,
+				siteRoot,
+				target: "vitepress",
+			});
+
+			const sidebarPath = path.join(outDir, "sidebar.mjs");
+			const { default: sidebar } = await import(
+				pathToFileURL(sidebarPath).href
+			);
+			expect(sidebar).toEqual([
+				{ text: "Overview", link: "/api/" },
+				{ text: "colors", link: "/api/colors" },
+				{ text: "shapes", link: "/api/shapes" },
+			]);
+
+			// Links resolve to pages of the source directory
+			for (const { link } of sidebar) {
+				const pagePath = link.endsWith("/") ? `${link}index.md` : `${link}.md`;
+				await expect(
+					fs.access(path.join(siteRoot, pagePath)),
+				).resolves.toBeUndefined();
+			}
+
+			// Pages have no front matter unless the target needs it
+			expect(
+				await fs.readFile(path.join(outDir, "shapes.md"), "utf8"),
+			).not.toMatch(/^---/);
+		});
+
+		it("should nest the pages of each kind", async () => {
+			const { outDir, siteRoot } = await createProject("vitepress-symbols", {});
+			await generate({
+				...defaultConfig,
+				outDir,
+				siteRoot,
+				layout: "symbol",
+				target: "vitepress",
+			});
+
+			const { default: sidebar } = await import(
+				pathToFileURL(path.join(outDir, "sidebar.mjs")).href
+			);
+			expect(sidebar[1]).toEqual({
+				text: "Classes",
+				link: "/api/classes",
+				items: [{ text: "Square", link: "/api/classes/Square" }],
+			});
+		});
+	});
+
+	describe("mkdocs", () => {
+		it("should add a nav block to an existing mkdocs.yml", async () => {
+			const { projectDir, siteRoot, outDir } = await createProject("mkdocs", {
+				"mkdocs.yml": "site_name: Shapes\ntheme:\n  name: material\n",
+			});
+			const config: HermesConfig = {
+				...defaultConfig,
+				outDir,
+				siteRoot,
+				target: "mkdocs",
+			};
+			await generate(config);
+
+			const configPath = path.join(projectDir, "mkdocs.yml");
+			const mkdocsConfig = await fs.readFile(configPath, "utf8");
+			expect(mkdocsConfig).toBe(`site_name: Shapes
+theme:
+  name: material
+
+# ${GENERATED_MARKER}
+nav:
+  - Overview: api/index.md
+  - colors: api/colors.md
+  - shapes: api/shapes.md
+# ${SECTION_END_MARKER}
+`);
+
+			// Generating again replaces the block in place
+			await fs.writeFile(
+				configPath,
+				`${mkdocsConfig}plugins:\n  - search\n`,
+				"utf8",
+			);
+			await generate(config);
+			expect(await fs.readFile(configPath, "utf8")).toBe(
+				`${mkdocsConfig}plugins:\n  - search\n`,
+			);
+		});
+
+		it("should create mkdocs.yml next to the docs directory", async () => {
+			const { projectDir } = await createProject("mkdocs-new", {});
+			const siteRoot = path.join(projectDir, "site-docs");
+			await generate({
+				...defaultConfig,
+				outDir: siteRoot,
+				siteRoot,
+				layout: "symbol",
+				target: "mkdocs",
+				title: "Shapes: the API",
+			});
+
+			const mkdocsConfig = await fs.readFile(
+				path.join(projectDir, "mkdocs.yml"),
+				"utf8",
+			);
+			expect(mkdocsConfig).toContain(
+				'site_name: "Shapes: the API"\ndocs_dir: site-docs\n',
+			);
+			expect(mkdocsConfig).toContain(
+				"  - Classes:\n      - classes.md\n      - Square: classes/Square.md\n",
+			);
+		});
+
+		it("should keep a nav defined by the user", async () => {
+			const { projectDir, siteRoot, outDir } = await createProject(
+				"mkdocs-nav",
+				{ "mkdocs.yml": "site_name: Shapes\nnav:\n  - Home: index.md\n" },
+			);
+			const warnings = await generate({
+				...defaultConfig,
+				outDir,
+				siteRoot,
+				target: "mkdocs",
+			});
+
+			const configPath = path.join(projectDir, "mkdocs.yml");
+			expect(await fs.readFile(configPath, "utf8")).toBe(
+				"site_name: Shapes\nnav:\n  - Home: index.md\n",
+			);
+			expect(warnings).toEqual([
+				{ type: "edited_site_file", path: configPath },
+			]);
+		});
+	});
+});
@@ -21,6 +21,7 @@ import {
 // These are not exported in the public API
 import { 
 	extractDocumentation,
+	getQualifiedName,
 	extractJSDocInfo,
 	extractParameterDoc,
 	extractParameterDescription,
@@ -167,6 +168,435 @@ describe("traversal.ts", () => {
 			expect(items[0].name).toBe("TestType");
 		});
 
+		it("should extract variable declarations", () => {
+			const sourceFile = createSourceFile(`
+				/**
+				 * Default settings
+				 */
+				export const DEFAULTS = { retries: 3 };
+
+				let counter = 0;
+
+				var legacyMode = false;
+			`);
+
+			const items = extractDocumentation(sourceFile);
+			expect(items.length).toBe(3);
+			expect(items[0].kind).toBe(DocItemKind.Variable);
+			expect(items[0].name).toBe("DEFAULTS");
+			expect(items[0].description).toBe("Default settings");
+
+			const constDoc = items[0] as any;
+			expect(constDoc.declarationKind).toBe("const");
+			expect(constDoc.isConst).toBe(true);
+			expect(constDoc.isCallable).toBe(false);
+			expect(constDoc.initializer).toBe("{ retries: 3 }");
+
+			const letDoc = items[1] as any;
+			expect(letDoc.name).toBe("counter");
+			expect(letDoc.declarationKind).toBe("let");
+			expect(letDoc.isConst).toBe(false);
+			expect(letDoc.type).toBe("number");
+
+			const varDoc = items[2] as any;
+			expect(varDoc.name).toBe("legacyMode");
+			expect(varDoc.declarationKind).toBe("var");
+			expect(varDoc.isConst).toBe(false);
+		});
+
+		it("should keep the keyword of using declarations", () => {
+			const sourceFile = createSourceFile(`
+				using handle = open();
+				await using connection = connect();
+			`);
+
+			const items = extractDocumentation(sourceFile) as any[];
+			expect(items.map((item) => item.declarationKind)).toEqual([
+				"using",
+				"await using",
+			]);
+			expect(items.every((item) => !item.isConst)).toBe(true);
+		});
+
+		it("should treat arrow function variables as callable", () => {
+			const sourceFile = createSourceFile(`
+				/**
+				 * Creates a client
+				 * @param url The server URL
+				 */
+				export const createClient = (url: string, retries = 3): { url: string } => {
+					return { url };
+				};
+
+				export const handler = function (event: string): void {};
+			`);
+
+			const items = extractDocumentation(sourceFile);
+			expect(items.length).toBe(2);
+
+			const arrowDoc = items[0] as any;
+			expect(arrowDoc.kind).toBe(DocItemKind.Variable);
+			expect(arrowDoc.isCallable).toBe(true);
+			expect(arrowDoc.initializer).toBeUndefined();
+			expect(arrowDoc.parameters.length).toBe(2);
+			expect(arrowDoc.parameters[0].description).toBe("The server URL");
+			expect(arrowDoc.parameters[1].defaultValue).toBe("3");
+			expect(arrowDoc.returnType).toBe("{ url: string; }");
+
+			const expressionDoc = items[1] as any;
+			expect(expressionDoc.isCallable).toBe(true);
+			expect(expressionDoc.returnType).toBe("void");
+		});
+
+		it("should skip destructured variable declarations", () => {
+			const sourceFile = createSourceFile(`
+				const { a, b } = { a: 1, b: 2 };
+			`);
+
+			const items = extractDocumentation(sourceFile);
+			expect(items).toEqual([]);
+		});
+
+		it("should extract namespaces with nested members", () => {
+			const sourceFile = createSourceFile(`
+				/**
+				 * Groups SDK types
+				 */
+				export namespace Sdk {
+					/**
+					 * Client options
+					 */
+					export interface Options {
+						url: string;
+					}
+
+					export namespace Errors {
+						export class NotFound {}
+					}
+				}
+			`);
+
+			const items = extractDocumentation(sourceFile);
+			expect(items.length).toBe(1);
+			expect(items[0].kind).toBe(DocItemKind.Namespace);
+			expect(items[0].name).toBe("Sdk");
+			expect(items[0].description).toBe("Groups SDK types");
+
+			const namespaceDoc = items[0] as any;
+			expect(namespaceDoc.declarationKind).toBe("namespace");
+			expect(namespaceDoc.members.length).toBe(2);
+
+			const options = namespaceDoc.members.find((m: DocItem) => m.name === "Options");
+			expect(options.kind).toBe(DocItemKind.Interface);
+			expect(options.parent).toBe("Sdk");
+			expect(getQualifiedName(options)).toBe("Sdk.Options");
+
+			const errors = namespaceDoc.members.find((m: DocItem) => m.name === "Errors");
+			expect(errors.kind).toBe(DocItemKind.Namespace);
+			expect(errors.members[0].name).toBe("NotFound");
+			expect(getQualifiedName(errors.members[0])).toBe("Sdk.Errors.NotFound");
+		});
+
+		it("should extract ambient module declarations", () => {
+			const sourceFile = createSourceFile(`
+				declare module "express" {
+					interface Request {
+						user: string;
+					}
+				}
+
+				declare module "shorthand";
+
+				declare global {
+					interface Window {
+						hermes: boolean;
+					}
+				}
+			`);
+
+			const items = extractDocumentation(sourceFile) as any[];
+			expect(items.length).toBe(2);
+			expect(items[0].name).toBe("express");
+			expect(items[0].declarationKind).toBe("module");
+			expect(items[0].members[0].name).toBe("Request");
+			expect(items[1].name).toBe("global");
+			expect(items[1].declarationKind).toBe("global");
+		});
+
+		it("should extract function overload signatures", () => {
+			const sourceFile = createSourceFile(`
+				/**
+				 * Parses a string
+				 * @param input The text to parse
+				 */
+				function parse(input: string): string[];
+				/**
+				 * Parses a number
+				 */
+				function parse(input: number, radix?: number): number[];
+				function parse(input: any, radix?: number): any[] {
+					return [input];
+				}
+
+				declare function ambient(a: string): void;
+				declare function ambient(a: number): void;
+			`);
+
+			const items = extractDocumentation(sourceFile);
+			expect(items.length).toBe(2);
+
+			const parseDoc = items[0] as any;
+			expect(parseDoc.name).toBe("parse");
+			expect(parseDoc.description).toBe("Parses a string");
+			expect(parseDoc.signatures.length).toBe(2);
+			expect(parseDoc.signatures[0].description).toBe("Parses a string");
+			expect(parseDoc.signatures[0].parameters[0].type).toBe("string");
+			expect(parseDoc.signatures[0].parameters[0].description).toBe("The text to parse");
+			expect(parseDoc.signatures[0].returnType).toBe("string[]");
+			expect(parseDoc.signatures[1].description).toBe("Parses a number");
+			expect(parseDoc.signatures[1].parameters.length).toBe(2);
+			expect(parseDoc.signatures[1].returnType).toBe("number[]");
+
+			const ambientDoc = items[1] as any;
+			expect(ambientDoc.name).toBe("ambient");
+			expect(ambientDoc.signatures.length).toBe(2);
+		});
+
+		it("should not add signatures to functions without overloads", () => {
+			const sourceFile = createSourceFile(`
+				function single(a: string): void {}
+				declare function declared(a: string): void;
+			`);
+
+			const items = extractDocumentation(sourceFile) as any[];
+			expect(items.length).toBe(2);
+			expect(items[0].signatures).toBeUndefined();
+			expect(items[1].signatures).toBeUndefined();
+		});
+
+		it("should extract method and constructor overloads", () => {
+			const sourceFile = createSourceFile(`
+				class Point {
+					constructor(x: number, y: number);
+					constructor(coords: [number, number]);
+					constructor(a: any, b?: any) {}
+
+					/** Moves by an offset */
+					move(dx: number, dy: number): void;
+					/** Moves to a point */
+					move(to: Point): void;
+					move(a: any, b?: any): void {}
+				}
+
+				interface Shape {
+					area(): number;
+					scale(factor: number): Shape;
+					scale(x: number, y: number): Shape;
+				}
+			`);
+
+			const items = extractDocumentation(sourceFile) as any[];
+			const classDoc = items.find((item) => item.name === "Point");
+			expect(classDoc.methods.length).toBe(1);
+			expect(classDoc.methods[0].signatures.length).toBe(2);
+			expect(classDoc.methods[0].signatures[1].description).toBe("Moves to a point");
+			expect(classDoc.constructors.length).toBe(1);
+			expect(classDoc.constructors[0].signatures.length).toBe(2);
+			expect(classDoc.constructors[0].signatures[0].returnType).toBe("Point");
+
+			const ifaceDoc = items.find((item) => item.name === "Shape");
+			expect(ifaceDoc.methods.length).toBe(2);
+			expect(ifaceDoc.methods[0].signatures).toBeUndefined();
+			expect(ifaceDoc.methods[1].signatures.length).toBe(2);
+		});
+
+		it("should extract accessors as properties", () => {
+			const sourceFile = createSourceFile(`
+				class Store {
+					/**
+					 * The current value
+					 * @see reset
+					 */
+					get value(): string {
+						return "";
+					}
+
+					/**
+					 * Replaces the value
+					 * @param next The new value
+					 */
+					set value(next: string) {}
+
+					/** Number of items */
+					static get size(): number {
+						return 0;
+					}
+
+					set sink(input: number) {}
+				}
+
+				interface Settings {
+					get theme(): string;
+					set theme(value: string);
+				}
+			`);
+
+			const items = extractDocumentation(sourceFile) as any[];
+			const classDoc = items.find((item) => item.name === "Store");
+			expect(classDoc.properties.length).toBe(3);
+
+			const value = classDoc.properties.find((p: any) => p.name === "value");
+			expect(value.type).toBe("string");
+			expect(value.isReadonly).toBe(false);
+			expect(value.accessor).toEqual({ hasGetter: true, hasSetter: true });
+			expect(value.description).toBe("The current value");
+			expect(value.jsDoc.tags.map((t: any) => t.tag)).toEqual(["see", "param"]);
+
+			const size = classDoc.properties.find((p: any) => p.name === "size");
+			expect(size.isStatic).toBe(true);
+			expect(size.isReadonly).toBe(true);
+			expect(size.accessor).toEqual({ hasGetter: true, hasSetter: false });
+
+			const sink = classDoc.properties.find((p: any) => p.name === "sink");
+			expect(sink.type).toBe("number");
+			expect(sink.accessor).toEqual({ hasGetter: false, hasSetter: true });
+
+			const ifaceDoc = items.find((item) => item.name === "Settings");
+			expect(ifaceDoc.properties.length).toBe(1);
+			expect(ifaceDoc.properties[0].accessor).toEqual({
+				hasGetter: true,
+				hasSetter: true,
+			});
+		});
+
+		it("should extract member visibility and modifiers", () => {
+			const sourceFile = createSourceFile(`
+				abstract class Base {
+					protected abstract render(): string;
+					run(): void {}
+				}
+
+				class Widget extends Base {
+					public title = "";
+					protected cache: string[] = [];
+					private secret = 1;
+					#count = 0;
+
+					private constructor() {
+						super();
+					}
+
+					protected override render(): string {
+						return "";
+					}
+
+					#tick(): void {}
+				}
+			`);
+
+			const items = extractDocumentation(sourceFile) as any[];
+			const base = items.find((item) => item.name === "Base");
+			expect(base.methods[0].visibility).toBe("protected");
+			expect(base.methods[0].isAbstract).toBe(true);
+			expect(base.methods[1].visibility).toBe("public");
+
+			const widget = items.find((item) => item.name === "Widget");
+			const visibilities = Object.fromEntries(
+				widget.properties.map((p: any) => [p.name, p.visibility]),
+			);
+			expect(visibilities).toEqual({
+				title: "public",
+				cache: "protected",
+				secret: "private",
+				"#count": "#private",
+			});
+
+			const render = widget.methods.find((m: any) => m.name === "render");
+			expect(render.isOverride).toBe(true);
+			expect(render.isAbstract).toBe(false);
+
+			const tick = widget.methods.find((m: any) => m.name === "#tick");
+			expect(tick.visibility).toBe("#private");
+
+			expect(widget.constructors[0].visibility).toBe("private");
+		});
+
+		it("should resolve inherited members, overrides and @inheritDoc", () => {
+			const sourceFile = createSourceFile(`
+				interface Shape {
+					/**
+					 * Computes the area
+					 * @param scale The scale factor
+					 */
+					area(scale: number): number;
+				}
+
+				class Base implements Shape {
+					/** The name of the shape */
+					name = "";
+					private secret = 1;
+
+					area(scale: number): number {
+						return 0;
+					}
+
+					/** Describes the shape */
+					describe(): string {
+						return this.name;
+					}
+				}
+
+				class Square extends Base {
+					/** @inheritDoc */
+					area(scale: number): number {
+						return scale;
+					}
+
+					describe(): string {
+						return "square";
+					}
+				}
+
+				interface Named {
+					/** The name */
+					name: string;
+				}
+
+				interface Labelled extends Named {
+					label: string;
+				}
+			`);
+
+			const items = extractDocumentation(sourceFile) as any[];
+			const square = items.find((item) => item.name === "Square");
+
+			// @inheritDoc reaches the implemented interface of the base class
+			const area = square.methods.find((m: any) => m.name === "area");
+			expect(area.description).toBe("Computes the area");
+			expect(area.parameters[0].description).toBe("The scale factor");
+			expect(area.overrides).toMatchObject({ name: "Base", line: 10 });
+
+			const describe = square.methods.find((m: any) => m.name === "describe");
+			expect(describe.overrides).toMatchObject({ name: "Base" });
+			expect(describe.description).toBeUndefined();
+
+			// Private members are not inherited
+			expect(square.inheritedProperties.map((p: any) => p.name)).toEqual([
+				"name",
+			]);
+			expect(square.inheritedProperties[0].inheritedFrom).toMatchObject({
+				name: "Base",
+			});
+			expect(square.inheritedMethods).toEqual([]);
+
+			const labelled = items.find((item) => item.name === "Labelled");
+			expect(labelled.inheritedProperties[0]).toMatchObject({
+				name: "name",
+				description: "The name",
+				inheritedFrom: { name: "Named" },
+			});
+		});
+
 		it("should extract from a complex source file with multiple declarations", () => {
 			const sourceFile = createSourceFile(`
 				/**
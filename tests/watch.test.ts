@@ -0,0 +1,216 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { type HermesConfig, defaultConfig } from "../src/config";
+import type { GenerationSummary } from "../src/generator";
+import { DocumentationWatcher, type WatchError } from "../src/generator/watch";
+
+describe("watch mode", () => {
+	let tempDir: string;
+	let config: HermesConfig;
+
+	const writeSource = (fileName: string, content: string) =>
+		fs.writeFile(path.join(tempDir, "src", fileName), content, "utf8");
+
+	const readOutput = (fileName: string) =>
+		fs.readFile(path.join(tempDir, "docs", fileName), "utf8");
+
+	beforeAll(async () => {
+		tempDir = await fs.realpath(
+			await fs.mkdtemp(path.join(os.tmpdir(), "hermes-watch-test-")),
+		);
+		await fs.mkdir(path.join(tempDir, "src"));
+		await writeSource(
+			"shape.ts",
+			"/** A shape */\nexport interface Shape {\n\tarea(): number;\n}\n",
+		);
+		await writeSource(
+			"square.ts",
+			`import type { Shape } from "./shape";
+
+/** A square */
+export class Square implements Shape {
+	constructor(private size: number) {}
+
+	area() {
+		return this.size * this.size;
+	}
+}
+`,
+		);
+		await writeSource(
+			"format.ts",
+			"/** Formats a number */\nexport function format(value: number): string {\n\treturn String(value);\n}\n",
+		);
+
+		config = { ...defaultConfig, outDir: path.join(tempDir, "docs") };
+	});
+
+	afterAll(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	const createWatcher = () => {
+		const errors: WatchError[] = [];
+		const summaries: GenerationSummary[] = [];
+		const watcher = new DocumentationWatcher(
+			config,
+			[path.join(tempDir, "src/*.ts")],
+			{
+				onError: (error) => errors.push(error),
+				onSummary: (summary) => summaries.push(summary),
+			},
+		);
+
+		return { watcher, errors, summaries };
+	};
+
+	it("should re-render only the files affected by a change", async () => {
+		const { watcher, summaries } = createWatcher();
+
+		const initial = await watcher.update([]);
+		expect(initial._unsafeUnwrap()).toHaveLength(4);
+		expect(summaries.pop()).toMatchObject({ extracted: 3, regenerated: 4 });
+
+		// Files that do not change the documented symbols are ignored
+		expect(
+			(await watcher.update([path.join(tempDir, "README.md")]))._unsafeUnwrap(),
+		).toEqual([]);
+
+		// Importers of a changed file are extracted and rendered again
+		await writeSource(
+			"shape.ts",
+			"/** A shape with an area */\nexport interface Shape {\n\tarea(): number;\n}\n",
+		);
+		const update = await watcher.update([path.join(tempDir, "src/shape.ts")]);
+
+		expect(
+			update
+				._unsafeUnwrap()
+				.map((outputPath) => path.basename(outputPath))
+				.sort(),
+		).toEqual(["index.md", "shape.md", "square.md"]);
+		expect(summaries.pop()).toMatchObject({
+			extracted: 2,
+			regenerated: 1,
+			untouched: 2,
+		});
+		expect(await readOutput("shape.md")).toContain("A shape with an area");
+	});
+
+	it("should keep the documentation of files with syntax errors", async () => {
+		const { watcher, errors } = createWatcher();
+		await watcher.update([]);
+
+		await writeSource("format.ts", "export function format(value: number {\n");
+		expect(
+			(await watcher.update([path.join(tempDir, "src/format.ts")])).isOk(),
+		).toBe(true);
+
+		expect(errors).toEqual([
+			{
+				type: "syntax_error",
+				filePath: path.join(tempDir, "src/format.ts"),
+				line: 1,
+				message: "',' expected.",
+			},
+		]);
+		expect(await readOutput("format.md")).toContain("Formats a number");
+
+		// The file is documented again once it is fixed
+		await writeSource(
+			"format.ts",
+			"/** Formats a value */\nexport function format(value: number): string {\n\treturn String(value);\n}\n",
+		);
+		await watcher.update([path.join(tempDir, "src/format.ts")]);
+		expect(await readOutput("format.md")).toContain("Formats a value");
+	});
+
+	it("should add new files and remove the output of deleted files", async () => {
+		const { watcher } = createWatcher();
+		await watcher.update([]);
+
+		await writeSource("circle.ts", "/** A circle */\nexport class Circle {}\n");
+		await fs.rm(path.join(tempDir, "src/format.ts"));
+		await watcher.update([
+			path.join(tempDir, "src/circle.ts"),
+			path.join(tempDir, "src/format.ts"),
+		]);
+
+		expect(await readOutput("circle.md")).toContain("A circle");
+		expect(await readOutput("index.md")).not.toContain("format");
+		await expect(readOutput("format.md")).rejects.toThrow();
+	});
+
+	it("should regenerate when watched files change", async () => {
+		const updates: string[][] = [];
+		const watcher = new DocumentationWatcher(
+			config,
+			[path.join(tempDir, "src/*.ts")],
+			{
+				debounce: 10,
+				onUpdate: ({ changedFiles }) => updates.push(changedFiles),
+			},
+		);
+
+		try {
+			expect((await watcher.start()).isOk()).toBe(true);
+			await writeSource(
+				"circle.ts",
+				"/** A round circle */\nexport class Circle {}\n",
+			);
+
+			// Wait for the file system event and the update
+			for (let attempt = 0; attempt < 100 && updates.length === 0; attempt++) {
+				await new Promise((resolve) => setTimeout(resolve, 50));
+			}
+
+			expect(updates).toEqual([[path.join(tempDir, "src/circle.ts")]]);
+			expect(await readOutput("circle.md")).toContain("A round circle");
+		} finally {
+			watcher.close();
+		}
+	});
+
+	it("should watch directories created while watching", async () => {
+		const updates: string[][] = [];
+		const watcher = new DocumentationWatcher(
+			config,
+			[path.join(tempDir, "src/**/*.ts")],
+			{
+				debounce: 10,
+				onUpdate: ({ changedFiles }) => updates.push(changedFiles),
+			},
+		);
+
+		try {
+			expect((await watcher.start()).isOk()).toBe(true);
+			await fs.mkdir(path.join(tempDir, "src", "shapes"));
+
+			// Give the watcher time to pick up the new directory
+			await new Promise((resolve) => setTimeout(resolve, 200));
+			updates.length = 0;
+
+			const trianglePath = path.join(tempDir, "src", "shapes", "triangle.ts");
+			await fs.writeFile(
+				trianglePath,
+				"/** A triangle */\nexport class Triangle {}\n",
+				"utf8",
+			);
+
+			for (
+				let attempt = 0;
+				attempt < 100 && !updates.flat().includes(trianglePath);
+				attempt++
+			) {
+				await new Promise((resolve) => setTimeout(resolve, 50));
+			}
+
+			expect(updates.flat()).toContain(trianglePath);
+		} finally {
+			watcher.close();
+		}
+	});
+});